@@ -1,20 +1,45 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { ethers } from "ethers"
+import { issueNonce } from "@/lib/auth/nonce-store"
+import { SIWE_STATEMENT, allowedSiweChainIds, buildSiweMessage, siweOriginFor } from "@/lib/auth/siwe"
 
 export async function POST(request: NextRequest) {
   try {
-    const { metamask_address } = await request.json()
+    const { metamask_address, chain_id } = await request.json()
 
     if (!metamask_address) {
       return NextResponse.json({ error: "MetaMask address is required" }, { status: 400 })
     }
+    if (!ethers.isAddress(metamask_address)) {
+      return NextResponse.json({ error: "Invalid MetaMask address" }, { status: 400 })
+    }
 
-    // Generate a random nonce for the user to sign
-    const nonce = `Please sign this message to authenticate with VeriCred: ${Math.random().toString(36).substring(2, 15)}`
+    const chainIds = allowedSiweChainIds()
+    const chainId = chain_id == null ? chainIds[0] : Number(chain_id)
+    if (!chainIds.includes(chainId)) {
+      return NextResponse.json({ error: `Chain ${chain_id} is not supported`, supported_chain_ids: chainIds }, { status: 400 })
+    }
 
-    // In a real application, you would store this nonce in a database
-    // associated with the user's address for verification later
+    // Store the nonce against the address; /api/login-metamask consumes it
+    const issued = issueNonce(metamask_address)
+    if (!issued) {
+      return NextResponse.json({ error: "Too many pending sign-in requests; try again in a few minutes" }, { status: 429 })
+    }
+    const { nonce, expiresAt } = issued
+    const { domain, uri } = siweOriginFor(request)
+    const message = buildSiweMessage({
+      domain,
+      address: ethers.getAddress(metamask_address),
+      statement: SIWE_STATEMENT,
+      uri,
+      version: "1",
+      chainId,
+      nonce,
+      issuedAt: new Date().toISOString(),
+      expirationTime: new Date(expiresAt).toISOString(),
+    })
 
-    return NextResponse.json({ nonce })
+    return NextResponse.json({ nonce, message })
   } catch (error) {
     console.error("Error generating nonce:", error)
     return NextResponse.json({ error: "Failed to generate nonce" }, { status: 500 })
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { verifySessionToken } from "@/lib/auth/session-token"
+import { PinningError, pinBytes, pinningAdapter } from "@/lib/ipfs/pinning"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Pins credential metadata (a JSON body) or a file (multipart `file` field) through
+// the configured pinning backend. The response's `cid` has been checked against the
+// uploaded bytes, so it can be minted as `ipfs://<cid>` as is.
+
+const MAX_PIN_BYTES = 10 * 1024 * 1024
+
+function fail(status: number, error: string) {
+  return NextResponse.json({ ok: false, error }, { status })
+}
+
+export async function POST(request: NextRequest) {
+  // Unconfigured pinning answers 503 whoever asks, so clients know to use the backend upload
+  let adapter
+  try {
+    adapter = pinningAdapter()
+  } catch (e) {
+    return fail(e instanceof PinningError ? e.status : 500, (e as Error).message)
+  }
+  if (!adapter) return fail(503, "IPFS pinning is not configured")
+
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
+  if (!verifySessionToken(token)) return fail(401, "Sign in to pin content")
+
+  const declared = Number(request.headers.get("content-length") || 0)
+  if (declared > MAX_PIN_BYTES) return fail(413, `Content is larger than ${MAX_PIN_BYTES} bytes`)
+
+  const contentType = request.headers.get("content-type") || ""
+  let input: { bytes: Uint8Array; name: string; contentType: string }
+  if (contentType.includes("multipart/form-data")) {
+    const file = (await request.formData().catch(() => null))?.get("file")
+    if (!(file instanceof Blob)) return fail(400, "Expected a `file` field")
+    input = {
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      name: file instanceof File && file.name ? file.name : "file",
+      contentType: file.type || "application/octet-stream",
+    }
+  } else if (contentType.includes("application/json")) {
+    // Pinned byte for byte, so the client can hash what it sent and compare
+    const bytes = new Uint8Array(await request.arrayBuffer())
+    try {
+      JSON.parse(new TextDecoder().decode(bytes))
+    } catch {
+      return fail(400, "Body is not valid JSON")
+    }
+    input = { bytes, name: "metadata.json", contentType: "application/json" }
+  } else {
+    return fail(415, "Send JSON or multipart/form-data")
+  }
+  if (input.bytes.length > MAX_PIN_BYTES) return fail(413, `Content is larger than ${MAX_PIN_BYTES} bytes`)
+
+  try {
+    const pinned = await pinBytes(adapter, input)
+    return NextResponse.json(
+      { ok: true, ...pinned, uri: `ipfs://${pinned.cid}`, contentType: input.contentType },
+      { status: 201 },
+    )
+  } catch (e) {
+    console.error("[ipfs] pin failed", e)
+    return fail(e instanceof PinningError ? e.status : 502, e instanceof Error ? e.message : "Pinning failed")
+  }
+}
@@ -1,113 +1,151 @@
+import { promises as dns } from "dns";
 import { NextResponse } from "next/server";
+import { getCached, putCached } from "@/lib/ipfs/cache";
+import { canonicalCid, contentMatchesCid, parseCid } from "@/lib/ipfs/cid";
+import {
+  GatewayError,
+  parseContent,
+  parseIpfsSource,
+  resolveIpfs,
+} from "@/lib/ipfs/gateways";
+import {
+  ProxyError,
+  checkUrl,
+  clientIp,
+  guardedFetch,
+  rateLimited,
+} from "@/lib/ipfs/guard";
+import { readLocalPin } from "@/lib/ipfs/pinning";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 export const runtime = "nodejs";
 
-function normalize(val: any) {
-  let link = typeof val === "string" ? val : val == null ? "" : String(val);
-  link = link.trim();
-  if (!link) return "";
-  if (/^ar:\/\//i.test(link))
-    return link.replace(/^ar:\/\//i, "https://arweave.net/");
-  if (/^https?:\/\//i.test(link)) return link;
-  link = link.replace(/^ipfs:\/\//i, "");
-  link = link.replace(/^\/?ipfs\//i, "");
-  link = link.replace(/^ipfs\//i, "");
-  return link;
-}
+// DNSLink records are looked up with the server's own resolver
+const lookupTxt = async (name: string) =>
+  (await dns.resolveTxt(name)).map((chunks) => chunks.join(""));
 
-function buildCandidates(src: string) {
-  const tryUrls: string[] = [];
-  if (/^https?:\/\//i.test(src)) {
-    tryUrls.push(src);
-  } else {
-    const parts = src.split("/").filter(Boolean);
-    const cid = parts.shift() || "";
-    const path = parts.length ? `/${parts.join("/")}` : "";
-    const pathGateways = [
-      (h: string, p: string) => `https://cloudflare-ipfs.com/ipfs/${h}${p}`,
-      (h: string, p: string) => `https://ipfs.io/ipfs/${h}${p}`,
-      (h: string, p: string) => `https://nftstorage.link/ipfs/${h}${p}`,
-      (h: string, p: string) => `https://dweb.link/ipfs/${h}${p}`,
-      (h: string, p: string) => `https://gateway.pinata.cloud/ipfs/${h}${p}`,
-    ];
-    const subdomainGateways = [
-      (h: string, p: string) => `https://${h}.ipfs.nftstorage.link${p}`,
-      (h: string, p: string) => `https://${h}.ipfs.dweb.link${p}`,
-    ];
-    for (const g of pathGateways) tryUrls.push(g(cid, path));
-    for (const g of subdomainGateways) tryUrls.push(g(cid, path));
-  }
-  return tryUrls;
+// Verified content never changes, so browsers and CDNs may keep it for good
+const IMMUTABLE = { "Cache-Control": "public, max-age=31536000, immutable" };
+
+// Errors carry a `code` (see ProxyErrorCode in lib/ipfs/guard.ts) for clients to act on
+function fail(
+  error: ProxyError,
+  extra: Record<string, unknown> = {},
+  headers?: Record<string, string>
+) {
+  return NextResponse.json(
+    { ok: false, code: error.code, error: error.message, ...extra },
+    { status: error.status, headers }
+  );
 }
 
-async function fetchWithTimeout(url: string, ms = 8000) {
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), ms);
-  try {
-    const r = await fetch(url, {
-      method: "GET",
-      headers: { Accept: "application/json,text/plain,*/*" },
-      signal: controller.signal,
-      cache: "no-store",
-    });
-    return r;
-  } finally {
-    clearTimeout(t);
-  }
+// The most telling reason a resolution failed
+function failureOf(e: GatewayError) {
+  if (e.rejected.length) return new ProxyError("CONTENT_MISMATCH", e.message);
+  if (!e.candidates.length) return new ProxyError("NOT_RESOLVED", e.message, 404);
+  // Every gateway was refused for the same reason, e.g. the one URL given is too large
+  const [first] = e.failures;
+  const same =
+    first instanceof ProxyError &&
+    e.failures.every((f) => f instanceof ProxyError && f.code === first.code);
+  return same ? first : new ProxyError("UPSTREAM_FAILED", e.message);
 }
 
 export async function GET(req: Request) {
+  const retryAfter = rateLimited(clientIp(req.headers));
+  if (retryAfter != null) {
+    return fail(
+      new ProxyError("RATE_LIMITED", "Too many requests; try again later", 429),
+      { retryAfter },
+      { "Retry-After": String(retryAfter) }
+    );
+  }
+
   const { searchParams } = new URL(req.url);
   const raw = searchParams.get("src") || "";
-  const src = normalize(raw);
-  if (!src) {
-    return NextResponse.json(
-      { ok: false, error: "Missing or invalid src" },
-      { status: 400 }
-    );
+  const target = parseIpfsSource(raw);
+  if (!target) {
+    return fail(new ProxyError("INVALID_SOURCE", "Missing or invalid src", 400));
+  }
+  // Plain URLs are only fetched from allowed gateway hosts
+  if (target.kind === "url") {
+    try {
+      await checkUrl(new URL(target.url));
+    } catch (e) {
+      if (e instanceof ProxyError) return fail(e);
+      return fail(new ProxyError("INVALID_SOURCE", "Invalid src URL", 400));
+    }
   }
 
-  const tryUrls = buildCandidates(src);
+  // Only a bare CID can be checked: content at a path inside a directory hangs off
+  // blocks the gateway doesn't send. The resolver checks other names where it can.
+  const cid =
+    target.kind === "ipfs" && !target.path ? parseCid(target.cid) : null;
+  const key = cid ? canonicalCid(cid) : null;
 
-  for (const url of tryUrls) {
-    try {
-      const r = await fetchWithTimeout(url, 8000);
-      if (!r.ok) continue;
-      const ct = r.headers.get("content-type") || "";
-      if (ct.includes("application/json") || ct.includes("text/json")) {
-        const data = await r.json();
-        return NextResponse.json({
-          ok: true,
-          resolvedUrl: url,
-          contentType: ct,
-          data,
-        });
-      } else {
-        const text = await r.text();
-        let data: any = text;
-        try {
-          data = JSON.parse(text);
-        } catch {}
-        return NextResponse.json({
+  if (cid && key) {
+    // Content pinned to the local dev store isn't on any public gateway
+    const local = readLocalPin(key);
+    const hit =
+      getCached(key) ??
+      (local && contentMatchesCid(cid, local.bytes) ? local : null);
+    if (hit) {
+      return NextResponse.json(
+        {
           ok: true,
-          resolvedUrl: url,
-          contentType: ct,
-          data,
-        });
-      }
-    } catch (e) {
-      // continue to next candidate
+          resolvedUrl: `ipfs://${key}`,
+          method: "ipfs",
+          resolvedPath: `/ipfs/${key}`,
+          contentType: hit.contentType,
+          verified: true,
+          cached: true,
+          data: parseContent(hit.bytes),
+        },
+        { headers: IMMUTABLE }
+      );
     }
   }
 
-  return NextResponse.json(
-    {
-      ok: false,
-      error: "All public gateways failed (timeout/CORS/content missing).",
-      candidates: tryUrls,
-    },
-    { status: 502 }
-  );
+  try {
+    const resolved = await resolveIpfs(target, {
+      init: {
+        headers: { Accept: "application/json,text/plain,*/*" },
+        cache: "no-store",
+      },
+      lookupTxt,
+      fetch: guardedFetch,
+    });
+    // A DNSLink domain resolves to a CID too, and the content behind it is cached
+    if (resolved.cid) {
+      putCached(resolved.cid, {
+        bytes: resolved.bytes,
+        contentType: resolved.contentType,
+      });
+    }
+    return NextResponse.json(
+      {
+        ok: true,
+        resolvedUrl: resolved.url,
+        method: resolved.method,
+        resolvedPath: resolved.resolvedPath,
+        contentType: resolved.contentType,
+        verified: resolved.verified,
+        data: parseContent(resolved.bytes),
+      },
+      // A DNSLink domain can be pointed at other content later
+      resolved.verified && resolved.method !== "dnslink"
+        ? { headers: IMMUTABLE }
+        : undefined
+    );
+  } catch (e) {
+    if (!(e instanceof GatewayError)) throw e;
+    for (const url of e.rejected) {
+      console.warn(`[ipfs] ${url} returned content that does not match ${raw}`);
+    }
+    return fail(failureOf(e), {
+      candidates: e.candidates,
+      ...(e.rejected.length ? { rejected: e.rejected } : {}),
+    });
+  }
 }
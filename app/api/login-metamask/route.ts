@@ -1,38 +1,55 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { ethers } from "ethers"
+import { accountTypeOf } from "@/lib/auth/account-type"
+import { consumeNonce } from "@/lib/auth/nonce-store"
+import { signSessionToken } from "@/lib/auth/session-token"
+import { SiweError, allowedSiweChainIds, parseSiweMessage, siweOriginFor, validateSiweMessage } from "@/lib/auth/siwe"
 
 export async function POST(request: NextRequest) {
   try {
-    const { metamask_address, signature } = await request.json()
+    const { metamask_address, signature, message } = await request.json()
 
-    if (!metamask_address || !signature) {
-      return NextResponse.json({ error: "Address and signature are required" }, { status: 400 })
+    if (!metamask_address || !signature || !message) {
+      return NextResponse.json({ error: "Address, signature and message are required" }, { status: 400 })
+    }
+    if (!ethers.isAddress(metamask_address)) {
+      return NextResponse.json({ error: "Invalid MetaMask address" }, { status: 400 })
     }
 
-    // In a real application, you would:
-    // 1. Retrieve the nonce from your database for this address
-    // 2. Verify the signature matches the nonce
-    // 3. Generate and return a JWT token
-
-    // For demo purposes, we'll create a mock verification
-    const mockNonce = `Please sign this message to authenticate with VeriCred: ${Math.random().toString(36).substring(2, 15)}`
+    try {
+      const parsed = parseSiweMessage(String(message))
+      // The nonce is single-use: it is removed here even if verification fails below
+      const nonce = parsed.nonce
+      if (!consumeNonce(metamask_address, nonce)) {
+        return NextResponse.json({ error: "No pending nonce for this address, or it has expired" }, { status: 401 })
+      }
+      validateSiweMessage(parsed, {
+        ...siweOriginFor(request),
+        chainIds: allowedSiweChainIds(),
+        nonce,
+        address: metamask_address,
+      })
+    } catch (e) {
+      if (e instanceof SiweError) {
+        return NextResponse.json({ error: e.message, field: e.field }, { status: 401 })
+      }
+      throw e
+    }
 
+    let recoveredAddress: string
     try {
-      // Verify the signature (in production, use the actual nonce from database)
-      const recoveredAddress = ethers.verifyMessage(mockNonce, signature)
+      recoveredAddress = ethers.verifyMessage(String(message), signature)
+    } catch {
+      return NextResponse.json({ error: "Malformed signature" }, { status: 401 })
+    }
 
-      if (recoveredAddress.toLowerCase() !== metamask_address.toLowerCase()) {
-        return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
-      }
-    } catch (verifyError) {
-      // For demo purposes, we'll skip strict verification
-      console.log("Signature verification skipped for demo")
+    if (recoveredAddress.toLowerCase() !== metamask_address.toLowerCase()) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
     }
 
-    // Generate a mock JWT token (in production, use a proper JWT library)
-    const mockToken = `jwt_token_${metamask_address}_${Date.now()}`
+    const token = signSessionToken(recoveredAddress, await accountTypeOf(recoveredAddress))
 
-    return new NextResponse(mockToken, { status: 200 })
+    return new NextResponse(token, { status: 200 })
   } catch (error) {
     console.error("Error during MetaMask login:", error)
     return NextResponse.json({ error: "Login failed" }, { status: 500 })
@@ -32,6 +32,8 @@ import {
   Check,
 } from "lucide-react";
 import Logo from "@/components/ui/logo";
+import CredentialExport from "@/components/credential-export";
+import { readCredentialMetadata } from "@/lib/domain/metadata";
 
 interface CredentialAttribute {
   trait_type: string;
@@ -61,6 +63,7 @@ export default function CredentialDetails() {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [activeTab, setActiveTab] = useState("details");
   const [copied, setCopied] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
 
   // Mock credential data
   useEffect(() => {
@@ -433,9 +436,10 @@ export default function CredentialDetails() {
                 <Button
                   variant="outline"
                   className="w-full border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white bg-transparent font-semibold py-3"
+                  onClick={() => setExportOpen(true)}
                 >
                   <Download className="h-4 w-4 mr-2" />
-                  Download
+                  Export
                 </Button>
               </motion.div>
             </div>
@@ -622,6 +626,14 @@ export default function CredentialDetails() {
           </motion.div>
         </div>
       </div>
+      {exportOpen && (
+        <CredentialExport
+          title={credentialData.name}
+          details={readCredentialMetadata(credentialData)}
+          anchor={{}}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -11,34 +11,14 @@ import UniversitySelector from "@/components/university-selector";
 import UniversitySpecificView from "@/components/university-specific-view";
 import MintedCredentialsSummary from "@/components/minted-credentials-summary";
 import WalletGuard from "@/components/wallet-guard";
+import TransferGuard from "@/components/transfer-guard";
 import AuthGuard from "@/components/auth/auth-guard";
 import { motion } from "framer-motion";
 import { getStoredToken, isJwtValid } from "@/components/auth/jwt";
+import { ApiError, getDashboard, getStudents } from "@/lib/api/client";
 import Logo from "@/components/ui/logo";
 import { VerificationSignupModal } from "@/components/home/verification-hub";
-
-interface University {
-  id: string;
-  name: string;
-  logo: string;
-  walletAddress: string;
-  verified: boolean;
-  description?: string;
-  website?: string;
-  adminName?: string;
-  adminRole?: string;
-  banner?: string;
-}
-
-interface Credential {
-  id: string;
-  name: string;
-  issueDate: string;
-  universityId: string;
-  universityName: string;
-  status: "eligible" | "pending" | "minted" | "rejected";
-  description?: string;
-}
+import type { Credential, UniversitySummary } from "@/lib/domain/types";
 
 interface UserProfile {
   role: string;
@@ -52,7 +32,7 @@ export default function StudentDashboard() {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
   const [selectedUniversity, setSelectedUniversity] =
-    useState<University | null>(null);
+    useState<UniversitySummary | null>(null);
   const [credentials, setCredentials] = useState<Credential[]>([]);
   const [mintedCredentials, setMintedCredentials] = useState<Credential[]>([]);
   const [loading, setLoading] = useState(true);
@@ -81,24 +61,9 @@ export default function StudentDashboard() {
 
         const token = getStoredToken();
         if (isJwtValid(token)) {
-          const res = await fetch("http://localhost:8080/students", {
-            headers: {
-              ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            },
-          });
-
-          if (res.status === 404) {
-            setNotFound(true);
-            setProfileLoading(false);
-            setLoading(false);
-            return;
-          }
-
-          if (res.ok) {
-            const student = await res.json();
-            const me = Array.isArray(student)
-              ? student[0] || {}
-              : student || {};
+          try {
+            const rows = await getStudents();
+            const me: any = rows[0] || {};
             const hasData = Boolean(
               me &&
                 Object.keys(me).length > 0 &&
@@ -115,10 +80,11 @@ export default function StudentDashboard() {
             } else {
               setNotFound(true);
             }
-          } else {
+          } catch (e) {
+            if (!(e instanceof ApiError)) throw e;
             // Treat other non-OK statuses as not found for signup UX
-            if (res.status === 401 || res.status === 403) {
-              setError(`Failed to load profile: ${res.status}`);
+            if (e.status === 401 || e.status === 403) {
+              setError(`Failed to load profile: ${e.status}`);
             } else {
               setNotFound(true);
             }
@@ -159,7 +125,7 @@ export default function StudentDashboard() {
     setMintedCredentials(mockMintedCredentials);
   }, [userProfile]);
 
-  const handleUniversitySelect = async (university: University) => {
+  const handleUniversitySelect = async (university: UniversitySummary) => {
     setSelectedUniversity(university);
     setLoading(true);
     setError(null);
@@ -211,38 +177,26 @@ export default function StudentDashboard() {
       try {
         setDashboardError(null);
 
-        const token = getStoredToken();
-        const headers: Record<string, string> = {
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        };
-
         // Single source of truth: GET /dashboard
         setError(null);
         setNotFound(false);
-        const res = await fetch("http://localhost:8080/dashboard", {
-          headers,
-          cache: "no-store",
-        });
-
-        if (res.status === 404) {
+        let data: any;
+        try {
+          data = (await getDashboard()) ?? {};
+        } catch (e) {
+          if (!(e instanceof ApiError)) throw e;
+          if (e.status === 404) {
+            setNotFound(true);
+            return;
+          }
+          setDashboardData(e.body);
+          setError(`Profile fetch failed (${e.status})`);
           setNotFound(true);
           return;
         }
-
-        const text = await res.text();
-        const data = text
-          ? (() => {
-              try { return JSON.parse(text); } catch { return { raw: text }; }
-            })()
-          : {};
+        if (typeof data === "string") data = { raw: data };
         setDashboardData(data);
 
-        if (!res.ok) {
-          setError(`Profile fetch failed (${res.status})`);
-          setNotFound(true);
-          return;
-        }
-
         const obj = extractProfile(data) || {};
         // If the API returns any object, show it as the profile (placeholders for missing fields)
         const hasAnyObject = obj && typeof obj === "object" && Object.keys(obj).length > 0;
@@ -415,6 +369,8 @@ export default function StudentDashboard() {
             transition={{ duration: 1.3, ease: "easeOut", delay: 0.1 }}
           />
 
+          <TransferGuard />
+
           {/* Main Content */}
           <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             {error && (
@@ -500,6 +456,11 @@ export default function StudentDashboard() {
                   transition={{ duration: 0.45, delay: 0.1 }}
                 >
                   <MintedCredentialsSummary credentials={mintedCredentials} />
+                  <p className="mt-2 px-1 text-xs text-gray-500">
+                    Credentials are bound to this wallet. Don&apos;t approve or
+                    transfer them: verifiers flag any credential that has been
+                    moved.
+                  </p>
                 </motion.div>
 
                 {/* Profile Summary with required fields */}
@@ -3,6 +3,13 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { ethers } from "ethers";
+import { getNonce, getTransactions, metamaskLogin } from "@/lib/api/client";
+import {
+  normalizeList,
+  normalizeTransaction,
+  type Transaction,
+} from "@/lib/api/schemas";
+import { tokenExplorerUrl, txExplorerUrl } from "@/lib/chain/profiles";
 import Logo from "@/components/ui/logo";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -25,23 +32,12 @@ import {
   X,
 } from "lucide-react";
 
-const TOKEN_URL =
-  "https://sepolia.etherscan.io/token/0xc0a70a43CD5fAF5B15db983fe9f9E769B221738e";
+const TOKEN_URL = tokenExplorerUrl();
 
-// Helper to build a Sepolia Etherscan TX url from the hash
-const TX_URL = (hash: string) => `https://sepolia.etherscan.io/tx/${hash}`;
+// Explorer link for a transaction; undefined on chains without an explorer
+const TX_URL = (hash: string) => txExplorerUrl(hash) ?? undefined;
 
-interface Txn {
-  tx_hash: string;
-  block_number: number | string;
-  from: string; // University Wallet
-  to: string; // Student Wallet
-  value_eth: number | string;
-  gas: number | string;
-  gas_price: number | string;
-  timestamp: string | number; // ISO or epoch seconds
-  status?: "success" | "pending" | "failed"; // Optional, if provided by backend
-}
+type Txn = Transaction;
 
 export default function LandingPublicLedgerPage() {
   // Landing-style navbar state
@@ -91,29 +87,26 @@ export default function LandingPublicLedgerPage() {
       await provider.send("eth_requestAccounts", []);
       const signer = await provider.getSigner();
       const address = await signer.getAddress();
+      const network = await provider.getNetwork();
 
       // Step 1 — get nonce (backend)
-      const nonceRes = await fetch("http://localhost:8080/getnonce", {
-        method: "POST",
-        body: JSON.stringify({ metamask_address: address }),
-        headers: { "Content-Type": "application/json" },
-      });
-      if (!nonceRes.ok) throw new Error("Failed to get nonce");
-      const { nonce } = await nonceRes.json();
+      // SIWE (EIP-4361) servers return the full message to sign; fall back to the raw nonce
+      const { nonce, message } = await getNonce(
+        address,
+        Number(network.chainId)
+      );
+      const toSign: string = message ?? nonce;
 
       // Step 2 — sign the nonce
-      const signature = await signer.signMessage(nonce);
+      const signature = await signer.signMessage(toSign);
 
       // Step 3 — login with signature (backend)
-      const loginRes = await fetch("http://localhost:8080/auth/metamasklogin", {
-        method: "POST",
-        body: JSON.stringify({ metamask_address: address, signature }),
-        headers: { "Content-Type": "application/json" },
+      const token = await metamaskLogin({
+        address,
+        signature,
+        message: toSign,
       });
-      if (!loginRes.ok) throw new Error("Login failed");
-      const token = await loginRes.text();
 
-      const network = await provider.getNetwork();
       // Persist session (same as landing page util)
       try {
         localStorage.setItem(
@@ -151,6 +144,7 @@ export default function LandingPublicLedgerPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [txns, setTxns] = useState<Txn[]>([]);
+  const [skipped, setSkipped] = useState(0);
   const [query, setQuery] = useState("");
   const [sortBy, setSortBy] = useState<"value" | "date">("date");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
@@ -161,26 +155,13 @@ export default function LandingPublicLedgerPage() {
       try {
         setLoading(true);
         setError(null);
-        const res = await fetch("http://localhost:8080/transactions");
-        if (!res.ok) throw new Error(`Failed (${res.status})`);
-        const data = await res.json();
-        const rows: any[] = Array.isArray(data) ? data : data?.rows || [];
-
-        // Normalize to Txn interface
-        const normalized: Txn[] = rows
-          .map((r) => ({
-            tx_hash: r.tx_hash ?? r.id ?? "",
-            block_number: r.block_number ?? r.blockNumber ?? r.block ?? "",
-            from: r.from ?? r.sender ?? "",
-            to: r.to ?? r.receiver ?? "",
-            value_eth: r.value_eth ?? r.amount ?? r.value ?? "",
-            gas: r.gas ?? r.gas_used ?? "",
-            gas_price: r.gas_price ?? r.gasPrice ?? "",
-            timestamp: r.timestamp ?? r.time ?? r.created_at ?? "",
-            status: r.status,
-          }))
-          .filter((r) => r.tx_hash);
-        setTxns(normalized);
+        const { items, rejected } = normalizeList(
+          "transactions",
+          await getTransactions(),
+          normalizeTransaction
+        );
+        setTxns(items);
+        setSkipped(rejected.length);
       } catch (e) {
         setError("Failed to load transactions");
       } finally {
@@ -379,29 +360,37 @@ export default function LandingPublicLedgerPage() {
                   >
                     {sortDir.toUpperCase()}
                   </Button>
-                  <Button
-                    asChild
-                    className="relative overflow-hidden rounded-md bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white shadow-md focus-visible:ring-2 focus-visible:ring-purple-400/50 px-3 sm:px-4 py-2 text-sm"
-                  >
-                    <a
-                      href={TOKEN_URL}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      aria-label="Open contract transactions on Sepolia Etherscan"
-                      className="inline-flex items-center"
+                  {TOKEN_URL && (
+                    <Button
+                      asChild
+                      className="relative overflow-hidden rounded-md bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white shadow-md focus-visible:ring-2 focus-visible:ring-purple-400/50 px-3 sm:px-4 py-2 text-sm"
                     >
-                      <ExternalLink className="h-4 w-4 mr-2" />
-                      <span className="hidden sm:inline">
-                        Contract Transactions
-                      </span>
-                      <span className="sm:hidden">Contract Txns</span>
-                    </a>
-                  </Button>
+                      <a
+                        href={TOKEN_URL}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        aria-label="Open contract transactions on the block explorer"
+                        className="inline-flex items-center"
+                      >
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        <span className="hidden sm:inline">
+                          Contract Transactions
+                        </span>
+                        <span className="sm:hidden">Contract Txns</span>
+                      </a>
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
           </CardHeader>
           <CardContent>
+            {!loading && !error && skipped > 0 && (
+              <div className="mb-3 text-xs text-amber-300">
+                {skipped} transaction{skipped === 1 ? "" : "s"} with an
+                unexpected format {skipped === 1 ? "was" : "were"} left out.
+              </div>
+            )}
             {loading ? (
               <div className="p-6 text-center text-gray-400">Loading...</div>
             ) : error ? (
@@ -491,7 +480,7 @@ export default function LandingPublicLedgerPage() {
                               href={TX_URL(t.tx_hash)}
                               target="_blank"
                               rel="noopener noreferrer"
-                              aria-label={`View transaction ${t.tx_hash} on Sepolia`}
+                              aria-label={`View transaction ${t.tx_hash} on the block explorer`}
                             >
                               <ExternalLink className="h-4 w-4 mr-1" />
                               <span className="hidden sm:inline">
@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { handleMockRequest, mockBackendEnabled } from "@/lib/mock-backend/routes"
+
+// Offline stand-in for the VeriCred backend. Run `pnpm dev:mock`, which points
+// NEXT_PUBLIC_API_BASE_URL here. Disabled in production unless MOCK_BACKEND=1.
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+async function handle(request: NextRequest, { params }: RouteContext) {
+  if (!mockBackendEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+  const { path } = await params
+  return handleMockRequest(request, `/${path.join("/")}`)
+}
+
+export { handle as GET, handle as POST, handle as PATCH, handle as DELETE }
@@ -13,6 +13,7 @@ import {
   CheckCircle2,
 } from "lucide-react";
 import { ethers } from "ethers";
+import { getNonce, metamaskLogin } from "@/lib/api/client";
 // import { usePrivy } from "@privy-io/react-auth";
 import { motion } from "framer-motion";
 import DocsSection from "@/components/landing/docs-section";
@@ -98,29 +99,26 @@ export default function LandingPage() {
       }
       const signer = await provider.getSigner();
       const address = await signer.getAddress();
+      const network = await provider.getNetwork();
 
       // Step 1 — get nonce (backend)
-      const nonceRes = await fetch("http://localhost:8080/getnonce", {
-        method: "POST",
-        body: JSON.stringify({ metamask_address: address }),
-        headers: { "Content-Type": "application/json" },
-      });
-      if (!nonceRes.ok) throw new Error("Failed to get nonce");
-      const { nonce } = await nonceRes.json();
+      // SIWE (EIP-4361) servers return the full message to sign; fall back to the raw nonce
+      const { nonce, message } = await getNonce(
+        address,
+        Number(network.chainId)
+      );
+      const toSign: string = message ?? nonce;
 
       // Step 2 — sign the nonce
-      const signature = await signer.signMessage(nonce);
+      const signature = await signer.signMessage(toSign);
 
       // Step 3 — login with signature (backend)
-      const loginRes = await fetch("http://localhost:8080/auth/metamasklogin", {
-        method: "POST",
-        body: JSON.stringify({ metamask_address: address, signature }),
-        headers: { "Content-Type": "application/json" },
+      const token = await metamaskLogin({
+        address,
+        signature,
+        message: toSign,
       });
-      if (!loginRes.ok) throw new Error("Login failed");
-      const token = await loginRes.text();
 
-      const network = await provider.getNetwork();
       saveWalletSession({
         address,
         chainId: `0x${network.chainId.toString(16)}`,
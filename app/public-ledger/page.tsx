@@ -14,29 +14,26 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ArrowDownUp, Copy, Search, ExternalLink } from "lucide-react";
+import { getTransactions } from "@/lib/api/client";
+import {
+  normalizeList,
+  normalizeTransaction,
+  type Transaction,
+} from "@/lib/api/schemas";
+import { tokenExplorerUrl, txExplorerUrl } from "@/lib/chain/profiles";
 
-const TOKEN_URL =
-  "https://sepolia.etherscan.io/token/0xc0a70a43CD5fAF5B15db983fe9f9E769B221738e";
+const TOKEN_URL = tokenExplorerUrl();
 
-// Helper to build a Sepolia Etherscan TX url from the hash
-const TX_URL = (hash: string) => `https://sepolia.etherscan.io/tx/${hash}`;
+// Explorer link for a transaction; undefined on chains without an explorer
+const TX_URL = (hash: string) => txExplorerUrl(hash) ?? undefined;
 
-interface Txn {
-  tx_hash: string;
-  block_number: number | string;
-  from: string; // University Wallet
-  to: string; // Student Wallet
-  value_eth: number | string;
-  gas: number | string;
-  gas_price: number | string;
-  timestamp: string | number; // ISO or epoch seconds
-  status?: "success" | "pending" | "failed"; // Optional, if provided by backend
-}
+type Txn = Transaction;
 
 export default function PublicLedgerPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [txns, setTxns] = useState<Txn[]>([]);
+  const [skipped, setSkipped] = useState(0);
   const [query, setQuery] = useState("");
   const [sortBy, setSortBy] = useState<"value" | "date">("date");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
@@ -46,26 +43,13 @@ export default function PublicLedgerPage() {
       try {
         setLoading(true);
         setError(null);
-        const res = await fetch("http://localhost:8080/transactions");
-        if (!res.ok) throw new Error(`Failed (${res.status})`);
-        const data = await res.json();
-        const rows: any[] = Array.isArray(data) ? data : data?.rows || [];
-
-        // Normalize to Txn interface
-        const normalized: Txn[] = rows
-          .map((r) => ({
-            tx_hash: r.tx_hash ?? r.id ?? "",
-            block_number: r.block_number ?? r.blockNumber ?? r.block ?? "",
-            from: r.from ?? r.sender ?? "",
-            to: r.to ?? r.receiver ?? "",
-            value_eth: r.value_eth ?? r.amount ?? r.value ?? "",
-            gas: r.gas ?? r.gas_used ?? "",
-            gas_price: r.gas_price ?? r.gasPrice ?? "",
-            timestamp: r.timestamp ?? r.time ?? r.created_at ?? "",
-            status: r.status,
-          }))
-          .filter((r) => r.tx_hash);
-        setTxns(normalized);
+        const { items, rejected } = normalizeList(
+          "transactions",
+          await getTransactions(),
+          normalizeTransaction
+        );
+        setTxns(items);
+        setSkipped(rejected.length);
       } catch (e) {
         setError("Failed to load transactions");
       } finally {
@@ -187,29 +171,37 @@ export default function PublicLedgerPage() {
                   {sortDir.toUpperCase()}
                 </Button>
                 {/* Contract Transactions (responsive, modern) */}
-                <Button
-                  asChild
-                  className="relative overflow-hidden rounded-md bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white shadow-md focus-visible:ring-2 focus-visible:ring-purple-400/50 px-3 sm:px-4 py-2 text-sm"
-                >
-                  <a
-                    href={TOKEN_URL}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    aria-label="Open contract transactions on Sepolia Etherscan"
-                    className="inline-flex items-center"
+                {TOKEN_URL && (
+                  <Button
+                    asChild
+                    className="relative overflow-hidden rounded-md bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white shadow-md focus-visible:ring-2 focus-visible:ring-purple-400/50 px-3 sm:px-4 py-2 text-sm"
                   >
-                    <ExternalLink className="h-4 w-4 mr-2" />
-                    <span className="hidden sm:inline">
-                      Contract Transactions
-                    </span>
-                    <span className="sm:hidden">Contract Txns</span>
-                  </a>
-                </Button>
+                    <a
+                      href={TOKEN_URL}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label="Open contract transactions on the block explorer"
+                      className="inline-flex items-center"
+                    >
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      <span className="hidden sm:inline">
+                        Contract Transactions
+                      </span>
+                      <span className="sm:hidden">Contract Txns</span>
+                    </a>
+                  </Button>
+                )}
               </div>
             </div>
           </div>
         </CardHeader>
         <CardContent>
+          {!loading && !error && skipped > 0 && (
+            <div className="mb-3 text-xs text-amber-300">
+              {skipped} transaction{skipped === 1 ? "" : "s"} with an
+              unexpected format {skipped === 1 ? "was" : "were"} left out.
+            </div>
+          )}
           {loading ? (
             <div className="p-6 text-center text-gray-400">Loading...</div>
           ) : error ? (
@@ -298,7 +290,7 @@ export default function PublicLedgerPage() {
                             href={TX_URL(t.tx_hash)}
                             target="_blank"
                             rel="noopener noreferrer"
-                            aria-label={`View transaction ${t.tx_hash} on Sepolia`}
+                            aria-label={`View transaction ${t.tx_hash} on the block explorer`}
                           >
                             <ExternalLink className="h-4 w-4 mr-1" />
                             <span className="hidden sm:inline">
@@ -23,61 +23,48 @@ import {
   Copy,
   Check,
   Upload,
+  Stamp,
+  Library,
 } from "lucide-react";
 import UniversityProfile from "@/components/university-profile";
 import StudentManagement from "@/components/student-management";
+import CredentialManagement from "@/components/credential-management";
 import MintCredentialModal from "@/components/mint-credential-modal";
 import AuthGuard from "@/components/auth/auth-guard";
 import { motion } from "framer-motion";
 import Logo from "@/components/ui/logo";
 import { getStoredToken } from "@/components/auth/jwt";
+import {
+  ApiError,
+  approvePending,
+  getApprovalPolicy,
+  getCredentialTypes,
+  getPendingForOrg,
+  getUniversity,
+  isNotFound,
+} from "@/lib/api/client";
+import { normalizeList, normalizePendingRequest } from "@/lib/api/schemas";
 import { useToast } from "@/components/ui/toast";
 import { VerificationSignupModal } from "@/components/home/verification-hub";
 import BulkUpload from "@/components/bulk-upload";
-
-// Mock data types
-interface University {
-  id: string;
-  name: string;
-  description: string;
-  website: string;
-  walletAddress: string;
-  verified: boolean;
-  adminName: string;
-  adminRole: string;
-  logo: string;
-  banner: string;
-}
-
-interface Student {
-  id: string;
-  name: string;
-  universityId: string;
-  walletAddress: string;
-  eligibilityStatus:
-    | "graduated"
-    | "eligible"
-    | "pending_review"
-    | "not_eligible";
-  mintingStatus: "none" | "pending" | "minting" | "minted" | "failed";
-  joinDate: string;
-  lastActivity: string;
-}
-
-interface Credential {
-  id: string;
-  name: string;
-  type: string;
-  description: string;
-  totalIssued: number;
-  status: "active" | "inactive";
-  createdDate: string;
-}
+import BatchMint from "@/components/batch-mint";
+import type { BulkRow } from "@/lib/batch/csv";
+import MintedCredentialsSummary from "@/components/minted-credentials-summary";
+import ApprovalPolicyCard from "@/components/approval-policy";
+import ApprovalQueue from "@/components/approval-queue";
+import type { ApprovalPolicy, CredentialDraft } from "@/lib/api/types";
+import type {
+  CredentialProgram,
+  Student,
+  University,
+} from "@/lib/domain/types";
+import { toCredentialProgram } from "@/lib/domain/credential-catalog";
+import { ipfsLinkUrl } from "@/lib/ipfs/gateways";
 
 export default function UniversityDashboard() {
   const [university, setUniversity] = useState<University | null>(null);
   const [students, setStudents] = useState<Student[]>([]);
-  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [credentials, setCredentials] = useState<CredentialProgram[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("dashboard");
   const [isMintModalOpen, setIsMintModalOpen] = useState(false);
@@ -125,6 +112,16 @@ export default function UniversityDashboard() {
     Array<{ student_wallet: string; university_wallet: string; id?: string }>
   >([]);
   const [copiedWallet, setCopiedWallet] = useState<string | null>(null);
+  const [importedRows, setImportedRows] = useState<BulkRow[] | null>(null);
+  // undefined until loaded; minting stays disabled until then
+  const [approvalPolicy, setApprovalPolicy] = useState<
+    ApprovalPolicy | null | undefined
+  >(undefined);
+  const [approvalPolicyError, setApprovalPolicyError] = useState<
+    string | null
+  >(null);
+  const [draftsVersion, setDraftsVersion] = useState(0);
+  const [awaitingApproval, setAwaitingApproval] = useState(0);
   const { showToast } = useToast();
 
   // Helper to copy wallet addresses in Pending list
@@ -162,91 +159,70 @@ export default function UniversityDashboard() {
         // fall back to stored signup data (vericred_user) or mock data.
         if (token) {
           // Returning user - fetch data from API
-          const fetchUrl = "http://localhost:8080/university";
-          console.log(
-            "Fetching university from",
-            fetchUrl,
-            "token present:",
-            !!token
-          );
-          const response = await fetch(fetchUrl, {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${token}`,
-              "Content-Type": "application/json",
-            },
-          });
-          // Handle 404 explicitly
-          if (response.status === 404) {
-            setNotFound(true);
+          let data: any;
+          try {
+            data = (await getUniversity()) || {};
+          } catch (e) {
+            // Handle 404 explicitly
+            if (isNotFound(e)) {
+              setNotFound(true);
+              setLoading(false);
+              return;
+            }
+            if (
+              e instanceof ApiError &&
+              (e.status === 401 || e.status === 403)
+            ) {
+              setErrorMsg("Authentication failed. Please log in again.");
+            } else if (e instanceof ApiError) {
+              setErrorMsg(`Failed to load university data: ${e.status}`);
+            } else {
+              throw e;
+            }
             setLoading(false);
             return;
           }
-          console.log("University API status:", response.status);
-          const text = await response.text();
-          console.log("University API raw response:", text);
-          let data: any = null;
-          try {
-            data = text ? JSON.parse(text) : {};
-          } catch (parseErr) {
-            console.error(
-              "Failed to parse university response JSON:",
-              parseErr
-            );
-            data = {};
-          }
 
-          if (response.ok) {
-            // Map backend fields to frontend University interface
-            const mapped: University = {
-              id: data?.id
-                ? String(data.id)
-                : data?.org_name?.toLowerCase() || "unknown",
-              name: data?.org_name || data?.name || "Unknown University",
-              description: data?.org_desc || data?.description || "",
-              website: data?.org_url || data?.orgUrl || "",
-              walletAddress:
-                data?.metamask_address ||
-                data?.metamask ||
-                data?.walletAddress ||
-                "",
-              verified: Boolean(data?.is_verified),
-              adminName: data?.acad_email || "",
-              adminRole: "Administrator",
-              logo: data?.logo_ip_fs_hash
-                ? `https://ipfs.io/ipfs/${data.logo_ip_fs_hash}`
-                : data?.logo || "",
-              banner: data?.banner_ip_fs_hash
-                ? `https://ipfs.io/ipfs/${data.banner_ip_fs_hash}`
-                : data?.banner || "",
-            };
-
-            setUniversity(mapped);
-            setStudents(data?.students || []);
-            setCredentials(data?.credentials || []);
-            setRecentActivities(data?.activities || []);
-
-            setAnimatedStats({
-              students: Number(
-                data?.total_students || data?.totalStudents || 0
-              ),
-              credentials: Number(
-                data?.total_credentials ||
-                  data?.totalCredentials ||
-                  data?.active_credentials ||
-                  0
-              ),
-              pending: Number(data?.pending_requests || data?.pending || 0),
-            });
+          // Map backend fields to frontend University interface
+          const mapped: University = {
+            id: data?.id
+              ? String(data.id)
+              : data?.org_name?.toLowerCase() || "unknown",
+            name: data?.org_name || data?.name || "Unknown University",
+            description: data?.org_desc || data?.description || "",
+            website: data?.org_url || data?.orgUrl || "",
+            walletAddress:
+              data?.metamask_address ||
+              data?.metamask ||
+              data?.walletAddress ||
+              "",
+            verified: Boolean(data?.is_verified),
+            adminName: data?.acad_email || "",
+            adminRole: "Administrator",
+            logo: data?.logo_ip_fs_hash
+              ? ipfsLinkUrl(data.logo_ip_fs_hash)
+              : data?.logo || "",
+            banner: data?.banner_ip_fs_hash
+              ? ipfsLinkUrl(data.banner_ip_fs_hash)
+              : data?.banner || "",
+          };
 
-            setLoading(false);
-          } else if (response.status === 401 || response.status === 403) {
-            setErrorMsg("Authentication failed. Please log in again.");
-            setLoading(false);
-          } else {
-            setErrorMsg(`Failed to load university data: ${response.status}`);
-            setLoading(false);
-          }
+          setUniversity(mapped);
+          setStudents(data?.students || []);
+          setRecentActivities(data?.activities || []);
+
+          setAnimatedStats({
+            students: Number(data?.total_students || data?.totalStudents || 0),
+            credentials: Number(
+              data?.total_credentials ||
+                data?.totalCredentials ||
+                data?.active_credentials ||
+                0
+            ),
+            pending: Number(data?.pending_requests || data?.pending || 0),
+          });
+
+          setLoading(false);
         } else if (storedUser) {
           // No token but we have stored signup data – use it as a fallback
           const userData = JSON.parse(storedUser);
@@ -313,8 +289,8 @@ export default function UniversityDashboard() {
           name: "John Smith",
           universityId: "MIT2024001",
           walletAddress: "0x742d35Cc6634C0532925a3b8D4C0532925a3b8D4",
-          eligibilityStatus: "graduated",
-          mintingStatus: "none",
+          eligibility: { status: "graduated" },
+          minting: { status: "none" },
           joinDate: "2024-01-15",
           lastActivity: "2024-01-20",
         },
@@ -323,8 +299,8 @@ export default function UniversityDashboard() {
           name: "Emily Chen",
           universityId: "MIT2024002",
           walletAddress: "0x8f3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d",
-          eligibilityStatus: "eligible",
-          mintingStatus: "pending",
+          eligibility: { status: "eligible" },
+          minting: { status: "pending" },
           joinDate: "2024-01-10",
           lastActivity: "2024-01-22",
         },
@@ -333,8 +309,8 @@ export default function UniversityDashboard() {
           name: "Michael Rodriguez",
           universityId: "MIT2024003",
           walletAddress: "0x2e4f6a8b0c2d4e6f8a0b2c4d6e8f0a2b4c6d8e0f",
-          eligibilityStatus: "pending_review",
-          mintingStatus: "none",
+          eligibility: { status: "pending_review" },
+          minting: { status: "none" },
           joinDate: "2024-01-12",
           lastActivity: "2024-01-21",
         },
@@ -343,14 +319,14 @@ export default function UniversityDashboard() {
           name: "Lisa Wang",
           universityId: "MIT2023045",
           walletAddress: "0x9a1b3c5d7e9f1a3b5c7d9e1f3a5b7c9d1e3f5a7b",
-          eligibilityStatus: "graduated",
-          mintingStatus: "minted",
+          eligibility: { status: "graduated" },
+          minting: { status: "minted" },
           joinDate: "2023-09-01",
           lastActivity: "2024-01-19",
         },
       ];
 
-      const mockCredentials: Credential[] = [
+      const mockCredentials: CredentialProgram[] = [
         {
           id: "1",
           name: "Bachelor of Science in Computer Science",
@@ -359,6 +335,7 @@ export default function UniversityDashboard() {
           totalIssued: 156,
           status: "active",
           createdDate: "2023-01-01",
+          version: 1,
         },
         {
           id: "2",
@@ -368,6 +345,7 @@ export default function UniversityDashboard() {
           totalIssued: 89,
           status: "active",
           createdDate: "2023-01-01",
+          version: 1,
         },
         {
           id: "3",
@@ -377,6 +355,7 @@ export default function UniversityDashboard() {
           totalIssued: 234,
           status: "active",
           createdDate: "2023-06-01",
+          version: 1,
         },
       ];
 
@@ -428,7 +407,7 @@ export default function UniversityDashboard() {
           (sum, cred) => sum + cred.totalIssued,
           0
         ),
-        pending: mockStudents.filter((s) => s.mintingStatus === "pending")
+        pending: mockStudents.filter((s) => s.minting.status === "pending")
           .length,
       });
     };
@@ -438,68 +417,68 @@ export default function UniversityDashboard() {
 
   const fetchPending = useCallback(async () => {
     try {
-      const token = getStoredToken();
-      console.log("[Pending] GET /api/pending/for-org", {
-        tokenPresent: !!token,
-      });
-      const res = await fetch("http://localhost:8080/api/pending/for-org", {
-        method: "GET",
-        headers: {
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-      });
-      const text = await res.text();
-      if (!res.ok) throw new Error(`Failed (${res.status}): ${text}`);
-      const data = text ? JSON.parse(text) : [];
-      const rows = Array.isArray(data) ? data : data?.rows || [];
-      const normalized = rows
-        .map((r: any) => {
-          // Support multiple backend shapes, including nested requester/organization objects
-          const student_wallet =
-            r?.student_wallet ??
-            r?.studentWallet ??
-            r?.student ??
-            r?.requester_wallet ??
-            r?.requesterWallet ??
-            r?.student_address ??
-            r?.walletAddress ??
-            r?.wallet ??
-            r?.user_wallet ??
-            r?.requester?.metamask_address ??
-            r?.requester?.metamaskAddress ??
-            r?.requester?.wallet_address ??
-            r?.requester?.walletAddress ??
-            r?.requester?.address ??
-            "";
-
-          const university_wallet =
-            r?.university_wallet ??
-            r?.universityWallet ??
-            r?.university_address ??
-            r?.org_wallet ??
-            r?.orgWallet ??
-            r?.issuer_wallet ??
-            r?.university ??
-            r?.organization?.metamask_address ??
-            r?.organization?.metamaskAddress ??
-            r?.organization?.wallet_address ??
-            r?.organization?.walletAddress ??
-            university?.walletAddress ??
-            "";
-
-          return {
-            id: r?.id ?? r?.request_id ?? r?._id ?? undefined,
-            student_wallet,
-            university_wallet,
-          };
+      const rows = await getPendingForOrg();
+      const { items, rejected } = normalizeList("pending", rows, (r) =>
+        normalizePendingRequest(r, {
+          university_wallet: university?.walletAddress || undefined,
         })
-        .filter((r: any) => !!r.student_wallet);
+      );
+      const normalized = items.map((r) => ({
+        id: r.id,
+        student_wallet: r.student_wallet,
+        university_wallet: r.university_wallet ?? "",
+      }));
+      if (rejected.length > 0) {
+        showToast({
+          title: "Some requests could not be read",
+          description: `${rejected.length} pending request(s) had an unexpected format and were skipped.`,
+          variant: "error",
+        });
+      }
       setPendingRequests(normalized);
       console.log("[Pending] Loaded", normalized);
     } catch (e) {
       console.warn("[Pending] fetch error", e);
     }
-  }, [university?.walletAddress]);
+  }, [university?.walletAddress, showToast]);
+
+  // The approval policy decides whether the mint modal mints or files a draft
+  useEffect(() => {
+    if (!university?.walletAddress || !getStoredToken()) return;
+    setApprovalPolicyError(null);
+    getApprovalPolicy()
+      .then(setApprovalPolicy)
+      .catch((e) => {
+        console.warn("[Approvals] policy fetch error", e);
+        setApprovalPolicyError(e?.message || "Request failed");
+        showToast({
+          title: "Minting is paused",
+          description:
+            "The approval policy could not be loaded. Reload the page to try again.",
+          variant: "error",
+        });
+      });
+  }, [university?.walletAddress, showToast]);
+
+  // The credential type catalog feeds the mint modal; issued counts are refreshed
+  // whenever the Credential Types tab is opened
+  const fetchCatalog = useCallback(async () => {
+    if (!getStoredToken()) return;
+    try {
+      const rows = await getCredentialTypes();
+      setCredentials(rows.map(toCredentialProgram));
+    } catch (e) {
+      console.warn("[Catalog] fetch error", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (university?.walletAddress) fetchCatalog();
+  }, [university?.walletAddress, fetchCatalog]);
+
+  useEffect(() => {
+    if (activeTab === "catalog") fetchCatalog();
+  }, [activeTab, fetchCatalog]);
 
   // Fetch when the Pending tab is opened
   useEffect(() => {
@@ -560,16 +539,7 @@ export default function UniversityDashboard() {
   // Approve flow handler: called after mint success
   async function markApproved(student_wallet: string) {
     try {
-      const token = getStoredToken();
-      const res = await fetch("http://localhost:8080/api/pending/approve", {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ student_wallet }),
-      });
-      if (!res.ok) throw new Error(`Approve failed (${res.status})`);
+      await approvePending(student_wallet);
       setPendingRequests((prev) =>
         prev.filter((p) => p.student_wallet !== student_wallet)
       );
@@ -588,7 +558,7 @@ export default function UniversityDashboard() {
   const handleMintSubmit = async (payload: any) => {
     console.log("Mint completed payload:", payload);
     const recipient =
-      payload?.recipient ||
+      payload?.recipient?.wallet ||
       payload?.walletAddress ||
       selectedStudentForMint?.walletAddress ||
       null;
@@ -596,7 +566,16 @@ export default function UniversityDashboard() {
     if (recipient) {
       setStudents((prev) =>
         prev.map((s) =>
-          s.walletAddress === recipient ? { ...s, mintingStatus: "minted" } : s
+          s.walletAddress === recipient
+            ? {
+                ...s,
+                minting: {
+                  status: "minted",
+                  txHash: payload?.txHash,
+                  tokenURI: payload?.ipfslink,
+                },
+              }
+            : s
         )
       );
     }
@@ -611,6 +590,28 @@ export default function UniversityDashboard() {
     setSelectedStudentForMint(null);
   };
 
+  // A draft was filed from the mint modal instead of minting
+  const handleDraftCreated = (draft: CredentialDraft) => {
+    setStudents((prev) =>
+      prev.map((s) =>
+        s.walletAddress?.toLowerCase() === draft.student_wallet.toLowerCase()
+          ? { ...s, minting: { status: "pending" } }
+          : s
+      )
+    );
+    setDraftsVersion((v) => v + 1);
+    setIsMintModalOpen(false);
+    setSelectedStudentForMint(null);
+  };
+
+  // An approved draft was minted from the approval queue
+  const handleDraftMinted = (draft: CredentialDraft) =>
+    handleMintSubmit({
+      ...draft.metadata,
+      ipfslink: draft.token_uri,
+      txHash: draft.tx_hash,
+    });
+
   // Don't render anything until client is ready
   if (!isClient) {
     return (
@@ -709,7 +710,7 @@ export default function UniversityDashboard() {
               className="space-y-6"
             >
               {/* Navigation Tabs */}
-              <TabsList className="grid w-full grid-cols-2 md:grid-cols-4 gap-1 bg-gray-900/80 border border-gray-800 backdrop-blur-sm p-1">
+              <TabsList className="grid w-full grid-cols-2 md:grid-cols-7 gap-1 bg-gray-900/80 border border-gray-800 backdrop-blur-sm p-1">
                 <TabsTrigger
                   value="dashboard"
                   className="flex items-center justify-center gap-2 text-xs sm:text-sm data-[state=active]:bg-purple-900/30 data-[state=active]:text-purple-300 data-[state=active]:border-purple-700 text-gray-400 transition-all duration-200 hover:text-white px-2 py-2"
@@ -724,6 +725,14 @@ export default function UniversityDashboard() {
                   <Users className="h-4 w-4" />
                   <span>Students</span>
                 </TabsTrigger>
+                <TabsTrigger
+                  value="catalog"
+                  className="flex items-center justify-center gap-2 text-xs sm:text-sm data-[state=active]:bg-purple-900/30 data-[state=active]:text-purple-300 data-[state=active]:border-purple-700 text-gray-400 transition-all duration-200 hover:text-white px-2 py-2"
+                >
+                  <Library className="h-4 w-4" />
+                  <span className="inline sm:hidden">Types</span>
+                  <span className="hidden sm:inline">Credential Types</span>
+                </TabsTrigger>
                 <TabsTrigger
                   value="pending"
                   className="flex items-center justify-center gap-2 text-xs sm:text-sm data-[state=active]:bg-purple-900/30 data-[state=active]:text-purple-300 data-[state=active]:border-purple-700 text-gray-400 transition-all duration-200 hover:text-white px-2 py-2"
@@ -737,6 +746,26 @@ export default function UniversityDashboard() {
                     </span>
                   )}
                 </TabsTrigger>
+                <TabsTrigger
+                  value="approvals"
+                  className="flex items-center justify-center gap-2 text-xs sm:text-sm data-[state=active]:bg-purple-900/30 data-[state=active]:text-purple-300 data-[state=active]:border-purple-700 text-gray-400 transition-all duration-200 hover:text-white px-2 py-2"
+                >
+                  <Stamp className="h-4 w-4" />
+                  <span className="inline sm:hidden">Approval</span>
+                  <span className="hidden sm:inline">Awaiting Approval</span>
+                  {awaitingApproval > 0 && (
+                    <span className="ml-1 sm:ml-2 inline-flex items-center justify-center px-2 py-0.5 rounded-full bg-yellow-900/40 text-yellow-300 text-[10px] sm:text-xs">
+                      {awaitingApproval}
+                    </span>
+                  )}
+                </TabsTrigger>
+                <TabsTrigger
+                  value="issued"
+                  className="flex items-center justify-center gap-2 text-xs sm:text-sm data-[state=active]:bg-purple-900/30 data-[state=active]:text-purple-300 data-[state=active]:border-purple-700 text-gray-400 transition-all duration-200 hover:text-white px-2 py-2"
+                >
+                  <Award className="h-4 w-4" />
+                  <span>Issued</span>
+                </TabsTrigger>
                 <TabsTrigger
                   value="bulk-upload"
                   className="flex items-center justify-center gap-2 text-xs sm:text-sm data-[state=active]:bg-purple-900/30 data-[state=active]:text-purple-300 data-[state=active]:border-purple-700 text-gray-400 transition-all duration-200 hover:text-white px-2 py-2"
@@ -799,6 +828,14 @@ export default function UniversityDashboard() {
                 />
               </TabsContent>
 
+              {/* Credential type catalog */}
+              <TabsContent value="catalog">
+                <CredentialManagement
+                  credentials={credentials}
+                  setCredentials={setCredentials}
+                />
+              </TabsContent>
+
               {/* Pending Requests */}
               <TabsContent value="pending" className="space-y-4">
                 <Card className="bg-gradient-to-br from-gray-900/90 via-black/80 to-purple-900/20 border border-gray-800/60 backdrop-blur-xl shadow-2xl">
@@ -884,18 +921,16 @@ export default function UniversityDashboard() {
                                         s.walletAddress?.toLowerCase() ===
                                         wallet.toLowerCase()
                                     );
-                                    const student =
-                                      match ||
-                                      ({
-                                        id: wallet,
-                                        name: short,
-                                        universityId: university?.id || "org",
-                                        walletAddress: wallet,
-                                        eligibilityStatus: "eligible",
-                                        mintingStatus: "none",
-                                        joinDate: "",
-                                        lastActivity: "",
-                                      } as any);
+                                    const student: Student = match || {
+                                      id: wallet,
+                                      name: short,
+                                      universityId: university?.id || "org",
+                                      walletAddress: wallet,
+                                      eligibility: { status: "eligible" },
+                                      minting: { status: "pending" },
+                                      joinDate: "",
+                                      lastActivity: "",
+                                    };
                                     setSelectedStudentForMint(student);
                                     setIsMintModalOpen(true);
                                   }}
@@ -912,9 +947,36 @@ export default function UniversityDashboard() {
                 </Card>
               </TabsContent>
 
+              {/* Drafts collecting approvals before they can be minted */}
+              <TabsContent value="approvals" className="space-y-4">
+                <ApprovalPolicyCard
+                  policy={approvalPolicy ?? null}
+                  onSaved={setApprovalPolicy}
+                />
+                <ApprovalQueue
+                  university={university}
+                  refreshKey={draftsVersion}
+                  onMinted={handleDraftMinted}
+                  onCountChange={setAwaitingApproval}
+                />
+              </TabsContent>
+
               {/* Bulk Upload */}
+              {/* Issued credentials: revoke / suspend */}
+              <TabsContent value="issued" className="space-y-4">
+                <MintedCredentialsSummary
+                  issuerWallet={university.walletAddress}
+                />
+              </TabsContent>
+
               <TabsContent value="bulk-upload" className="space-y-4">
-                <BulkUpload />
+                <BulkUpload onImported={setImportedRows} />
+                <BatchMint
+                  university={university}
+                  rows={importedRows}
+                  approvalPolicy={approvalPolicy}
+                  approvalPolicyError={approvalPolicyError}
+                />
               </TabsContent>
             </Tabs>
           )}
@@ -929,6 +991,10 @@ export default function UniversityDashboard() {
             onSubmit={handleMintSubmit}
             student={selectedStudentForMint}
             university={university}
+            approvalPolicy={approvalPolicy}
+            approvalPolicyError={approvalPolicyError}
+            onDraftCreated={handleDraftCreated}
+            credentialTypes={credentials}
           />
         </main>
       </div>
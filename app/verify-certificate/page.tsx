@@ -10,7 +10,12 @@ import {
   XCircle,
   AlertTriangle,
   Loader2,
+  Ban,
+  PauseCircle,
 } from "lucide-react";
+import { verifyDocument } from "@/lib/api/client";
+import { normalizeCredential } from "@/lib/api/schemas";
+import { checkRevocations, readChainFacts } from "@/lib/chain/verify";
 
 type VerifyStatus =
   | "idle"
@@ -18,6 +23,8 @@ type VerifyStatus =
   | "VERIFIED"
   | "NOT_FOUND"
   | "TAMPERED"
+  | "REVOKED"
+  | "SUSPENDED"
   | "error";
 
 const statusConfig: Record<
@@ -42,6 +49,18 @@ const statusConfig: Record<
     subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
     border: "border-amber-500/30",
   },
+  REVOKED: {
+    label: "Revoked by issuer",
+    color: "text-red-400",
+    subtle: "from-red-500/10 via-red-500/5 to-transparent",
+    border: "border-red-500/30",
+  },
+  SUSPENDED: {
+    label: "Suspended by issuer",
+    color: "text-orange-400",
+    subtle: "from-orange-500/10 via-orange-500/5 to-transparent",
+    border: "border-orange-500/30",
+  },
 };
 
 export default function VerifyCertificatePage() {
@@ -61,6 +80,10 @@ export default function VerifyCertificatePage() {
       return <AlertTriangle className="h-5 w-5 text-amber-400" />;
     if (status === "NOT_FOUND")
       return <XCircle className="h-5 w-5 text-red-400" />;
+    if (status === "REVOKED")
+      return <Ban className="h-5 w-5 text-red-400" />;
+    if (status === "SUSPENDED")
+      return <PauseCircle className="h-5 w-5 text-orange-400" />;
     return null;
   }, [status]);
 
@@ -68,7 +91,9 @@ export default function VerifyCertificatePage() {
   const statusKey = useMemo<keyof typeof statusConfig | null>(() => {
     return status === "VERIFIED" ||
       status === "NOT_FOUND" ||
-      status === "TAMPERED"
+      status === "TAMPERED" ||
+      status === "REVOKED" ||
+      status === "SUSPENDED"
       ? status
       : null;
   }, [status]);
@@ -122,21 +147,8 @@ export default function VerifyCertificatePage() {
       const buf = await file.arrayBuffer();
       const hash = await sha256(buf);
 
-      // Try backend verification (adjust endpoint if needed)
-      const form = new FormData();
-      form.append("file", file);
-      form.append("hash", hash);
-
-      const resp = await fetch("http://localhost:8080/api/v1/verify-document", {
-        method: "POST",
-        body: form,
-      });
-
-      if (!resp.ok) {
-        const text = await resp.text();
-        throw new Error(text || `Verification failed (${resp.status})`);
-      }
-      const data = await resp.json();
+      // Try backend verification
+      const data = await verifyDocument(file, hash);
       const raw = String(data?.status || data?.result || "").toUpperCase();
 
       // Robust status mapping
@@ -160,6 +172,30 @@ export default function VerifyCertificatePage() {
         mapped = "TAMPERED";
       }
 
+      // A matching document can still have been revoked; only the issuer's signed
+      // status changes count, so check them against the token on-chain
+      const record = data?.credential
+        ? normalizeCredential(data.credential)
+        : null;
+      if (
+        mapped === "VERIFIED" &&
+        record?.ok &&
+        record.value.revocations?.length
+      ) {
+        const facts = await readChainFacts(record.value);
+        const { state } = checkRevocations(record.value, facts);
+        if (state.status !== "active") {
+          const revoked = state.status === "revoked";
+          const on = new Date(state.at).toLocaleDateString();
+          setStatus(revoked ? "REVOKED" : "SUSPENDED");
+          setMessage(
+            `${revoked ? "Revoked" : "Suspended"} by the issuer on ${on}` +
+              (state.reason ? ` — ${state.reason}` : "")
+          );
+          return;
+        }
+      }
+
       setStatus(mapped);
       setMessage(data?.message || "");
     } catch (e: any) {
@@ -1,9 +1,25 @@
 "use client";
 
 import React, { useEffect, useMemo, useState, useCallback } from "react";
-import axios from "axios";
 import { motion } from "framer-motion";
 import { useParams, useSearchParams } from "next/navigation";
+import {
+  ApiError,
+  getCredentialInfo,
+  getRevocations,
+} from "@/lib/api/client";
+import { normalizeList, normalizeRevocation } from "@/lib/api/schemas";
+import {
+  type ChainFacts,
+  type CredentialClaim,
+  type VerificationStatus,
+  evaluateCredential,
+  readChainFacts,
+} from "@/lib/chain/verify";
+import { readCredentialMetadata } from "@/lib/domain/metadata";
+import { GatewayError, type ResolutionMethod } from "@/lib/ipfs/gateways";
+import { loadIpfsContent } from "@/lib/ipfs/load";
+import VerificationChecks from "@/components/verification-checks";
 import {
   CheckCircle2,
   XCircle,
@@ -21,14 +37,13 @@ import {
   CalendarDays,
   Wallet,
   ShieldCheck,
+  Ban,
+  PauseCircle,
+  ArrowRightLeft,
+  ShieldQuestion,
+  FileSignature,
 } from "lucide-react";
 
-interface VerificationResult {
-  status: "VERIFIED" | "NOT_FOUND" | "TAMPERED" | null;
-  message?: string;
-  details?: any;
-}
-
 const statusConfig: Record<
   string,
   {
@@ -56,6 +71,14 @@ const statusConfig: Record<
     border: "border-red-500/30",
     subtle: "from-red-500/10 via-red-500/5 to-transparent",
   },
+  UNCONFIRMED: {
+    label: "Issuer not confirmed",
+    icon: ShieldQuestion,
+    color: "text-amber-400",
+    bg: "bg-amber-500/10",
+    border: "border-amber-500/30",
+    subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
+  },
   TAMPERED: {
     label: "Integrity mismatch",
     icon: AlertTriangle,
@@ -64,17 +87,56 @@ const statusConfig: Record<
     border: "border-amber-500/30",
     subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
   },
+  TRANSFERRED: {
+    label: "Transferred credential",
+    icon: ArrowRightLeft,
+    color: "text-amber-400",
+    bg: "bg-amber-500/10",
+    border: "border-amber-500/30",
+    subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
+  },
+  REVOKED: {
+    label: "Revoked by issuer",
+    icon: Ban,
+    color: "text-red-400",
+    bg: "bg-red-500/10",
+    border: "border-red-500/30",
+    subtle: "from-red-500/10 via-red-500/5 to-transparent",
+  },
+  SUSPENDED: {
+    label: "Suspended by issuer",
+    icon: PauseCircle,
+    color: "text-orange-400",
+    bg: "bg-orange-500/10",
+    border: "border-orange-500/30",
+    subtle: "from-orange-500/10 via-orange-500/5 to-transparent",
+  },
 };
 
-const defaultResultText: Record<"VERIFIED" | "NOT_FOUND" | "TAMPERED", string> =
-  {
-    VERIFIED:
-      "No forgery detected. The document matches our registered record.",
-    NOT_FOUND:
-      "We couldn’t match this document in our records. It may be unregistered or a possible forgery.",
-    TAMPERED:
-      "The document’s integrity check failed. Content appears altered from the registered record.",
-  };
+const defaultResultText: Record<VerificationStatus, string> = {
+  VERIFIED:
+    "No forgery detected. The document matches the token recorded on the blockchain.",
+  UNCONFIRMED:
+    "The token exists, but the wallet that minted it couldn’t be confirmed as a verified institution, so this credential can’t be fully verified.",
+  NOT_FOUND:
+    "We couldn’t find a matching token on the blockchain. It may be unregistered or a possible forgery.",
+  TAMPERED:
+    "The document’s integrity check failed. It doesn’t match what the blockchain records for this credential.",
+  TRANSFERRED:
+    "This credential was moved away from the wallet it was issued to. Credentials are non-transferable, so the current holder is not the recipient.",
+  REVOKED:
+    "This credential was genuinely issued, but the issuing institution has revoked it.",
+  SUSPENDED:
+    "This credential was genuinely issued, but the issuing institution has suspended it.",
+};
+
+const RESOLUTION_LABELS: Record<ResolutionMethod, string> = {
+  ipfs: "IPFS",
+  ipns: "IPNS",
+  dnslink: "DNSLink",
+  arweave: "Arweave",
+  url: "URL",
+};
 
 export default function VerifyByUuidPage() {
   const params = useParams();
@@ -83,7 +145,9 @@ export default function VerifyByUuidPage() {
   const token = search?.get("token") || "";
 
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<VerificationResult>({ status: null });
+  // What the backend says the credential is; every claim in it is checked on-chain
+  const [claim, setClaim] = useState<CredentialClaim | null>(null);
+  const [chainFacts, setChainFacts] = useState<ChainFacts | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // IPFS state
@@ -91,23 +155,17 @@ export default function VerifyByUuidPage() {
   const [ipfsLoading, setIpfsLoading] = useState(false);
   const [ipfsError, setIpfsError] = useState<string | null>(null);
   const [ipfsResolvedUrl, setIpfsResolvedUrl] = useState<string | null>(null);
+  // Whether the proxy checked the content against its CID
+  const [ipfsVerified, setIpfsVerified] = useState(false);
+  const [ipfsMethod, setIpfsMethod] = useState<ResolutionMethod | null>(null);
   const [copied, setCopied] = useState<
     null | "link" | "issuer" | "recipient" | "credid"
   >(null);
   const [ipfsFallbackUrls, setIpfsFallbackUrls] = useState<string[]>([]);
 
   // helpers
-  const getAttr = useCallback(
-    (key: string): string | null => {
-      const attrs = (ipfsData as any)?.attributes;
-      if (Array.isArray(attrs)) {
-        const found = attrs.find(
-          (a: any) => (a?.trait_type || a?.traitType) === key
-        );
-        return (found?.value ?? null) as any;
-      }
-      return null;
-    },
+  const details = useMemo(
+    () => readCredentialMetadata(ipfsData),
     [ipfsData]
   );
 
@@ -119,89 +177,27 @@ export default function VerifyByUuidPage() {
     setIpfsError(null);
     setIpfsData(null);
     setIpfsResolvedUrl(null);
+    setIpfsVerified(false);
+    setIpfsMethod(null);
 
-    const normalize = (val: any) => {
-      let link = typeof val === "string" ? val : val == null ? "" : String(val);
-      link = link.trim();
-      if (!link) return "";
-      // ar:// support
-      if (/^ar:\/\//i.test(link))
-        return link.replace(/^ar:\/\//i, "https://arweave.net/");
-      // if already http(s)
-      if (/^https?:\/\//i.test(link)) return link;
-      // strip common IPFS prefixes
-      link = link.replace(/^ipfs:\/\//i, "");
-      link = link.replace(/^\/?ipfs\//i, "");
-      link = link.replace(/^ipfs\//i, "");
-      return link;
-    };
-
-    const normalized = normalize(rawIpfs);
-    if (!normalized) {
-      setIpfsLoading(false);
-      return;
-    }
-
-    // Try server proxy first to bypass CORS
     try {
-      const proxyUrl = `/api/ipfs?src=${encodeURIComponent(normalized)}`;
-      const pr = await fetch(proxyUrl, { cache: "no-store" });
-      if (pr.ok) {
-        const payload = await pr.json();
-        if (payload?.ok) {
-          setIpfsData(payload.data);
-          setIpfsResolvedUrl(payload.resolvedUrl || null);
-          setIpfsError(null);
-          setIpfsLoading(false);
-          return;
-        }
-      }
-    } catch {}
-
-    // Fallback to public gateways (path form)
-    const tryUrls: string[] = [];
-    if (/^https?:\/\//i.test(normalized)) {
-      tryUrls.push(normalized);
-    } else {
-      const parts = normalized.split("/").filter(Boolean);
-      const cid = parts.shift() || "";
-      const path = parts.length ? `/${parts.join("/")}` : "";
-      const gateways = [
-        (h: string, p: string) => `https://cloudflare-ipfs.com/ipfs/${h}${p}`,
-        (h: string, p: string) => `https://ipfs.io/ipfs/${h}${p}`,
-        (h: string, p: string) => `https://nftstorage.link/ipfs/${h}${p}`,
-        (h: string, p: string) => `https://dweb.link/ipfs/${h}${p}`,
-        (h: string, p: string) => `https://gateway.pinata.cloud/ipfs/${h}${p}`,
-      ];
-      for (const g of gateways) tryUrls.push(g(cid, path));
-    }
-
-    setIpfsFallbackUrls(tryUrls);
-
-    let success = false;
-    for (const url of tryUrls) {
-      try {
-        const r = await fetch(url, { mode: "cors" });
-        if (!r.ok) continue;
-        const ct = r.headers.get("content-type") || "";
-        if (ct.includes("application/json") || ct.includes("text/json")) {
-          const json = await r.json();
-          setIpfsData(json);
-        } else {
-          const text = await r.text();
-          try {
-            setIpfsData(JSON.parse(text));
-          } catch {
-            setIpfsData({ content: text });
-          }
-        }
-        setIpfsResolvedUrl(url);
-        success = true;
-        break;
-      } catch {}
+      const loaded = await loadIpfsContent(rawIpfs);
+      setIpfsData(loaded.data);
+      setIpfsResolvedUrl(loaded.resolvedUrl || null);
+      setIpfsVerified(loaded.verified);
+      setIpfsMethod(loaded.method ?? null);
+    } catch (e) {
+      // Gateways served something else under this CID, or none answered
+      const rejected = e instanceof GatewayError && e.rejected.length > 0;
+      setIpfsFallbackUrls(
+        e instanceof GatewayError && !rejected ? e.candidates : []
+      );
+      setIpfsError(
+        rejected
+          ? "IPFS gateways returned content that does not match the credential's CID."
+          : "Unable to load IPFS content from public gateways."
+      );
     }
-    if (!success)
-      setIpfsError("Unable to load IPFS content from public gateways.");
     setIpfsLoading(false);
   }, []);
 
@@ -210,27 +206,26 @@ export default function VerifyByUuidPage() {
     (async () => {
       setLoading(true);
       setError(null);
-      setResult({ status: null });
+      setClaim(null);
+      setChainFacts(null);
       try {
-        const url = `http://localhost:8080/api/v1/credential-info/${encodeURIComponent(
-          uuid
-        )}?token=${encodeURIComponent(token)}`;
-        const res = await axios.get(url);
-        const data = res.data || {};
-
-        let status: VerificationResult["status"] = null;
-        const rawStatus = (data.status || data.result || "")
-          .toString()
-          .toUpperCase();
-        if (["VERIFIED", "VALID", "SUCCESS"].includes(rawStatus))
-          status = "VERIFIED";
-        else if (["NOT_FOUND", "MISSING", "NO_MATCH"].includes(rawStatus))
-          status = "NOT_FOUND";
-        else if (["TAMPERED", "INVALID", "MANIPULATED"].includes(rawStatus))
-          status = "TAMPERED";
-        else status = "VERIFIED"; // treat data presence as verified
-
-        setResult({ status, message: data.message, details: data });
+        const data = (await getCredentialInfo(uuid, token)) || {};
+        const raw = (data as any)?.credential ?? data;
+        // Status changes arrive with the record, or from the public list if the backend doesn't embed them
+        const rawRevocations = Array.isArray(raw?.revocations)
+          ? raw.revocations
+          : raw?.id
+          ? await getRevocations(String(raw.id)).catch(() => [])
+          : [];
+        const record: CredentialClaim = {
+          ...raw,
+          revocations: normalizeList(
+            "revocations",
+            rawRevocations,
+            normalizeRevocation
+          ).items,
+        };
+        setClaim(record);
 
         const ipfs =
           data?.ipfs_link ||
@@ -251,21 +246,42 @@ export default function VerifyByUuidPage() {
           extractIpfsLink(data);
         const ipfsStr =
           typeof ipfsCandidate === "string" ? ipfsCandidate.trim() : "";
-        if (ipfsStr) fetchIpfs(ipfsStr);
+
+        // Metadata comes from the tokenURI the contract holds, not the backend's link,
+        // unless the chain couldn't be read at all
+        const facts = await readChainFacts({
+          ...record,
+          ipfs_link: record.ipfs_link || ipfsStr || undefined,
+        });
+        setChainFacts(facts);
+        const metadataUri = facts.tokenURI || (facts.unreachable ? ipfsStr : "");
+        if (metadataUri) fetchIpfs(metadataUri);
       } catch (e: any) {
-        const st = e?.response?.status;
+        const st = e instanceof ApiError ? e.status : undefined;
         if (st === 401 || st === 403)
           setError("This verification link is invalid or has expired.");
-        else
-          setError(
-            e?.response?.data?.message || e.message || "Verification failed"
-          );
+        else setError(e?.message || "Verification failed");
       } finally {
         setLoading(false);
       }
     })();
   }, [uuid, token, fetchIpfs]);
 
+  const verification = useMemo(
+    () =>
+      claim
+        ? evaluateCredential({
+            claim,
+            facts: chainFacts,
+            metadata: ipfsData,
+            metadataError: ipfsError,
+            metadataVerified: ipfsVerified,
+          })
+        : null,
+    [claim, chainFacts, ipfsData, ipfsError, ipfsVerified]
+  );
+  const status = verification?.status ?? null;
+
   const formatDate = (d?: string) => {
     if (!d) return "—";
     const dt = new Date(d);
@@ -362,6 +378,58 @@ export default function VerifyByUuidPage() {
           </div>
         )}
 
+        {status && !loading && !error && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`mt-4 relative overflow-hidden rounded-xl border ${statusConfig[status].border} ${statusConfig[status].bg} p-5`}
+          >
+            <div
+              className={`absolute inset-0 bg-gradient-to-br ${statusConfig[status].subtle} pointer-events-none`}
+            />
+            <div className="relative flex items-start gap-4">
+              <div className="mt-1">
+                {React.createElement(statusConfig[status].icon, {
+                  className: `h-6 w-6 ${statusConfig[status].color}`,
+                })}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3
+                  className={`font-semibold text-lg ${statusConfig[status].color}`}
+                >
+                  {statusConfig[status].label}
+                </h3>
+                <p className="mt-1 text-sm text-gray-300 leading-relaxed break-words">
+                  {defaultResultText[status]}
+                </p>
+                {verification?.revocation &&
+                  verification.revocation.status !== "active" && (
+                    <p className="mt-2 text-sm text-gray-200">
+                      {status === "REVOKED" ? "Revoked" : "Suspended"} on{" "}
+                      {new Date(
+                        verification.revocation.at
+                      ).toLocaleDateString()}
+                      {verification.revocation.reason
+                        ? ` — ${verification.revocation.reason}`
+                        : ""}
+                    </p>
+                  )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {chainFacts?.unreachable && !loading && (
+          <div className="mt-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-300">
+            The blockchain could not be reached, so this credential has not
+            been verified. Try again later.
+          </div>
+        )}
+
+        {verification && !loading && !error && (
+          <VerificationChecks checks={verification.checks} />
+        )}
+
         {/* IPFS full details */}
         {ipfsLoading && (
           <div className="mt-6 text-sm text-gray-400">
@@ -406,6 +474,40 @@ export default function VerifyByUuidPage() {
                 )}
               </div>
               <div className="flex items-center gap-2">
+                {ipfsVerified ? (
+                  <span
+                    className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-green-700/50 text-green-300"
+                    title={
+                      ipfsMethod === "arweave"
+                        ? "The content matches the Arweave transaction's data root"
+                        : "The content hashes to the CID the token URI names"
+                    }
+                  >
+                    <ShieldCheck className="h-3.5 w-3.5" />{" "}
+                    {ipfsMethod === "arweave"
+                      ? "Data root verified"
+                      : "CID verified"}
+                  </span>
+                ) : (
+                  <span
+                    className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-amber-700/50 text-amber-300"
+                    title={
+                      ipfsMethod === "ipns"
+                        ? "The gateway resolved the IPNS name; the result was not checked"
+                        : "Loaded without checking the content against a CID"
+                    }
+                  >
+                    Unverified source
+                  </span>
+                )}
+                {ipfsMethod && ipfsMethod !== "ipfs" && (
+                  <span
+                    className="inline-flex items-center text-xs px-2 py-1 rounded-md border border-gray-700 text-gray-300"
+                    title="How the token URI was resolved"
+                  >
+                    via {RESOLUTION_LABELS[ipfsMethod]}
+                  </span>
+                )}
                 {ipfsResolvedUrl && (
                   <a
                     href={ipfsResolvedUrl}
@@ -448,7 +550,7 @@ export default function VerifyByUuidPage() {
                     Issuing Institution
                   </div>
                   <div className="text-white">
-                    {getAttr("Issuing Institution") ||
+                    {details?.issuer.name ||
                       ipfsData?.institution ||
                       ipfsData?.universityName ||
                       "—"}
@@ -460,7 +562,7 @@ export default function VerifyByUuidPage() {
                 <div>
                   <div className="text-xs text-gray-400">Recipient</div>
                   <div className="text-white">
-                    {getAttr("Recipient Name") ||
+                    {details?.recipient.name ||
                       ipfsData?.recipient ||
                       ipfsData?.studentName ||
                       "—"}
@@ -472,7 +574,7 @@ export default function VerifyByUuidPage() {
                 <div>
                   <div className="text-xs text-gray-400">Major</div>
                   <div className="text-white">
-                    {getAttr("Major") || ipfsData?.major || "—"}
+                    {details?.major || ipfsData?.major || "—"}
                   </div>
                 </div>
               </div>
@@ -481,7 +583,7 @@ export default function VerifyByUuidPage() {
                 <div>
                   <div className="text-xs text-gray-400">GPA</div>
                   <div className="text-white">
-                    {getAttr("GPA") ||
+                    {details?.gpa ||
                       (ipfsData as any)?.gpa ||
                       (ipfsData as any)?.score ||
                       "—"}
@@ -493,7 +595,7 @@ export default function VerifyByUuidPage() {
                 <div>
                   <div className="text-xs text-gray-400">Credential Type</div>
                   <div className="text-white">
-                    {getAttr("Credential Type") ||
+                    {details?.credentialType ||
                       ipfsData?.type ||
                       ipfsData?.degree_type ||
                       "—"}
@@ -506,7 +608,7 @@ export default function VerifyByUuidPage() {
                   <div className="text-xs text-gray-400">Issue Date</div>
                   <div className="text-white">
                     {formatDate(
-                      getAttr("Issue Date") ||
+                      details?.issueDate ||
                         (ipfsData as any)?.issued_date ||
                         (ipfsData as any)?.issue_date
                     )}
@@ -519,7 +621,7 @@ export default function VerifyByUuidPage() {
                   <div className="text-xs text-gray-400">Graduation Date</div>
                   <div className="text-white">
                     {formatDate(
-                      getAttr("Graduation Date") ||
+                      details?.graduationDate ||
                         (ipfsData as any)?.graduation_date
                     )}
                   </div>
@@ -530,14 +632,14 @@ export default function VerifyByUuidPage() {
                 <div className="flex-1 min-w-0">
                   <div className="text-xs text-gray-400">Issuer Wallet</div>
                   <div className="text-white break-all text-xs flex items-center gap-2">
-                    {getAttr("Issuer Wallet") ||
+                    {details?.issuer.wallet ||
                       (ipfsData as any)?.issuer_wallet ||
                       (ipfsData as any)?.university_wallet ||
                       "—"}
-                    {getAttr("Issuer Wallet") && (
+                    {details?.issuer.wallet && (
                       <button
                         onClick={async () => {
-                          const v = getAttr("Issuer Wallet");
+                          const v = details?.issuer.wallet;
                           if (!v) return;
                           try {
                             await navigator.clipboard.writeText(v);
@@ -563,14 +665,14 @@ export default function VerifyByUuidPage() {
                 <div className="flex-1 min-w-0">
                   <div className="text-xs text-gray-400">Recipient Wallet</div>
                   <div className="text-white break-all text-xs flex items-center gap-2">
-                    {getAttr("Recipient Wallet") ||
+                    {details?.recipient.wallet ||
                       (ipfsData as any)?.recipient_wallet ||
                       (ipfsData as any)?.student_wallet ||
                       "—"}
-                    {getAttr("Recipient Wallet") && (
+                    {details?.recipient.wallet && (
                       <button
                         onClick={async () => {
-                          const v = getAttr("Recipient Wallet");
+                          const v = details?.recipient.wallet;
                           if (!v) return;
                           try {
                             await navigator.clipboard.writeText(v);
@@ -596,7 +698,7 @@ export default function VerifyByUuidPage() {
                 <div>
                   <div className="text-xs text-gray-400">Credential ID</div>
                   <div className="text-white break-all text-xs">
-                    {getAttr("Credential ID") ||
+                    {details?.credentialId ||
                       (ipfsData as any)?.credentialId ||
                       (ipfsData as any)?.id ||
                       "—"}
@@ -610,13 +712,38 @@ export default function VerifyByUuidPage() {
                     Accreditation Body
                   </div>
                   <div className="text-white">
-                    {getAttr("Accreditation Body") ||
+                    {details?.accreditationBody ||
                       (ipfsData as any)?.accreditationBody ||
                       (ipfsData as any)?.accreditation?.name ||
                       "—"}
                   </div>
                 </div>
               </div>
+              <div className="rounded-xl border border-white/10 bg-gray-900/40 p-4 flex items-start gap-3 sm:col-span-2">
+                <FileSignature className="h-4 w-4 text-purple-300 mt-0.5" />
+                <div className="min-w-0">
+                  <div className="text-xs text-gray-400">Issuer Signature</div>
+                  {verification?.signature?.status === "valid" ? (
+                    <div className="text-white break-all text-xs">
+                      {verification.signature.signer}
+                      {verification.signature.created && (
+                        <span className="text-gray-400">
+                          {" "}
+                          · signed {formatDate(verification.signature.created)}
+                        </span>
+                      )}
+                    </div>
+                  ) : verification?.signature?.status === "invalid" ? (
+                    <div className="text-red-300 text-xs">
+                      {verification.signature.reason}
+                    </div>
+                  ) : (
+                    <div className="text-gray-300 text-xs">
+                      {verification?.signature ? "Not signed" : "—"}
+                    </div>
+                  )}
+                </div>
+              </div>
             </div>
           </div>
         )}
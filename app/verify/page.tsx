@@ -1,17 +1,35 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import axios from "axios";
+import React, { useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
-import { CheckCircle2, XCircle, AlertTriangle, Loader2 } from "lucide-react";
+import {
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  Loader2,
+  Ban,
+  PauseCircle,
+  ArrowRightLeft,
+  ShieldQuestion,
+} from "lucide-react";
 import { useParams, useSearchParams } from "next/navigation";
-
-interface VerificationResult {
-  status: "VERIFIED" | "NOT_FOUND" | "TAMPERED" | null;
-  message?: string;
-  details?: any;
-}
+import {
+  ApiError,
+  getCredentialInfo,
+  getRevocations,
+} from "@/lib/api/client";
+import { normalizeList, normalizeRevocation } from "@/lib/api/schemas";
+import {
+  type ChainFacts,
+  type CredentialClaim,
+  type VerificationStatus,
+  evaluateCredential,
+  readChainFacts,
+} from "@/lib/chain/verify";
+import { GatewayError } from "@/lib/ipfs/gateways";
+import { loadIpfsContent } from "@/lib/ipfs/load";
+import VerificationChecks from "@/components/verification-checks";
 
 const statusConfig: Record<
   string,
@@ -40,6 +58,14 @@ const statusConfig: Record<
     border: "border-red-500/30",
     subtle: "from-red-500/10 via-red-500/5 to-transparent",
   },
+  UNCONFIRMED: {
+    label: "Issuer not confirmed",
+    icon: ShieldQuestion,
+    color: "text-amber-400",
+    bg: "bg-amber-500/10",
+    border: "border-amber-500/30",
+    subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
+  },
   TAMPERED: {
     label: "Integrity mismatch",
     icon: AlertTriangle,
@@ -48,17 +74,48 @@ const statusConfig: Record<
     border: "border-amber-500/30",
     subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
   },
+  TRANSFERRED: {
+    label: "Transferred credential",
+    icon: ArrowRightLeft,
+    color: "text-amber-400",
+    bg: "bg-amber-500/10",
+    border: "border-amber-500/30",
+    subtle: "from-amber-500/10 via-amber-500/5 to-transparent",
+  },
+  REVOKED: {
+    label: "Revoked by issuer",
+    icon: Ban,
+    color: "text-red-400",
+    bg: "bg-red-500/10",
+    border: "border-red-500/30",
+    subtle: "from-red-500/10 via-red-500/5 to-transparent",
+  },
+  SUSPENDED: {
+    label: "Suspended by issuer",
+    icon: PauseCircle,
+    color: "text-orange-400",
+    bg: "bg-orange-500/10",
+    border: "border-orange-500/30",
+    subtle: "from-orange-500/10 via-orange-500/5 to-transparent",
+  },
 };
 
-const defaultResultText: Record<"VERIFIED" | "NOT_FOUND" | "TAMPERED", string> =
-  {
-    VERIFIED:
-      "No forgery detected. The document matches our registered record.",
-    NOT_FOUND:
-      "We couldn’t match this document in our records. It may be unregistered or a possible forgery.",
-    TAMPERED:
-      "The document’s integrity check failed. Content appears altered from the registered record.",
-  };
+const defaultResultText: Record<VerificationStatus, string> = {
+  VERIFIED:
+    "No forgery detected. The document matches the token recorded on the blockchain.",
+  UNCONFIRMED:
+    "The token exists, but the wallet that minted it couldn’t be confirmed as a verified institution, so this credential can’t be fully verified.",
+  NOT_FOUND:
+    "We couldn’t find a matching token on the blockchain. It may be unregistered or a possible forgery.",
+  TAMPERED:
+    "The document’s integrity check failed. It doesn’t match what the blockchain records for this credential.",
+  TRANSFERRED:
+    "This credential was moved away from the wallet it was issued to. Credentials are non-transferable, so the current holder is not the recipient.",
+  REVOKED:
+    "This credential was genuinely issued, but the issuing institution has revoked it.",
+  SUSPENDED:
+    "This credential was genuinely issued, but the issuing institution has suspended it.",
+};
 
 export default function VerifierPortalPage() {
   const params = useParams();
@@ -67,45 +124,64 @@ export default function VerifierPortalPage() {
   const token = search?.get("token") || "";
 
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<VerificationResult>({ status: null });
+  const [claim, setClaim] = useState<CredentialClaim | null>(null);
+  const [chainFacts, setChainFacts] = useState<ChainFacts | null>(null);
+  const [metadata, setMetadata] = useState<any>(null);
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+  const [metadataVerified, setMetadataVerified] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // If UUID and token exist, auto-fetch credential info
+  // If UUID and token exist, fetch the backend record and check it against the contract
   useEffect(() => {
     if (!uuid || !token) return;
     (async () => {
       setLoading(true);
       setError(null);
-      setResult({ status: null });
+      setClaim(null);
+      setChainFacts(null);
+      setMetadata(null);
+      setMetadataError(null);
+      setMetadataVerified(false);
       try {
-        const url = `http://localhost:8080/api/v1/credential-info/${encodeURIComponent(
-          uuid
-        )}?token=${encodeURIComponent(token)}`;
-        const res = await axios.get(url);
-        const data = res.data || {};
-
-        // If successful, map server result to our statuses
-        let status: VerificationResult["status"] = null;
-        const rawStatus = (data.status || data.result || "")
-          .toString()
-          .toUpperCase();
-        if (["VERIFIED", "VALID", "SUCCESS"].includes(rawStatus))
-          status = "VERIFIED";
-        else if (["NOT_FOUND", "MISSING", "NO_MATCH"].includes(rawStatus))
-          status = "NOT_FOUND";
-        else if (["TAMPERED", "INVALID", "MANIPULATED"].includes(rawStatus))
-          status = "TAMPERED";
-        else status = "VERIFIED"; // if API returns data, treat as verified by default
+        const data = (await getCredentialInfo(uuid, token)) || {};
+        const raw = (data as any)?.credential ?? data;
+        // Status changes arrive with the record, or from the public list if the backend doesn't embed them
+        const rawRevocations = Array.isArray(raw?.revocations)
+          ? raw.revocations
+          : raw?.id
+          ? await getRevocations(String(raw.id)).catch(() => [])
+          : [];
+        const record: CredentialClaim = {
+          ...raw,
+          revocations: normalizeList(
+            "revocations",
+            rawRevocations,
+            normalizeRevocation
+          ).items,
+        };
+        setClaim(record);
 
-        setResult({ status, message: data.message, details: data });
+        const facts = await readChainFacts(record);
+        setChainFacts(facts);
+        if (facts.tokenURI) {
+          try {
+            const loaded = await loadIpfsContent(facts.tokenURI);
+            setMetadata(loaded.data);
+            setMetadataVerified(loaded.verified);
+          } catch (e) {
+            setMetadataError(
+              e instanceof GatewayError && e.rejected.length > 0
+                ? "The token metadata served by IPFS gateways does not match its CID."
+                : "Unable to load the token metadata."
+            );
+          }
+        }
       } catch (e: any) {
-        const status = e?.response?.status;
+        const status = e instanceof ApiError ? e.status : undefined;
         if (status === 401 || status === 403) {
           setError("This verification link is invalid or has expired.");
         } else {
-          setError(
-            e?.response?.data?.message || e.message || "Verification failed"
-          );
+          setError(e?.message || "Verification failed");
         }
       } finally {
         setLoading(false);
@@ -113,6 +189,21 @@ export default function VerifierPortalPage() {
     })();
   }, [uuid, token]);
 
+  const verification = useMemo(
+    () =>
+      claim
+        ? evaluateCredential({
+            claim,
+            facts: chainFacts,
+            metadata,
+            metadataError,
+            metadataVerified,
+          })
+        : null,
+    [claim, chainFacts, metadata, metadataError, metadataVerified]
+  );
+  const status = verification?.status ?? null;
+
   return (
     <div className="min-h-[calc(100vh-64px)] bg-black py-12 px-4 md:px-6 lg:px-8 flex flex-col items-center">
       <div className="max-w-3xl w-full mx-auto">
@@ -145,44 +236,69 @@ export default function VerifierPortalPage() {
           </div>
         )}
 
-        {result.status && !loading && !error && (
+        {status && !loading && !error && (
           <motion.div
             initial={{ opacity: 0, y: 8 }}
             animate={{ opacity: 1, y: 0 }}
             className={`mt-4 relative overflow-hidden rounded-xl border ${
-              statusConfig[result.status].border
-            } ${statusConfig[result.status].bg} p-5`}
+              statusConfig[status].border
+            } ${statusConfig[status].bg} p-5`}
           >
             <div
               className={`absolute inset-0 bg-gradient-to-br ${
-                statusConfig[result.status].subtle
+                statusConfig[status].subtle
               } pointer-events-none`}
             />
             <div className="relative flex items-start gap-4">
               <div className="mt-1">
-                {React.createElement(statusConfig[result.status].icon, {
-                  className: `h-6 w-6 ${statusConfig[result.status].color}`,
+                {React.createElement(statusConfig[status].icon, {
+                  className: `h-6 w-6 ${statusConfig[status].color}`,
                 })}
               </div>
               <div className="flex-1 min-w-0">
                 <h3
                   className={`font-semibold text-lg ${
-                    statusConfig[result.status].color
+                    statusConfig[status].color
                   }`}
                 >
-                  {statusConfig[result.status].label}
+                  {statusConfig[status].label}
                 </h3>
                 <p className="mt-1 text-sm text-gray-300 leading-relaxed break-words">
-                  {result.message ??
-                    defaultResultText[
-                      result.status as "VERIFIED" | "NOT_FOUND" | "TAMPERED"
-                    ]}
+                  {defaultResultText[status]}
                 </p>
+                {verification?.revocation &&
+                  verification.revocation.status !== "active" && (
+                    <p className="mt-2 text-sm text-gray-200">
+                      {status === "REVOKED" ? "Revoked" : "Suspended"} on{" "}
+                      {new Date(
+                        verification.revocation.at
+                      ).toLocaleDateString()}
+                      {verification.revocation.reason
+                        ? ` — ${verification.revocation.reason}`
+                        : ""}
+                    </p>
+                  )}
+                {verification?.signature?.status === "valid" && (
+                  <p className="mt-2 text-xs text-gray-400 break-all">
+                    Signed by {verification.signature.signer}
+                  </p>
+                )}
               </div>
             </div>
           </motion.div>
         )}
 
+        {chainFacts?.unreachable && !loading && (
+          <div className="mt-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-300">
+            The blockchain could not be reached, so this credential has not
+            been verified. Try again later.
+          </div>
+        )}
+
+        {verification && !loading && !error && (
+          <VerificationChecks checks={verification.checks} />
+        )}
+
         {!uuid && (
           <div className="mt-6 text-sm text-gray-400">
             Provide a valid credential link to verify.
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Save, ShieldCheck, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/toast";
+import { saveApprovalPolicy } from "@/lib/api/client";
+import type { ApprovalPolicy } from "@/lib/api/types";
+import { policyIssues, requiresApproval } from "@/lib/chain/approval";
+
+interface ApprovalPolicyCardProps {
+  policy: ApprovalPolicy | null;
+  onSaved: (policy: ApprovalPolicy | null) => void;
+}
+
+type Signer = ApprovalPolicy["signers"][number];
+
+const short = (addr: string) => `${addr.slice(0, 6)}…${addr.slice(-4)}`;
+
+// Who has to sign off before this university's credentials are minted
+export default function ApprovalPolicyCard({
+  policy,
+  onSaved,
+}: ApprovalPolicyCardProps) {
+  const { showToast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [signers, setSigners] = useState<Signer[]>([]);
+  const [threshold, setThreshold] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const enabled = requiresApproval(policy);
+
+  const startEditing = () => {
+    setSigners(
+      policy?.signers.length
+        ? policy.signers
+        : [
+            { wallet: "", role: "Registrar" },
+            { wallet: "", role: "Dean" },
+          ]
+    );
+    setThreshold(policy?.threshold || 2);
+    setEditing(true);
+  };
+
+  const updateSigner = (index: number, changes: Partial<Signer>) => {
+    setSigners((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, ...changes } : s))
+    );
+  };
+
+  const save = async (next: Pick<ApprovalPolicy, "signers" | "threshold">) => {
+    const issues = policyIssues(next);
+    if (issues.length) {
+      showToast({
+        title: "Approval policy not saved",
+        description: issues.join("; "),
+        variant: "error",
+      });
+      return;
+    }
+    try {
+      setSaving(true);
+      const saved = await saveApprovalPolicy(next);
+      onSaved(saved && requiresApproval(saved) ? saved : null);
+      setEditing(false);
+      showToast({
+        title: "Approval policy saved",
+        description: requiresApproval(next)
+          ? `New credentials need ${next.threshold} of ${next.signers.length} approvals.`
+          : "Credentials are minted without approval.",
+        variant: "success",
+      });
+    } catch (e: any) {
+      showToast({
+        title: "Approval policy not saved",
+        description: e?.message || "Could not save the approval policy",
+        variant: "error",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-to-br from-gray-900/90 via-black/80 to-purple-900/20 border border-gray-800/60 backdrop-blur-xl shadow-2xl">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-white flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-purple-400" />
+            Approval Policy
+          </CardTitle>
+          {!editing && (
+            <Button
+              variant="outline"
+              className="border-gray-700 text-gray-300 hover:bg-gray-800"
+              onClick={startEditing}
+            >
+              {enabled ? "Edit" : "Require approval"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!editing ? (
+          enabled && policy ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-300">
+                New credentials need{" "}
+                <span className="text-white font-semibold">
+                  {policy.threshold} of {policy.signers.length}
+                </span>{" "}
+                signed approvals before they can be minted.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {policy.signers.map((s) => (
+                  <Badge
+                    key={s.wallet}
+                    className="bg-purple-900/30 text-purple-200 border-purple-800 font-normal"
+                    title={s.wallet}
+                  >
+                    {s.role} · {short(s.wallet)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">
+              Credentials are minted as soon as an administrator confirms them.
+              Add approvers to require sign-off (e.g. registrar and dean)
+              first.
+            </p>
+          )
+        ) : (
+          <div className="space-y-3">
+            {signers.map((s, i) => (
+              <div key={i} className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={s.role}
+                  placeholder="Role"
+                  onChange={(e) => updateSigner(i, { role: e.target.value })}
+                  className="sm:w-40 bg-gray-800/60 border-gray-700/60 text-white"
+                />
+                <Input
+                  value={s.wallet}
+                  placeholder="0x… approver wallet"
+                  onChange={(e) => updateSigner(i, { wallet: e.target.value })}
+                  className="flex-1 font-mono bg-gray-800/60 border-gray-700/60 text-white"
+                />
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setSigners((prev) => prev.filter((_, j) => j !== i))
+                  }
+                  className="text-gray-400 hover:text-red-300"
+                  title="Remove approver"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              onClick={() =>
+                setSigners((prev) => [...prev, { wallet: "", role: "" }])
+              }
+              className="border-gray-700 text-gray-300 hover:bg-gray-800"
+            >
+              <Plus className="h-4 w-4 mr-2" /> Add approver
+            </Button>
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+              Approvals needed
+              <Input
+                type="number"
+                min={1}
+                max={signers.length || 1}
+                value={threshold}
+                onChange={(e) => setThreshold(Number(e.target.value))}
+                className="w-20 bg-gray-800/60 border-gray-700/60 text-white"
+              />
+              of {signers.length}
+            </div>
+            <p className="text-xs text-gray-500">
+              The policy applies to drafts created after saving; drafts already
+              in the queue keep the approvers they were submitted with.
+            </p>
+            <div className="flex flex-wrap justify-end gap-2">
+              {enabled && (
+                <Button
+                  variant="ghost"
+                  disabled={saving}
+                  onClick={() => save({ signers: [], threshold: 0 })}
+                  className="text-red-300 hover:text-red-200 mr-auto"
+                >
+                  Remove policy
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                disabled={saving}
+                onClick={() => setEditing(false)}
+                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+              >
+                Cancel
+              </Button>
+              <Button
+                disabled={saving}
+                onClick={() =>
+                  save({
+                    signers: signers.map((s) => ({
+                      wallet: s.wallet.trim(),
+                      role: s.role.trim(),
+                    })),
+                    threshold,
+                  })
+                }
+                className="bg-white text-black hover:bg-gray-100"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save policy"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,589 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  RefreshCw,
+  Stamp,
+  XCircle,
+  Zap,
+} from "lucide-react";
+import { useToast } from "@/components/ui/toast";
+import {
+  cancelCredentialDraft,
+  getCredentialDrafts,
+  markDraftMinted,
+  recordMintedCredential,
+  recordTransactionHash,
+  submitApproval,
+} from "@/lib/api/client";
+import type {
+  ApprovalDecision,
+  CredentialDraft,
+  DraftStatus,
+  MintedRecordPayload,
+} from "@/lib/api/types";
+import { approvalState, signApproval } from "@/lib/chain/approval";
+import { signCredentialMetadata } from "@/lib/chain/issuer-signature";
+import { txExplorerUrl } from "@/lib/chain/profiles";
+import { mintedTokenId } from "@/lib/chain/verify";
+import { uploadCredentialMetadata } from "@/lib/ipfs/upload";
+import {
+  WrongNetworkError,
+  getCredentialContract,
+  isUserRejection,
+} from "@/lib/chain/wallet";
+import {
+  type CredentialMetadata,
+  metadataIssues,
+} from "@/lib/domain/metadata";
+import type { University } from "@/lib/domain/types";
+
+interface ApprovalQueueProps {
+  university: University;
+  // Bumped by the page when a new draft is submitted, to reload the queue
+  refreshKey?: number;
+  onMinted?: (draft: CredentialDraft) => void;
+  onCountChange?: (awaiting: number) => void;
+}
+
+const STATUS_BADGE: Record<DraftStatus, { label: string; className: string }> =
+  {
+    awaiting_approval: {
+      label: "Awaiting approval",
+      className: "bg-yellow-900/30 text-yellow-300 border-yellow-800",
+    },
+    approved: {
+      label: "Ready to mint",
+      className: "bg-green-900/30 text-green-300 border-green-800",
+    },
+    rejected: {
+      label: "Rejected",
+      className: "bg-red-900/40 text-red-200 border-red-800",
+    },
+    cancelled: {
+      label: "Cancelled",
+      className: "bg-gray-800/60 text-gray-300 border-gray-700",
+    },
+    minted: {
+      label: "Minted",
+      className: "bg-purple-900/40 text-purple-200 border-purple-800",
+    },
+  };
+
+const OPEN: DraftStatus[] = ["awaiting_approval", "approved"];
+
+// Mints sent for a draft that the backend hasn't recorded yet, by draft id. Kept in
+// localStorage from the moment the transaction is sent, so a failed backend call (or a
+// reload) can't lead to a second soulbound token for the same draft.
+type SentMint = { token_uri: string; tx_hash: string; token_id?: string };
+
+const SENT_MINTS_KEY = "vericred_sent_draft_mints";
+
+function loadSentMints(): Record<string, SentMint> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(SENT_MINTS_KEY) || "{}") ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function storeSentMints(mints: Record<string, SentMint>) {
+  try {
+    localStorage.setItem(SENT_MINTS_KEY, JSON.stringify(mints));
+  } catch {}
+}
+
+const short = (addr?: string) =>
+  addr ? `${addr.slice(0, 6)}…${addr.slice(-4)}` : "—";
+
+const errorText = (err: any, fallback: string) =>
+  err instanceof WrongNetworkError
+    ? err.message
+    : isUserRejection(err)
+    ? "Signature request was rejected in the wallet."
+    : err?.shortMessage || err?.message || fallback;
+
+// Drafts waiting for their approval quorum. Designated approvers sign their
+// decision from here; the issuing university mints once quorum is met.
+export default function ApprovalQueue({
+  university,
+  refreshKey,
+  onMinted,
+  onCountChange,
+}: ApprovalQueueProps) {
+  const { showToast } = useToast();
+  const [drafts, setDrafts] = useState<CredentialDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [auditOpen, setAuditOpen] = useState<string | null>(null);
+  const [sentMints, setSentMints] = useState<Record<string, SentMint>>({});
+
+  useEffect(() => {
+    setSentMints(loadSentMints());
+  }, []);
+
+  const rememberMint = (draftId: string, mint: SentMint | null) =>
+    setSentMints((prev) => {
+      const next = { ...prev };
+      if (mint) next[draftId] = mint;
+      else delete next[draftId];
+      storeSentMints(next);
+      return next;
+    });
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDrafts(await getCredentialDrafts());
+    } catch (e: any) {
+      setError(e?.message || "Could not load the approval queue");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts, refreshKey]);
+
+  const awaiting = drafts.filter((d) => OPEN.includes(d.status)).length;
+  useEffect(() => {
+    onCountChange?.(awaiting);
+  }, [awaiting, onCountChange]);
+
+  const visible = useMemo(
+    () => (showClosed ? drafts : drafts.filter((d) => OPEN.includes(d.status))),
+    [drafts, showClosed]
+  );
+
+  const replace = (draft: CredentialDraft) =>
+    setDrafts((prev) => prev.map((d) => (d.id === draft.id ? draft : d)));
+
+  // Once the backend shows a draft as minted, its local copy has done its job
+  useEffect(() => {
+    const recorded = drafts.filter(
+      (d) => d.status === "minted" && sentMints[d.id]
+    );
+    for (const d of recorded) rememberMint(d.id, null);
+  }, [drafts, sentMints]);
+
+  // Marks the draft minted on the backend; on failure the mint stays remembered
+  // locally and can be recorded again from the queue
+  const record = async (draft: CredentialDraft, minted: SentMint) => {
+    try {
+      const updated = await markDraftMinted(draft.id, minted);
+      rememberMint(draft.id, null);
+      replace(updated);
+      onMinted?.(updated);
+      return true;
+    } catch (e: any) {
+      console.error("Recording minted draft failed", e);
+      showToast({
+        title: "Minted on-chain but not recorded",
+        description: `The credential was minted in ${short(
+          minted.tx_hash
+        )}, but the approval queue couldn't be updated (${errorText(
+          e,
+          "request failed"
+        )}). Use "Record mint" to try again; do not mint it again.`,
+        variant: "error",
+      });
+      return false;
+    }
+  };
+
+  const retryRecord = async (draft: CredentialDraft) => {
+    const minted = sentMints[draft.id];
+    if (!minted) return;
+    try {
+      setBusy(draft.id);
+      if (await record(draft, minted)) {
+        showToast({ title: "Mint recorded", variant: "success" });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const isIssuer = (draft: CredentialDraft) =>
+    draft.university_wallet.toLowerCase() ===
+    university.walletAddress.toLowerCase();
+
+  const decide = async (
+    draft: CredentialDraft,
+    decision: ApprovalDecision["decision"]
+  ) => {
+    try {
+      setBusy(draft.id);
+      const entry = await signApproval(draft, decision, note);
+      replace(await submitApproval(entry));
+      setRejecting(null);
+      setNote("");
+      showToast({
+        title:
+          decision === "approved" ? "Approval recorded" : "Rejection recorded",
+        description: `${entry.role} · ${draft.metadata?.name ?? draft.id}`,
+        variant: "success",
+      });
+    } catch (e: any) {
+      showToast({
+        title: "Decision not recorded",
+        description: errorText(e, "Could not record the decision"),
+        variant: "error",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const cancel = async (draft: CredentialDraft) => {
+    if (!confirm("Cancel this draft? It can't be minted afterwards.")) return;
+    try {
+      setBusy(draft.id);
+      replace(await cancelCredentialDraft(draft.id, "Cancelled by issuer"));
+    } catch (e: any) {
+      showToast({
+        title: "Draft not cancelled",
+        description: e?.message || "Could not cancel the draft",
+        variant: "error",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Same steps as a direct mint (sign, upload, mintDoc), behind a checked quorum
+  const mint = async (draft: CredentialDraft) => {
+    if (sentMints[draft.id]) return;
+    if (!approvalState(draft).quorum) {
+      showToast({
+        title: "Not approved yet",
+        description: "The draft doesn't have enough valid approvals to mint.",
+        variant: "error",
+      });
+      return;
+    }
+    const metadata = draft.metadata as CredentialMetadata;
+    const problems = metadataIssues(metadata);
+    if (problems.length) {
+      showToast({
+        title: "Credential details are incomplete",
+        description: problems.join("; "),
+        variant: "error",
+      });
+      return;
+    }
+    try {
+      setBusy(draft.id);
+      const signed = await signCredentialMetadata(metadata);
+      const tokenURI = await uploadCredentialMetadata(signed);
+
+      const { chain, contract } = await getCredentialContract();
+      const tx = await contract.mintDoc(draft.student_wallet, tokenURI);
+      rememberMint(draft.id, { token_uri: tokenURI, tx_hash: tx.hash });
+      const receipt = await tx.wait().catch((e: any) => {
+        // Reverted: nothing was minted, so the draft may be minted again
+        if (e?.code === "CALL_EXCEPTION") rememberMint(draft.id, null);
+        throw e;
+      });
+      if (!receipt || receipt.status !== 1) {
+        rememberMint(draft.id, null);
+        throw new Error("Mint transaction reverted");
+      }
+      const tokenId = mintedTokenId(contract, receipt.logs)?.toString();
+      const minted = {
+        token_uri: tokenURI,
+        tx_hash: tx.hash,
+        token_id: tokenId,
+      };
+      rememberMint(draft.id, minted);
+
+      await recordTransactionHash(tx.hash).catch((e) =>
+        console.warn("Failed to persist transaction hash:", e)
+      );
+      const nowIso = new Date().toISOString();
+      const payload: MintedRecordPayload = {
+        id: crypto.randomUUID(),
+        degree_id: 0,
+        student_wallet: draft.student_wallet,
+        university_wallet: draft.university_wallet,
+        degree_name: metadata.name,
+        description: metadata.description,
+        type: metadata.credential.type,
+        major: metadata.credential.major ?? "",
+        issued_date: new Date(metadata.credential.issueDate).toISOString(),
+        graduation_date: metadata.credential.graduationDate ?? "",
+        created_at: nowIso,
+        updated_at: nowIso,
+        ipfs_link: tokenURI,
+        dean_sig: signed.proof?.signature || "",
+        token_id: tokenId,
+        tx_hash: tx.hash,
+      };
+      await recordMintedCredential(payload).catch((e) =>
+        console.warn("Failed to persist minted record to backend:", e)
+      );
+      if (!(await record(draft, minted))) return;
+      showToast({
+        title: "Mint Successful!",
+        description: `${metadata.name} was minted on ${chain.name}.`,
+        variant: "success",
+        linkHref: txExplorerUrl(tx.hash, chain) ?? undefined,
+        linkLabel: "View on Etherscan",
+        durationMs: 6000,
+      });
+    } catch (e: any) {
+      console.error("Minting approved draft failed", e);
+      showToast({
+        title: "Mint failed",
+        description: errorText(e, "Could not mint the credential"),
+        variant: "error",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-to-br from-gray-900/90 via-black/80 to-purple-900/20 border border-gray-800/60 backdrop-blur-xl shadow-2xl">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-white">Awaiting Approval</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              className="text-gray-300"
+              onClick={() => setShowClosed((v) => !v)}
+            >
+              {showClosed ? "Hide closed" : "Show closed"}
+            </Button>
+            <Button
+              variant="outline"
+              className="border-gray-700 text-gray-300 hover:bg-gray-800"
+              onClick={fetchDrafts}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" /> Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && drafts.length === 0 ? (
+          <p className="text-gray-400">Loading approval queue...</p>
+        ) : error ? (
+          <p className="text-sm text-red-300">{error}</p>
+        ) : visible.length === 0 ? (
+          <p className="text-gray-400">No credentials are awaiting approval.</p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((draft) => {
+              const state = approvalState(draft);
+              const open = OPEN.includes(draft.status);
+              const badge = STATUS_BADGE[draft.status];
+              const decisionBy = (wallet: string) =>
+                [...state.approvedBy, ...state.rejectedBy].find(
+                  (d) => d.approver.toLowerCase() === wallet.toLowerCase()
+                );
+              return (
+                <div
+                  key={draft.id}
+                  className="p-4 bg-gray-800/50 rounded-lg border border-gray-700 space-y-3"
+                >
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-white font-medium">
+                        {draft.metadata?.name || "Untitled credential"}
+                      </p>
+                      <p className="text-xs text-gray-400 break-all">
+                        {draft.metadata?.recipient?.name || "Recipient"} ·{" "}
+                        <span className="font-mono">{draft.student_wallet}</span>
+                      </p>
+                      <p className="text-[11px] text-gray-500 mt-1">
+                        {draft.metadata?.credential?.id} · submitted{" "}
+                        {new Date(draft.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <Badge className={`${badge.className} shrink-0`}>
+                      {badge.label}
+                    </Badge>
+                  </div>
+
+                  <div>
+                    <p className="text-xs text-gray-400 mb-2">
+                      {state.approvedBy.length} of {state.threshold} approvals
+                      needed
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {draft.policy.signers.map((s) => {
+                        const d = decisionBy(s.wallet);
+                        return (
+                          <span
+                            key={s.wallet}
+                            title={d?.note || s.wallet}
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-black/30 border border-gray-700 text-xs text-gray-300"
+                          >
+                            {d?.decision === "approved" ? (
+                              <CheckCircle className="h-3.5 w-3.5 text-green-400" />
+                            ) : d?.decision === "rejected" ? (
+                              <XCircle className="h-3.5 w-3.5 text-red-400" />
+                            ) : (
+                              <Clock className="h-3.5 w-3.5 text-yellow-400" />
+                            )}
+                            {s.role} · {short(s.wallet)}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  {rejecting === draft.id && (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Why is this credential being rejected?"
+                        className="bg-gray-900/60 border-gray-700 text-white"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => setRejecting(null)}
+                          className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                        >
+                          Back
+                        </Button>
+                        <Button
+                          disabled={busy === draft.id || !note.trim()}
+                          onClick={() => decide(draft, "rejected")}
+                          className="bg-red-600 text-white hover:bg-red-500"
+                        >
+                          Sign rejection
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      onClick={() =>
+                        setAuditOpen((v) => (v === draft.id ? null : draft.id))
+                      }
+                      className="text-gray-400 mr-auto px-2"
+                    >
+                      Audit trail
+                      {auditOpen === draft.id ? (
+                        <ChevronUp className="h-4 w-4 ml-1" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4 ml-1" />
+                      )}
+                    </Button>
+                    {open && isIssuer(draft) && !sentMints[draft.id] && (
+                      <Button
+                        variant="ghost"
+                        disabled={busy === draft.id}
+                        onClick={() => cancel(draft)}
+                        className="text-gray-400 hover:text-red-300"
+                      >
+                        Cancel draft
+                      </Button>
+                    )}
+                    {draft.status === "awaiting_approval" &&
+                      rejecting !== draft.id && (
+                        <>
+                          <Button
+                            variant="outline"
+                            disabled={busy === draft.id}
+                            onClick={() => {
+                              setRejecting(draft.id);
+                              setNote("");
+                            }}
+                            className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                          >
+                            Reject
+                          </Button>
+                          <Button
+                            disabled={busy === draft.id}
+                            onClick={() => decide(draft, "approved")}
+                            className="bg-white text-black hover:bg-gray-100"
+                          >
+                            <Stamp className="h-4 w-4 mr-2" /> Approve
+                          </Button>
+                        </>
+                      )}
+                    {draft.status === "approved" &&
+                      isIssuer(draft) &&
+                      sentMints[draft.id] && (
+                        <>
+                          <span className="text-xs text-amber-300 self-center">
+                            Sent in{" "}
+                            <span className="font-mono">
+                              {short(sentMints[draft.id].tx_hash)}
+                            </span>
+                            ; not recorded yet
+                          </span>
+                          <Button
+                            disabled={busy === draft.id}
+                            onClick={() => retryRecord(draft)}
+                            className="bg-white text-black hover:bg-gray-100"
+                          >
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                            {busy === draft.id ? "Recording..." : "Record mint"}
+                          </Button>
+                        </>
+                      )}
+                    {draft.status === "approved" &&
+                      isIssuer(draft) &&
+                      !sentMints[draft.id] && (
+                        <Button
+                          disabled={busy === draft.id || !state.quorum}
+                          onClick={() => mint(draft)}
+                          className="bg-white text-black hover:bg-gray-100"
+                        >
+                          <Zap className="h-4 w-4 mr-2" />
+                          {busy === draft.id ? "Minting..." : "Mint NFT"}
+                        </Button>
+                      )}
+                  </div>
+
+                  {auditOpen === draft.id && (
+                    <ol className="border-l border-gray-700 ml-1 pl-4 space-y-2">
+                      {draft.audit.map((event, i) => (
+                        <li key={i} className="text-xs text-gray-400">
+                          <span className="text-gray-200 capitalize">
+                            {event.action}
+                          </span>{" "}
+                          by <span className="font-mono">{short(event.actor)}</span>{" "}
+                          · {new Date(event.at).toLocaleString()}
+                          {event.detail && (
+                            <span className="block text-gray-500 break-all">
+                              {event.detail}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
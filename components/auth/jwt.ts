@@ -26,7 +26,8 @@ export function decodeJwt(token: string | null | undefined): DecodedJwt | null {
 export function isJwtValid(token: string | null | undefined): boolean {
   if (!token) return false
   const decoded = decodeJwt(token)
-  if (!decoded?.exp) return true // if no exp, treat as valid (backend-defined)
+  if (!decoded) return false // not a JWT at all (e.g. legacy opaque tokens)
+  if (!decoded.exp) return true // if no exp, treat as valid (backend-defined)
   const nowSeconds = Math.floor(Date.now() / 1000)
   return decoded.exp > nowSeconds
 }
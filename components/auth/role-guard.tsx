@@ -4,8 +4,9 @@ import type React from "react";
 import { useEffect, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import { getStoredToken, isJwtValid } from "./jwt";
+import { getMe } from "@/lib/api/client";
 
-// RoleGuard enforces access by account_type from /api/v1/auth/me.
+// RoleGuard enforces access by account_type from getMe() (/api/v1/auth/me).
 // - required: "student" | "university"
 // - If no valid token, redirect to "/"
 // - If token valid but wrong role, redirect to their correct area
@@ -32,25 +33,20 @@ export default function RoleGuard({
 
       let at: "student" | "university" | "unknown" = "unknown";
       try {
-        const res = await fetch("http://localhost:8080/api/v1/auth/me", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (res.ok) {
-          const me = await res.json();
-          at = me?.account_type || "unknown";
-          // cache lightweight user
-          try {
-            localStorage.setItem(
-              "vericred_user",
-              JSON.stringify({
-                account_type: at,
-                address: me?.address,
-                has_user_profile: me?.has_user_profile,
-                has_university_profile: me?.has_university_profile,
-              })
-            );
-          } catch {}
-        }
+        const me = await getMe();
+        at = me?.account_type || "unknown";
+        // cache lightweight user
+        try {
+          localStorage.setItem(
+            "vericred_user",
+            JSON.stringify({
+              account_type: at,
+              address: me?.address,
+              has_user_profile: me?.has_user_profile,
+              has_university_profile: me?.has_university_profile,
+            })
+          );
+        } catch {}
       } catch {}
 
       if (at === "unknown") {
@@ -0,0 +1,424 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Layers,
+  Loader2,
+  Play,
+  Pause,
+  RotateCcw,
+  FileDown,
+  Trash2,
+  ExternalLink,
+  Send,
+} from "lucide-react";
+import { useToast } from "@/components/ui/toast";
+import { getStudents } from "@/lib/api/client";
+import type { ApprovalPolicy } from "@/lib/api/types";
+import { normalizeList, normalizeStudent } from "@/lib/api/schemas";
+import type { BulkRow } from "@/lib/batch/csv";
+import {
+  type BatchItemStatus,
+  type BatchJob,
+  batchReport,
+  batchSummary,
+  clearBatchJob,
+  createBatchJob,
+  loadBatchJob,
+  retryFailed,
+  runBatchJob,
+  submitBatchForApproval,
+} from "@/lib/batch/queue";
+import { rollKey } from "@/lib/batch/validate";
+import { policyBlockedReason, requiresApproval } from "@/lib/chain/approval";
+import { txExplorerUrl } from "@/lib/chain/profiles";
+import { isUserRejection } from "@/lib/chain/wallet";
+import type { University } from "@/lib/domain/types";
+
+interface BatchMintProps {
+  university: University;
+  // Rows from the latest bulk upload, if any
+  rows: BulkRow[] | null;
+  // With a policy, rows are filed in the approval queue instead of minted.
+  // undefined while it loads; nothing runs until then
+  approvalPolicy?: ApprovalPolicy | null;
+  approvalPolicyError?: string | null;
+}
+
+const STATUS_STYLES: Record<
+  BatchItemStatus,
+  { label: string; className: string }
+> = {
+  queued: {
+    label: "Queued",
+    className: "bg-gray-800 text-gray-300 border-gray-700",
+  },
+  uploaded: {
+    label: "On IPFS",
+    className: "bg-blue-900/30 text-blue-200 border-blue-800",
+  },
+  minting: {
+    label: "Minting",
+    className: "bg-purple-900/40 text-purple-200 border-purple-800",
+  },
+  minted: {
+    label: "Minted",
+    className: "bg-green-900/30 text-green-300 border-green-800",
+  },
+  submitted: {
+    label: "Awaiting approval",
+    className: "bg-purple-900/30 text-purple-200 border-purple-800",
+  },
+  failed: {
+    label: "Failed",
+    className: "bg-red-900/40 text-red-200 border-red-800",
+  },
+  skipped: {
+    label: "Skipped",
+    className: "bg-yellow-900/30 text-yellow-200 border-yellow-800",
+  },
+};
+
+export default function BatchMint({
+  university,
+  rows,
+  approvalPolicy,
+  approvalPolicyError,
+}: BatchMintProps) {
+  const { showToast } = useToast();
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const needsApproval = requiresApproval(approvalPolicy);
+  const policyBlocked = policyBlockedReason(
+    approvalPolicy,
+    approvalPolicyError
+  );
+
+  // Pick up a job left unfinished by a reload
+  useEffect(() => {
+    setJob(loadBatchJob());
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const summary = useMemo(() => (job ? batchSummary(job) : null), [job]);
+  const remaining = summary ? summary.total - summary.done : 0;
+  const percent =
+    summary && summary.total > 0
+      ? Math.round((summary.done / summary.total) * 100)
+      : 0;
+
+  const prepare = async () => {
+    if (!rows) return;
+    setPreparing(true);
+    try {
+      // Roll number → wallet of each registered student
+      const { items } = normalizeList(
+        "students",
+        await getStudents(),
+        normalizeStudent
+      );
+      const recipients = new Map<string, string>();
+      for (const s of items) {
+        if (s.student_id && s.metamask_address)
+          recipients.set(rollKey(s.student_id), s.metamask_address);
+      }
+      setJob(
+        createBatchJob(
+          rows,
+          {
+            id: university.id,
+            name: university.name,
+            walletAddress: university.walletAddress,
+          },
+          recipients
+        )
+      );
+    } catch (err: any) {
+      showToast({
+        title: "Could not prepare batch",
+        description: err?.message || "Failed to load students.",
+        variant: "error",
+      });
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const run = async () => {
+    if (!job || policyBlocked) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    try {
+      const runner = needsApproval ? submitBatchForApproval : runBatchJob;
+      const finished = await runner(job, {
+        onUpdate: setJob,
+        signal: controller.signal,
+      });
+      const s = batchSummary(finished);
+      if (!controller.signal.aborted) {
+        showToast({
+          title: "Batch finished",
+          description: needsApproval
+            ? `${s.submitted} sent for approval, ${s.failed} failed, ${s.skipped} skipped.`
+            : `${s.minted} minted, ${s.failed} failed, ${s.skipped} skipped.`,
+          variant: s.failed > 0 ? "error" : "success",
+        });
+      }
+    } catch (err: any) {
+      showToast({
+        title: "Batch paused",
+        description: isUserRejection(err)
+          ? "The transaction was rejected in MetaMask. Resume to continue."
+          : err?.message || "Minting stopped unexpectedly.",
+        variant: "error",
+      });
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const pause = () => abortRef.current?.abort();
+
+  const discard = () => {
+    clearBatchJob();
+    setJob(null);
+  };
+
+  const downloadReport = () => {
+    if (!job) return;
+    const blob = new Blob([batchReport(job)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `batch-mint-${job.id}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!job && !rows) return null;
+
+  return (
+    <Card className="bg-gradient-to-br from-gray-950 via-gray-900 to-purple-950/40 border border-gray-800/60 backdrop-blur-xl shadow-2xl">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white flex items-center gap-2">
+          <Layers className="h-5 w-5 text-purple-300" />
+          <span>Batch Mint Credentials</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5 text-sm">
+        {!job ? (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <p className="text-gray-300">
+              {rows?.length} imported row(s) can be minted as credentials.
+              Each row is matched to a registered student by roll number.
+            </p>
+            <Button
+              onClick={prepare}
+              disabled={preparing}
+              className="bg-white text-black hover:bg-gray-100 inline-flex items-center gap-2"
+            >
+              {preparing && <Loader2 className="h-4 w-4 animate-spin" />}
+              Prepare batch
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-300">
+                <span>
+                  {summary?.done} of {summary?.total} rows done
+                </span>
+                <span className="text-green-300">
+                  {summary?.minted} minted
+                </span>
+                {!!summary?.submitted && (
+                  <span className="text-purple-200">
+                    {summary.submitted} awaiting approval
+                  </span>
+                )}
+                {!!summary?.failed && (
+                  <span className="text-red-300">{summary.failed} failed</span>
+                )}
+                {!!summary?.skipped && (
+                  <span className="text-yellow-200">
+                    {summary.skipped} skipped
+                  </span>
+                )}
+              </div>
+              <div className="h-2 w-full overflow-hidden rounded bg-gray-800">
+                <div
+                  className="h-full bg-gradient-to-r from-purple-400 via-purple-300 to-purple-500 transition-all"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {needsApproval
+                  ? "Your university requires approval before minting, so each row is sent to the Awaiting Approval queue and minted from there."
+                  : "Metadata is uploaded to IPFS first, then each credential is minted in its own MetaMask transaction. Progress is saved, so you can close this page and resume later."}
+              </p>
+              {policyBlocked && (
+                <p className="text-xs text-amber-300">{policyBlocked}</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {running ? (
+                <Button
+                  variant="outline"
+                  onClick={pause}
+                  className="border-gray-700 text-gray-200 hover:bg-white/5 inline-flex items-center gap-2"
+                >
+                  <Pause className="h-4 w-4" />
+                  Pause
+                </Button>
+              ) : (
+                <Button
+                  onClick={run}
+                  disabled={remaining === 0 || !!policyBlocked}
+                  className="bg-white text-black hover:bg-gray-100 inline-flex items-center gap-2"
+                >
+                  {needsApproval ? (
+                    <Send className="h-4 w-4" />
+                  ) : (
+                    <Play className="h-4 w-4" />
+                  )}
+                  {summary &&
+                  summary.minted + summary.submitted + summary.failed > 0
+                    ? "Resume"
+                    : needsApproval
+                    ? "Submit for approval"
+                    : "Start minting"}
+                </Button>
+              )}
+              {!!summary?.failed && !running && (
+                <Button
+                  variant="outline"
+                  onClick={() => setJob(retryFailed(job))}
+                  className="border-gray-700 text-gray-200 hover:bg-white/5 inline-flex items-center gap-2"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Retry failed
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={downloadReport}
+                className="border-gray-700 text-gray-200 hover:bg-white/5 inline-flex items-center gap-2"
+              >
+                <FileDown className="h-4 w-4" />
+                Download report
+              </Button>
+              {!running && (
+                <Button
+                  variant="outline"
+                  onClick={discard}
+                  className="border-gray-700 text-gray-200 hover:bg-white/5 inline-flex items-center gap-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Discard
+                </Button>
+              )}
+              {!running && rows && (
+                <Button
+                  variant="outline"
+                  onClick={prepare}
+                  disabled={preparing}
+                  className="border-gray-700 text-gray-200 hover:bg-white/5"
+                >
+                  Replace with latest upload
+                </Button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-auto rounded-md border border-gray-800">
+              <table className="w-full text-left text-xs">
+                <thead className="sticky top-0 bg-gray-900 text-gray-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Line</th>
+                    <th className="px-3 py-2 font-medium">Student</th>
+                    <th className="px-3 py-2 font-medium">Roll number</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800 text-gray-200">
+                  {job.items.map((item, i) => {
+                    const style = STATUS_STYLES[item.status];
+                    const txUrl = item.txHash
+                      ? txExplorerUrl(item.txHash)
+                      : null;
+                    return (
+                      <tr key={`${item.row.line}-${i}`}>
+                        <td className="px-3 py-2 text-gray-500">
+                          {item.row.line}
+                        </td>
+                        <td className="px-3 py-2">{item.row.student_name}</td>
+                        <td className="px-3 py-2 font-mono">
+                          {item.row.roll_number}
+                        </td>
+                        <td className="px-3 py-2">
+                          <Badge className={`${style.className} text-[11px]`}>
+                            {item.status === "minting" && (
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            )}
+                            {style.label}
+                          </Badge>
+                          {item.attempts > 1 && (
+                            <span className="ml-2 text-gray-500">
+                              try {item.attempts}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 break-all">
+                          {item.status === "minted" ? (
+                            <span className="inline-flex items-center gap-2">
+                              Token #{item.tokenId ?? "?"}
+                              {txUrl && (
+                                <a
+                                  href={txUrl}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="text-purple-300 hover:text-purple-200"
+                                  aria-label="View transaction"
+                                >
+                                  <ExternalLink className="h-3.5 w-3.5" />
+                                </a>
+                              )}
+                            </span>
+                          ) : item.error ? (
+                            <span className="inline-flex items-center gap-2 text-red-300">
+                              {item.error}
+                              {item.status === "failed" && !running && (
+                                <button
+                                  type="button"
+                                  onClick={() => setJob(retryFailed(job, i))}
+                                  className="text-gray-300 hover:text-white"
+                                  aria-label="Retry row"
+                                >
+                                  <RotateCcw className="h-3.5 w-3.5" />
+                                </button>
+                              )}
+                            </span>
+                          ) : null}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, Trash2 } from "lucide-react";
+import { type BulkColumn, type BulkRow, EXPECTED_HEADER } from "@/lib/batch/csv";
+import type { RowIssue } from "@/lib/batch/validate";
+
+interface BulkRowGridProps {
+  rows: BulkRow[];
+  issues: RowIssue[];
+  onCellChange: (index: number, column: BulkColumn, value: string) => void;
+  onRemoveRow: (index: number) => void;
+}
+
+// Rendering thousands of inputs makes typing sluggish; the problem filter reaches the rest
+const MAX_VISIBLE_ROWS = 200;
+
+// Editable preview of a bulk CSV with each problem shown on the cell it belongs to
+export default function BulkRowGrid({
+  rows,
+  issues,
+  onCellChange,
+  onRemoveRow,
+}: BulkRowGridProps) {
+  const [onlyProblems, setOnlyProblems] = useState(false);
+
+  const byLine = useMemo(() => {
+    const map = new Map<number, RowIssue[]>();
+    for (const issue of issues) {
+      map.set(issue.line, [...(map.get(issue.line) || []), issue]);
+    }
+    return map;
+  }, [issues]);
+
+  const visible = useMemo(() => {
+    const indexed = rows.map((row, index) => ({ row, index }));
+    const filtered = onlyProblems
+      ? indexed.filter(({ row }) => byLine.has(row.line))
+      : indexed;
+    return filtered.slice(0, MAX_VISIBLE_ROWS);
+  }, [rows, byLine, onlyProblems]);
+
+  const problemRows = byLine.size;
+  const rowLevel = issues.filter((i) => !i.column);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        {problemRows > 0 ? (
+          <div className="flex items-center gap-2 text-red-300">
+            <AlertTriangle className="h-4 w-4" />
+            {issues.length} problem(s) in {problemRows} of {rows.length} rows.
+            Fix them below before uploading.
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-green-300">
+            <CheckCircle2 className="h-4 w-4" />
+            All {rows.length} rows look valid.
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onlyProblems}
+            onChange={(e) => setOnlyProblems(e.target.checked)}
+            className="accent-purple-500"
+          />
+          Only rows with problems
+        </label>
+      </div>
+
+      <div className="max-h-[28rem] overflow-auto rounded-md border border-gray-800">
+        <table className="w-full text-left text-xs">
+          <thead className="sticky top-0 z-10 bg-gray-900 text-gray-400">
+            <tr>
+              <th className="px-2 py-2 font-medium">Line</th>
+              {EXPECTED_HEADER.map((col) => (
+                <th key={col} className="px-2 py-2 font-mono font-medium">
+                  {col}
+                </th>
+              ))}
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {visible.map(({ row, index }) => {
+              const rowIssues = byLine.get(row.line) || [];
+              const wholeRow = rowIssues.filter((i) => !i.column);
+              return (
+                <tr
+                  key={row.line}
+                  className={rowIssues.length ? "bg-red-950/20" : undefined}
+                >
+                  <td className="px-2 py-1 align-top text-gray-500">
+                    {row.line}
+                    {wholeRow.length > 0 && (
+                      <span
+                        title={wholeRow.map((i) => i.message).join("\n")}
+                        className="ml-1 inline-flex text-red-400"
+                      >
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                      </span>
+                    )}
+                  </td>
+                  {EXPECTED_HEADER.map((col) => {
+                    const cellIssues = rowIssues.filter((i) => i.column === col);
+                    const message = cellIssues.map((i) => i.message).join("; ");
+                    return (
+                      <td key={col} className="px-1 py-1 align-top">
+                        <input
+                          value={row[col]}
+                          onChange={(e) =>
+                            onCellChange(index, col, e.target.value)
+                          }
+                          title={message || undefined}
+                          aria-invalid={!!message}
+                          aria-label={`${col}, line ${row.line}`}
+                          className={`w-full min-w-[7rem] rounded bg-black/40 px-2 py-1 text-gray-100 border focus:outline-none focus:ring-1 ${
+                            message
+                              ? "border-red-600/70 focus:ring-red-500/60"
+                              : "border-transparent focus:ring-purple-500/50"
+                          }`}
+                        />
+                        {message && (
+                          <div className="mt-0.5 text-[10px] leading-tight text-red-300">
+                            {message}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-1 py-1 align-top">
+                    <button
+                      type="button"
+                      onClick={() => onRemoveRow(index)}
+                      className="rounded p-1 text-gray-500 hover:bg-white/10 hover:text-gray-200"
+                      aria-label={`Remove line ${row.line}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {/* Row-level problems (quoting, column count) have no cell to sit on */}
+      {rowLevel.length > 0 && (
+        <ul className="max-h-32 overflow-auto space-y-1 text-xs text-red-300">
+          {rowLevel.slice(0, 50).map((i, k) => (
+            <li key={k}>
+              • Line {i.line}: {i.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {(onlyProblems ? problemRows : rows.length) > MAX_VISIBLE_ROWS && (
+        <p className="text-[11px] text-gray-500">
+          Showing the first {MAX_VISIBLE_ROWS} rows.
+        </p>
+      )}
+    </div>
+  );
+}
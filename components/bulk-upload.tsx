@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import axios, { AxiosError } from "axios";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,27 +16,46 @@ import {
   FileSpreadsheet,
 } from "lucide-react";
 import { getStoredToken } from "@/components/auth/jwt";
+import { API_BASE_URL, bulkUploadStudents } from "@/lib/api/client";
 import { motion } from "framer-motion";
+import {
+  type BulkColumn,
+  type BulkRow,
+  EXPECTED_HEADER,
+  bulkCsv,
+} from "@/lib/batch/csv";
+import {
+  type RowIssue,
+  readBulkCsv,
+  validateRows,
+} from "@/lib/batch/validate";
+import {
+  type ColumnMapping as Mapping,
+  type ImportFormat,
+  type ImportTable,
+  importFormat,
+  isCompleteMapping,
+  mapRecords,
+  readImportFile,
+  suggestMapping,
+} from "@/lib/batch/import";
+import BulkRowGrid from "@/components/bulk-row-grid";
+import ColumnMapping from "@/components/column-mapping";
 
 type Status = "idle" | "uploading" | "success" | "error";
 
 type ApiErrorItem = { row?: number; field?: string; message: string } | string;
 
-const EXPECTED_HEADER = [
-  "student_name",
-  "roll_number",
-  "program",
-  "major",
-  "batch_year",
-  "issued_date",
-  "graduation_date",
-];
-
 const MAX_SIZE_MB = 10;
 const MAX_SIZE_BYTES = MAX_SIZE_MB * 1024 * 1024;
-const CSV_EXT = /\.csv$/i;
+const IMPORT_EXT = /\.(csv|xlsx|json)$/i;
 
-export default function BulkUpload() {
+interface BulkUploadProps {
+  // Receives the rows of a successfully uploaded file, e.g. to mint them as a batch
+  onImported?: (rows: BulkRow[]) => void;
+}
+
+export default function BulkUpload({ onImported }: BulkUploadProps) {
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<Status>("idle");
   const [message, setMessage] = useState<string>("");
@@ -53,6 +72,21 @@ export default function BulkUpload() {
   const [progress, setProgress] = useState<number>(0);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
+  // Parsed rows for the preview grid; edits are uploaded in place of the original file
+  const [rows, setRows] = useState<BulkRow[] | null>(null);
+  const [parseIssues, setParseIssues] = useState<RowIssue[]>([]);
+  const [edited, setEdited] = useState(false);
+
+  // Excel and JSON imports: their sheets and the column mapping onto the template
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [tables, setTables] = useState<ImportTable[] | null>(null);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [mapping, setMapping] = useState<Mapping | null>(null);
+  const rowIssues = useMemo(
+    () => (rows ? [...parseIssues, ...validateRows(rows)] : []),
+    [rows, parseIssues]
+  );
+
   useEffect(() => {
     return () => {
       // Abort any in-flight request on unmount
@@ -96,9 +130,13 @@ export default function BulkUpload() {
   async function validateHeader(f: File) {
     try {
       // Basic local validations first
-      if (!CSV_EXT.test(f.name)) {
+      const fmt = importFormat(f.name);
+      setFormat(fmt);
+      if (!fmt) {
         setHeaderOk(false);
-        setHeaderError("Invalid file type. Please upload a .csv file.");
+        setHeaderError(
+          "Invalid file type. Please upload a .csv, .xlsx or .json file."
+        );
         return false;
       }
       if (f.size === 0) {
@@ -111,6 +149,7 @@ export default function BulkUpload() {
         setHeaderError(`File too large. Max ${MAX_SIZE_MB} MB allowed.`);
         return false;
       }
+      if (fmt !== "csv") return await loadImport(f);
 
       const text = await f.text();
       const firstNonEmpty =
@@ -146,6 +185,10 @@ export default function BulkUpload() {
 
       setHeaderOk(true);
       setHeaderError("");
+      const parsed = readBulkCsv(text);
+      setRows(parsed.rows);
+      setParseIssues(parsed.issues);
+      setEdited(false);
       return true;
     } catch (e: any) {
       setHeaderOk(false);
@@ -154,6 +197,48 @@ export default function BulkUpload() {
     }
   }
 
+  // Reads an Excel or JSON file; columns are applied straight away when every
+  // template column was recognised, otherwise the user maps them first
+  async function loadImport(f: File) {
+    try {
+      const read = await readImportFile(f);
+      const first = Math.max(
+        0,
+        read.findIndex((t) => t.records.length > 0)
+      );
+      setTables(read);
+      selectTable(read, first);
+      return true;
+    } catch (e: any) {
+      setHeaderOk(false);
+      setHeaderError(e?.message || "Failed to read file");
+      return false;
+    }
+  }
+
+  const selectTable = (all: ImportTable[], index: number) => {
+    const suggested = suggestMapping(all[index].header);
+    setTableIndex(index);
+    setMapping(suggested);
+    if (isCompleteMapping(suggested)) {
+      applyMapping(all[index], suggested);
+    } else {
+      setHeaderOk(null);
+      setRows(null);
+      setParseIssues([]);
+    }
+  };
+
+  const applyMapping = (table: ImportTable, m: Mapping) => {
+    const mapped = mapRecords(table, m);
+    setRows(mapped.rows);
+    setParseIssues(mapped.issues);
+    // Imports are always uploaded as CSV rebuilt from the rows
+    setEdited(true);
+    setHeaderOk(true);
+    setHeaderError("");
+  };
+
   const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0] || null;
     setFile(f);
@@ -164,6 +249,12 @@ export default function BulkUpload() {
     setTechDetails(null);
     setSuggestions([]);
     setProgress(0);
+    setRows(null);
+    setParseIssues([]);
+    setEdited(false);
+    setFormat(null);
+    setTables(null);
+    setMapping(null);
     if (f) {
       await validateHeader(f);
     } else {
@@ -202,9 +293,51 @@ export default function BulkUpload() {
     setMessage("");
     setCount(null);
     setProgress(0);
+    setRows(null);
+    setParseIssues([]);
+    setEdited(false);
+    setFormat(null);
+    setTables(null);
+    setMapping(null);
     if (inputRef.current) inputRef.current.value = "";
   };
 
+  const updateCell = (index: number, column: BulkColumn, value: string) => {
+    if (!rows) return;
+    const line = rows[index].line;
+    setRows(
+      rows.map((r, i) => (i === index ? { ...r, [column]: value } : r))
+    );
+    // The row is rewritten from its cells on export, so quoting problems no longer apply
+    setParseIssues((prev) => prev.filter((issue) => issue.line !== line));
+    setEdited(true);
+  };
+
+  const removeRow = (index: number) => {
+    if (!rows) return;
+    const line = rows[index].line;
+    setRows(rows.filter((_, i) => i !== index));
+    setParseIssues((prev) => prev.filter((issue) => issue.line !== line));
+    setEdited(true);
+  };
+
+  const csvName = (suffix = "") =>
+    (file?.name || "students.csv").replace(IMPORT_EXT, `${suffix}.csv`);
+
+  const correctedFile = () =>
+    new File([bulkCsv(rows || [])], csvName(), { type: "text/csv" });
+
+  const downloadCorrected = () => {
+    const url = URL.createObjectURL(correctedFile());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = csvName(format === "csv" ? "-corrected" : "");
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
   const parseApiErrors = (data: any): ApiErrorItem[] => {
     if (!data || typeof data !== "object") return [];
     const candidates = [
@@ -252,7 +385,7 @@ export default function BulkUpload() {
       // Suggestions
       if (!status) {
         nextSuggestions.push(
-          "Is the backend running at https://localhost:8080?",
+          `Is the backend running at ${API_BASE_URL}?`,
           "If using self-signed TLS locally, ensure your browser trusts it or switch to http."
         );
       }
@@ -288,6 +421,7 @@ export default function BulkUpload() {
   const onUpload = async () => {
     if (!file) return;
     if (headerOk === false) return; // block invalid header
+    if (rowIssues.length > 0) return; // and rows that would be rejected
 
     // Abort any previous request
     abortRef.current?.abort();
@@ -308,28 +442,10 @@ export default function BulkUpload() {
         throw new Error("Not authenticated. Please log in and try again.");
       }
 
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const res = await axios.post(
-        "http://localhost:8080/api/v1/institution/bulk-upload",
-        formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-            Authorization: `Bearer ${token}`,
-          },
-          signal: controller.signal,
-          timeout: 60000, // 60s timeout
-          onUploadProgress: (evt) => {
-            if (!evt.total) return;
-            const p = Math.round((evt.loaded / evt.total) * 100);
-            setProgress(p);
-          },
-        }
-      );
-
-      const data = res.data || {};
+      const data = await bulkUploadStudents(edited ? correctedFile() : file, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
       const imported =
         data.importedCount ??
         data.count ??
@@ -351,6 +467,7 @@ export default function BulkUpload() {
       setApiErrors(parsedErrors);
       setTechDetails(null);
       setProgress(100);
+      if (rows) onImported?.(rows);
     } catch (e: any) {
       const { primary, suggestions: tips, details } = buildErrorMessage(e);
       setStatus("error");
@@ -363,7 +480,12 @@ export default function BulkUpload() {
     }
   };
 
-  const disabled = !file || status === "uploading" || headerOk === false;
+  const disabled =
+    !file ||
+    !rows ||
+    status === "uploading" ||
+    headerOk === false ||
+    rowIssues.length > 0;
 
   return (
     <div className="space-y-6">
@@ -381,6 +503,8 @@ export default function BulkUpload() {
               <div>
                 <p className="text-gray-300">
                   Import legacy credentials in one go using our CSV template.
+                  Excel (.xlsx) and JSON exports are mapped onto the same
+                  columns.
                 </p>
                 <p className="text-xs text-gray-400 mt-1">
                   Required header order:
@@ -414,10 +538,10 @@ export default function BulkUpload() {
               ref={inputRef}
               id="csv-input"
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx,.json"
               onChange={onFileChange}
               className="absolute inset-0 opacity-0 cursor-pointer"
-              aria-label="Upload CSV"
+              aria-label="Upload CSV, Excel or JSON file"
             />
             <div className="pointer-events-none flex flex-col items-center justify-center text-center gap-2 sm:gap-3">
               <motion.div
@@ -429,11 +553,11 @@ export default function BulkUpload() {
                 <CloudUpload className="h-6 w-6 text-purple-300" />
               </motion.div>
               <div className="text-gray-200 text-sm">
-                Drag & drop your CSV here
+                Drag & drop your file here
                 <span className="text-gray-400"> or click to browse</span>
               </div>
               <div className="text-[11px] text-gray-500">
-                Max {MAX_SIZE_MB} MB • .csv only
+                Max {MAX_SIZE_MB} MB • .csv, .xlsx or .json
               </div>
             </div>
 
@@ -464,7 +588,11 @@ export default function BulkUpload() {
                 <div className="flex items-start gap-2">
                   <AlertTriangle className="h-4 w-4 mt-0.5" />
                   <div>
-                    <div className="font-medium">Invalid CSV header</div>
+                    <div className="font-medium">
+                      {format === "csv"
+                        ? "Invalid CSV header"
+                        : "Cannot use this file"}
+                    </div>
                     <div className="mt-1">
                       {headerError || `Expected: ${EXPECTED_HEADER.join(",")}`}
                     </div>
@@ -476,12 +604,34 @@ export default function BulkUpload() {
               <div className="mt-4 sm:mt-5 rounded-md border border-green-700/40 bg-green-900/20 p-3 text-green-300 text-xs">
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="h-4 w-4" />
-                  Header looks valid
+                  {format === "csv" ? "Header looks valid" : "Columns mapped"}
                 </div>
               </div>
             )}
           </div>
 
+          {/* Column mapping (Excel / JSON) */}
+          {tables && mapping && (
+            <ColumnMapping
+              tables={tables}
+              tableIndex={tableIndex}
+              onTableChange={(i) => selectTable(tables, i)}
+              mapping={mapping}
+              onMappingChange={setMapping}
+              onApply={() => applyMapping(tables[tableIndex], mapping)}
+            />
+          )}
+
+          {/* Row preview */}
+          {rows && (
+            <BulkRowGrid
+              rows={rows}
+              issues={rowIssues}
+              onCellChange={updateCell}
+              onRemoveRow={removeRow}
+            />
+          )}
+
           {/* Actions */}
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
             <Button
@@ -496,6 +646,19 @@ export default function BulkUpload() {
               )}
               {status === "uploading" ? "Uploading…" : "Upload & Process"}
             </Button>
+            {edited && (
+              <Button
+                variant="outline"
+                onClick={downloadCorrected}
+                className="w-full sm:w-auto border-gray-700 text-gray-200 hover:bg-white/5 inline-flex items-center gap-2 justify-center"
+                type="button"
+              >
+                <FileDown className="h-4 w-4" />
+                {format === "csv"
+                  ? "Download corrected CSV"
+                  : "Download as CSV"}
+              </Button>
+            )}
             {file && (
               <Button
                 variant="outline"
@@ -0,0 +1,136 @@
+"use client";
+
+import { ArrowRight, Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EXPECTED_HEADER } from "@/lib/batch/csv";
+import type { ColumnMapping as Mapping, ImportTable } from "@/lib/batch/import";
+import { REQUIRED_COLUMNS } from "@/lib/batch/validate";
+
+interface ColumnMappingProps {
+  tables: ImportTable[];
+  tableIndex: number;
+  onTableChange: (index: number) => void;
+  mapping: Mapping;
+  onMappingChange: (mapping: Mapping) => void;
+  onApply: () => void;
+}
+
+// Radix Select items can't have an empty value
+const UNMAPPED = "__none";
+
+// Maps the columns of an imported sheet or JSON file onto the template columns
+export default function ColumnMapping({
+  tables,
+  tableIndex,
+  onTableChange,
+  mapping,
+  onMappingChange,
+  onApply,
+}: ColumnMappingProps) {
+  const table = tables[tableIndex];
+  const sample = table.records[0]?.cells || [];
+
+  return (
+    <div className="rounded-xl border border-gray-800 bg-gray-900/60 p-4 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-2 text-gray-200">
+          <Columns3 className="h-4 w-4 text-purple-300" />
+          <span className="font-medium">Map columns</span>
+          <span className="text-xs text-gray-400">
+            {table.records.length} row(s) in {table.name}
+          </span>
+        </div>
+        {tables.length > 1 && (
+          <Select
+            value={String(tableIndex)}
+            onValueChange={(v) => onTableChange(Number(v))}
+          >
+            <SelectTrigger className="w-full sm:w-56 bg-gray-800/60 border-gray-700/60 text-white">
+              <SelectValue placeholder="Sheet" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800/90 border-gray-700/60 backdrop-blur-xl">
+              {tables.map((t, i) => (
+                <SelectItem
+                  key={i}
+                  value={String(i)}
+                  className="text-white hover:bg-purple-900/30"
+                >
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+        {EXPECTED_HEADER.map((col) => {
+          const index = mapping[col];
+          return (
+            <div key={col} className="flex items-center gap-2">
+              <Select
+                value={index === null ? UNMAPPED : String(index)}
+                onValueChange={(v) =>
+                  onMappingChange({
+                    ...mapping,
+                    [col]: v === UNMAPPED ? null : Number(v),
+                  })
+                }
+              >
+                <SelectTrigger className="flex-1 min-w-0 h-9 bg-gray-800/60 border-gray-700/60 text-white text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800/90 border-gray-700/60 backdrop-blur-xl">
+                  <SelectItem
+                    value={UNMAPPED}
+                    className="text-gray-400 hover:bg-purple-900/30"
+                  >
+                    — not in file —
+                  </SelectItem>
+                  {table.header.map((h, i) => (
+                    <SelectItem
+                      key={i}
+                      value={String(i)}
+                      className="text-white hover:bg-purple-900/30"
+                    >
+                      {h || `Column ${i + 1}`}
+                      {sample[i] ? (
+                        <span className="ml-2 text-gray-400">
+                          e.g. {sample[i]}
+                        </span>
+                      ) : null}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 flex-shrink-0 text-gray-500" />
+              <span className="w-32 flex-shrink-0 font-mono text-[11px] text-gray-200">
+                {col}
+                {REQUIRED_COLUMNS.includes(col) && (
+                  <span className="text-red-400">*</span>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          onClick={onApply}
+          className="bg-white text-black hover:bg-gray-100"
+        >
+          Apply mapping
+        </Button>
+      </div>
+    </div>
+  );
+}
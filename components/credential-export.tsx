@@ -0,0 +1,109 @@
+"use client";
+
+import { FileDown, X as XIcon } from "lucide-react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import type { CredentialDetails } from "@/lib/domain/metadata";
+import type { CredentialAnchor } from "@/lib/export/anchor";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  exportCredential,
+} from "@/lib/export/formats";
+
+interface CredentialExportProps {
+  title: string;
+  details: CredentialDetails | null;
+  anchor: CredentialAnchor;
+  loading?: boolean;
+  error?: string | null;
+  onClose: () => void;
+}
+
+// Download a credential as W3C VC, Open Badges 3.0 or Europass
+export default function CredentialExport({
+  title,
+  details,
+  anchor,
+  loading,
+  error,
+  onClose,
+}: CredentialExportProps) {
+  const download = (format: ExportFormat) => {
+    if (!details) return;
+    const { fileName, blob } = exportCredential(format, details, anchor);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm z-40"
+        onClick={onClose}
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 8 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative z-50 w-full max-w-md"
+      >
+        <div className="bg-gradient-to-br from-gray-950 to-gray-900 border border-gray-800 rounded-2xl overflow-hidden shadow-2xl">
+          <div className="p-5 border-b border-gray-800 flex items-center justify-between">
+            <div>
+              <div className="text-white font-semibold">Export Credential</div>
+              <div className="text-xs text-gray-400">{title}</div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white p-1 rounded-md"
+            >
+              <XIcon className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="p-5 space-y-3">
+            {loading ? (
+              <div className="text-sm text-gray-400">
+                Loading credential from IPFS...
+              </div>
+            ) : error || !details ? (
+              <div className="text-sm text-red-400">
+                {error || "Credential metadata is not available"}
+              </div>
+            ) : (
+              (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  className="w-full h-auto justify-start gap-3 py-3 border-gray-700 text-gray-200 hover:bg-white/5"
+                  onClick={() => download(format)}
+                >
+                  <FileDown className="h-4 w-4 text-purple-300" />
+                  <span className="text-left">
+                    <span className="block text-sm">
+                      {EXPORT_FORMATS[format].label}
+                    </span>
+                    <span className="block text-xs text-gray-400">
+                      {EXPORT_FORMATS[format].description}
+                    </span>
+                  </span>
+                </Button>
+              ))
+            )}
+            {details && !loading && !error && !anchor.tokenId && (
+              <p className="text-xs text-gray-500">
+                No token id is recorded for this credential, so the export
+                won&apos;t link to the on-chain token.
+              </p>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { getStoredToken } from "@/components/auth/jwt";
+import { getUserCreds, showUser } from "@/lib/api/client";
 
 // Types for API responses
 interface ShowUserResponse {
@@ -80,37 +80,15 @@ export default function AddressSearch() {
     setError(null);
     try {
       const addr = query.trim();
-      const token = getStoredToken();
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      };
-
       // 1) Fetch user profile
-      const res = await fetch("http://localhost:8080/showuser", {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ metamask_address: addr }),
-      });
-      if (!res.ok) throw new Error(`showuser failed (${res.status})`);
-      const userJson: any = await res.json();
+      const userJson: any = await showUser(addr);
       const user: ShowUserResponse = Array.isArray(userJson)
         ? userJson[0]
         : userJson?.data?.[0] || userJson;
       setProfile(user || null);
 
       // 2) Fetch user credentials
-      const cr = await fetch("http://localhost:8080/usercreds", {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ metamask_address: addr }),
-      });
-      if (!cr.ok) throw new Error(`usercreds failed (${cr.status})`);
-      const cj: any = await cr.json();
-      const list: UserCred[] = Array.isArray(cj)
-        ? cj
-        : cj?.rows || (cj ? [cj] : []);
+      const list = (await getUserCreds(addr)) as UserCred[];
       setCreds(list);
 
       setOpen(true);
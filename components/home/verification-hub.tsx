@@ -8,10 +8,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Building2, ShieldCheck, UserCheck, Loader2 } from "lucide-react";
-import { getStoredToken } from "@/components/auth/jwt";
-// ethers imports for on-chain org verification
-import { BrowserProvider, Contract } from "ethers";
-import mintAbi from "@/types/mint.abi.json";
+import { createAccount, recordTransactionHash } from "@/lib/api/client";
+import { pinImage } from "@/lib/ipfs/upload";
+import { getCredentialContract } from "@/lib/chain/wallet";
 
 interface VerificationSignupModalProps {
   open: boolean;
@@ -45,6 +44,11 @@ export function VerificationSignupModal({
     PostalCode: "",
     TotalStudents: "",
   });
+  // University logo and banner, pinned to IPFS on submit
+  const [images, setImages] = useState<{
+    logo: File | null;
+    banner: File | null;
+  }>({ logo: null, banner: null });
   const [submitting, setSubmitting] = useState(false);
   const [done, setDone] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -53,24 +57,8 @@ export function VerificationSignupModal({
   // Helper: push new organization to on-chain registry via newOrg(address _org)
   async function registerOrgOnChain(orgAddress?: string) {
     try {
-      if (typeof window === "undefined" || !(window as any).ethereum) {
-        throw new Error("MetaMask not available");
-      }
-
-      const contractAddress =
-        process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ||
-        "0xc0a70a43CD5fAF5B15db983fe9f9E769B221738e"; // updated contract
-
-      const provider = new BrowserProvider((window as any).ethereum as any);
-      // Ensure account accessd
-      await (window as any).ethereum.request({ method: "eth_requestAccounts" });
-      const signer = await provider.getSigner();
-
-      const contract = new Contract(
-        contractAddress,
-        mintAbi as any,
-        signer as any
-      );
+      // Refuses to continue (WrongNetworkError) unless MetaMask is on the configured chain
+      const { signer, contract } = await getCredentialContract();
 
       // Default to the connected MetaMask address if none provided
       const targetAddress =
@@ -83,15 +71,7 @@ export function VerificationSignupModal({
 
       // Optional: Persist tx hash to backend (best-effort)
       try {
-        const token = getStoredToken();
-        await fetch("http://localhost:8080/transactionhash", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ transaction_hash: tx.hash }),
-        });
+        await recordTransactionHash(tx.hash);
       } catch (e) {
         console.warn("Failed to persist tx hash:", e);
       }
@@ -121,6 +101,7 @@ export function VerificationSignupModal({
       PostalCode: "",
       TotalStudents: "",
     });
+    setImages({ logo: null, banner: null });
     setSubmitting(false);
     setDone(false);
     setError(null);
@@ -169,7 +150,20 @@ export function VerificationSignupModal({
         );
       }
 
-      const token = getStoredToken();
+      const pin = (file: File | null, label: string) =>
+        file
+          ? pinImage(file).catch((e) => {
+              throw new Error(`${label} upload failed: ${e?.message || e}`);
+            })
+          : undefined;
+      const [logoCid, bannerCid] =
+        mode === "university"
+          ? await Promise.all([
+              pin(images.logo, "Logo"),
+              pin(images.banner, "Banner"),
+            ])
+          : [];
+
       const payload = {
         mode,
         email: form.email,
@@ -187,28 +181,11 @@ export function VerificationSignupModal({
         Address: form.Address,
         PostalCode: form.PostalCode,
         TotalStudents: form.TotalStudents,
+        logo_ip_fs_hash: logoCid,
+        banner_ip_fs_hash: bannerCid,
       };
 
-      const res = await fetch(
-        mode === "university"
-          ? "http://localhost:8080/api/create/org"
-          : "http://localhost:8080/api/create/user",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify(payload),
-        }
-      );
-
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(text || `Request failed (${res.status})`);
-      }
-
-      const createdUser = await res.json();
+      const createdUser = await createAccount(mode, payload);
 
       try {
         localStorage.setItem("vericred_user", JSON.stringify(createdUser));
@@ -504,6 +481,27 @@ export function VerificationSignupModal({
                     />
                   </div>
 
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {(["logo", "banner"] as const).map((kind) => (
+                      <div key={kind} className="space-y-1">
+                        <label className="text-[11px] font-medium text-white-primary/70">
+                          {kind === "logo" ? "Logo" : "Banner"} (optional)
+                        </label>
+                        <input
+                          type="file"
+                          accept="image/*"
+                          onChange={(e) =>
+                            setImages((p) => ({
+                              ...p,
+                              [kind]: e.target.files?.[0] ?? null,
+                            }))
+                          }
+                          className="w-full rounded-md bg-black/40 border border-border/60 px-3 py-2 text-sm text-white-primary placeholder-white-primary/30 focus:outline-none focus:ring-2 focus:ring-purple-primary/60 focus:border-transparent transition file:mr-3 file:rounded file:border-0 file:bg-white/10 file:px-2 file:py-1 file:text-xs file:text-white-primary"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
                   <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                     <div className="space-y-1">
                       <label className="text-[11px] font-medium text-white-primary/70">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -9,6 +9,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   X,
   Award,
@@ -24,40 +31,58 @@ import {
   ExternalLink,
   Copy,
   Check,
+  Send,
+  LayoutTemplate,
+  Save,
+  RotateCcw,
 } from "lucide-react";
-import { getStoredToken } from "@/components/auth/jwt";
-import { BrowserProvider, Contract } from "ethers";
-import mintAbi from "@/types/mint.abi.json";
+import {
+  createCredentialDraft,
+  getCredentialTemplates,
+  recordMintedCredential,
+  recordTransactionHash,
+  saveCredentialTemplate,
+} from "@/lib/api/client";
+import type {
+  ApprovalPolicy,
+  CredentialDraft,
+  CredentialTemplate,
+  MintedRecordPayload,
+} from "@/lib/api/types";
 import { motion } from "framer-motion";
 import { useToast } from "@/components/ui/toast";
-
-interface Student {
-  id: string;
-  name: string;
-  universityId: string;
-  walletAddress: string;
-  eligibilityStatus:
-    | "graduated"
-    | "eligible"
-    | "pending_review"
-    | "not_eligible";
-  mintingStatus: "none" | "pending" | "minting" | "minted" | "failed";
-  joinDate: string;
-  lastActivity: string;
-}
-
-interface University {
-  id: string;
-  name: string;
-  logo: string;
-  banner: string;
-  description: string;
-  website: string;
-  walletAddress: string;
-  verified: boolean;
-  adminName: string;
-  adminRole: string;
-}
+import type {
+  CredentialProgram,
+  Student,
+  University,
+} from "@/lib/domain/types";
+import { canMint, mintBlockedReason } from "@/lib/domain/status";
+import { credentialMetadata, metadataIssues } from "@/lib/domain/metadata";
+import {
+  type CredentialFormData,
+  applyTemplate,
+  blankCredentialForm,
+  clearSavedForm,
+  loadSavedForm,
+  saveForm,
+  templateFromForm,
+  templateIssues,
+} from "@/lib/domain/credential-form";
+import { catalogEntryFor } from "@/lib/domain/credential-catalog";
+import { activeChain, txExplorerUrl } from "@/lib/chain/profiles";
+import { mintedTokenId } from "@/lib/chain/verify";
+import { signCredentialMetadata } from "@/lib/chain/issuer-signature";
+import { policyBlockedReason, requiresApproval } from "@/lib/chain/approval";
+import { ipfsLinkUrl } from "@/lib/ipfs/gateways";
+import { uploadCredentialMetadata } from "@/lib/ipfs/upload";
+import {
+  WrongNetworkError,
+  getCredentialContract,
+  isUserRejection,
+  onChainChanged,
+  switchToChain,
+  walletChainId,
+} from "@/lib/chain/wallet";
 
 interface MintCredentialModalProps {
   isOpen: boolean;
@@ -65,20 +90,13 @@ interface MintCredentialModalProps {
   onSubmit: (credentialData: any) => void;
   student: Student | null;
   university: University | null;
-}
-
-interface CredentialFormData {
-  name: string;
-  description: string;
-  credentialType: string;
-  major: string;
-  gpa: string;
-  issueDate: string;
-  graduationDate: string;
-  credentialId: string;
-  verificationUrl: string;
-  accreditationBody: string;
-  deanSignatureHash?: string;
+  // With a policy, the modal files a draft for approval instead of minting.
+  // undefined while it loads; nothing can be submitted until then
+  approvalPolicy?: ApprovalPolicy | null;
+  approvalPolicyError?: string | null;
+  onDraftCreated?: (draft: CredentialDraft) => void;
+  // The university's catalog; its active entries are the credential types on offer
+  credentialTypes?: CredentialProgram[];
 }
 
 export default function MintCredentialModal({
@@ -87,17 +105,11 @@ export default function MintCredentialModal({
   onSubmit,
   student,
   university,
+  approvalPolicy,
+  approvalPolicyError,
+  onDraftCreated,
+  credentialTypes = [],
 }: MintCredentialModalProps) {
-  // Generate a CID-like random hash (looks like Qm... base58)
-  const makeRandomCid = () => {
-    const alphabet =
-      "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
-    let cid = "Qm";
-    for (let i = 0; i < 44; i++)
-      cid += alphabet[Math.floor(Math.random() * alphabet.length)];
-    return cid;
-  };
-
   const [activeTab, setActiveTab] = useState("basic");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [ipfsLink, setIpfsLink] = useState<string | null>(null);
@@ -116,7 +128,6 @@ export default function MintCredentialModal({
     credentialId: "",
     verificationUrl: "",
     accreditationBody: "",
-    deanSignatureHash: "",
   });
 
   // add uploadedCredentialData state
@@ -125,6 +136,17 @@ export default function MintCredentialModal({
   >(null);
   const [copied, setCopied] = useState(false);
   const [copiedAddr, setCopiedAddr] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<CredentialTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  // When the form was restored from an earlier, unfinished session
+  const [restoredAt, setRestoredAt] = useState<string | null>(null);
+  // Only forms the admin has touched are saved, not the blank starting form
+  const dirty = useRef(false);
+  const [walletChain, setWalletChain] = useState<number | null>(null);
+  const targetChain = activeChain();
+  const wrongNetwork =
+    walletChain !== null && walletChain !== targetChain.chainId;
 
   const copyAddr = async (addr?: string) => {
     if (!addr) return;
@@ -135,92 +157,194 @@ export default function MintCredentialModal({
     } catch {}
   };
 
-  // Initialize form with default values when modal opens
+  // Restore this student's unfinished form when the modal opens, else start blank
   useEffect(() => {
     if (isOpen && student && university) {
-      const credentialId = `${String(
-        university.id
-      ).toUpperCase()}-${Date.now()}-${student.id}`;
-      setFormData({
-        name: "BTECH",
-        description: `Official academic credential awarded by ${university.name} for the successful completion of the Bachelor of Science program.`,
-        credentialType: "Bachelor's Degree",
-        major: "Computer Science",
-        gpa: "3.85",
-        issueDate: new Date().toISOString().split("T")[0],
-        graduationDate: new Date().toISOString().split("T")[0],
-        credentialId: credentialId,
-        verificationUrl: `https://vericred.com/verify?credentialId=${credentialId}`,
-        accreditationBody: "Accreditation Council for Education (ACE)",
-        deanSignatureHash: makeRandomCid(),
-      });
+      const saved = loadSavedForm(student, university);
+      setFormData(saved?.form ?? blankCredentialForm(student, university));
+      setRestoredAt(saved?.savedAt ?? null);
+      setTemplateId("");
+      dirty.current = false;
       setIpfsLink(null);
     }
   }, [isOpen, student, university]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    getCredentialTemplates()
+      .then(setTemplates)
+      .catch((e) => console.warn("Failed to load credential templates:", e));
+  }, [isOpen]);
+
+  // Save as the admin types, so closing the modal doesn't lose the form
+  useEffect(() => {
+    if (isOpen && dirty.current && student && university) {
+      saveForm(student, university, formData);
+    }
+  }, [isOpen, formData, student, university]);
+
+  // Track the wallet's network while open so a wrong chain is flagged before minting
+  useEffect(() => {
+    if (!isOpen) return;
+    walletChainId()
+      .then(setWalletChain)
+      .catch(() => setWalletChain(null));
+    return onChainChanged(setWalletChain);
+  }, [isOpen]);
+
+  const handleSwitchNetwork = async () => {
+    try {
+      await switchToChain(targetChain);
+    } catch (err: any) {
+      showToast({
+        title: "Network not switched",
+        description: err?.message || `Switch to ${targetChain.name} in MetaMask.`,
+        variant: "error",
+      });
+    }
+  };
+
   const handleInputChange = (
     field: keyof CredentialFormData,
     value: string
   ) => {
+    dirty.current = true;
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const handleSubmit = async () => {
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template || !student || !university) return;
+    dirty.current = true;
+    setTemplateId(id);
+    setFormData((prev) => applyTemplate(prev, template, student, university));
+  };
+
+  const handleSaveTemplate = async () => {
     if (!student || !university) return;
+    const template = templateFromForm(formData, student, university);
+    const issues = templateIssues(template);
+    if (issues.length) {
+      showToast({
+        title: "Template not saved",
+        description: issues.join("; "),
+        variant: "error",
+      });
+      return;
+    }
+    try {
+      setSavingTemplate(true);
+      const saved = await saveCredentialTemplate(template);
+      setTemplates((prev) => [...prev, saved]);
+      setTemplateId(saved.id);
+      showToast({
+        title: "Template saved",
+        description: `${saved.name} is available for every student.`,
+        variant: "success",
+      });
+    } catch (err: any) {
+      showToast({
+        title: "Template not saved",
+        description: err?.message || "Could not save the template",
+        variant: "error",
+      });
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
 
-    setIsSubmitting(true);
+  // Discards the restored form and starts again from a blank one
+  const handleStartOver = () => {
+    if (!student || !university) return;
+    clearSavedForm(student, university);
+    dirty.current = false;
+    setFormData(blankCredentialForm(student, university));
+    setTemplateId("");
+    setRestoredAt(null);
+  };
+
+  const blockedReason =
+    (student ? mintBlockedReason(student) : null) ??
+    policyBlockedReason(approvalPolicy, approvalPolicyError);
+  const needsApproval = requiresApproval(approvalPolicy);
+  const activeTypes = credentialTypes.filter((c) => c.status === "active");
+  const catalogEntry = catalogEntryFor(credentialTypes, formData.credentialType);
+
+  const handleSubmit = async () => {
+    if (!student || !university || approvalPolicy === undefined) return;
+    if (!canMint(student)) {
+      showToast({
+        title: "Cannot mint credential",
+        description: blockedReason || undefined,
+        variant: "error",
+      });
+      return;
+    }
+
+    // With a catalog, only its active types can be issued
+    if (activeTypes.length > 0 && !catalogEntry) {
+      showToast({
+        title: "Choose a credential type",
+        description: formData.credentialType
+          ? `"${formData.credentialType}" is not an active type in your catalog.`
+          : "Pick one of your university's credential types.",
+        variant: "error",
+      });
+      setActiveTab("basic");
+      return;
+    }
 
     // Build the credential data structure
-    const credentialData: any = {
-      name: formData.name,
-      description: formData.description,
-      attributes: [
-        { trait_type: "Credential Type", value: formData.credentialType },
-        { trait_type: "Issuing Institution", value: university.name },
-        { trait_type: "Issuer Wallet", value: university.walletAddress },
-        { trait_type: "Recipient Name", value: student.name },
-        { trait_type: "Recipient Wallet", value: student.walletAddress },
-        { trait_type: "Issue Date", value: formData.issueDate },
-        { trait_type: "Graduation Date", value: formData.graduationDate },
-        { trait_type: "Major", value: formData.major },
-        { trait_type: "GPA", value: formData.gpa },
-        { trait_type: "Credential ID", value: formData.credentialId },
-        { trait_type: "Accreditation Body", value: formData.accreditationBody },
-      ],
-      custom_fields: {
-        deanSignatureHash: formData.deanSignatureHash || "",
-      },
-    };
+    const credentialData = credentialMetadata({
+      ...formData,
+      issuer: university,
+      recipient: student,
+    });
+    const problems = metadataIssues(credentialData);
+    if (problems.length) {
+      showToast({
+        title: "Credential details are incomplete",
+        description: problems.join("; "),
+        variant: "error",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
 
+    if (needsApproval) {
+      await submitDraft(credentialData);
+      return;
+    }
+
+    let signed: typeof credentialData;
     try {
-      const token = getStoredToken();
-      const res = await fetch("http://localhost:8080/api/uploadtoipfs", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify(credentialData),
+      signed = await signCredentialMetadata(credentialData);
+    } catch (err: any) {
+      setIsSubmitting(false);
+      showToast({
+        title: "Credential not signed",
+        description:
+          err instanceof WrongNetworkError
+            ? err.message
+            : isUserRejection(err)
+            ? "Signature request was rejected in the wallet."
+            : err?.message || "Could not sign the credential metadata",
+        variant: "error",
       });
-      const result = await res.json();
-      console.log("Upload result:", result);
-      if (!res.ok)
-        throw new Error(
-          `Upload failed (${res.status}) ${JSON.stringify(result)}`
-        );
-      // backend returns { ipfsurl: "ipfs://..." }
-      const link =
-        result?.ipfsurl || result?.ipfslink || result?.ipfsLink || null;
+      return;
+    }
+
+    try {
+      const link = await uploadCredentialMetadata(signed);
       setIpfsLink(link);
 
       // Store uploaded credential data locally and DO NOT notify parent yet.
       // Parent should not close the modal until admin confirms mint.
-      setUploadedCredentialData({ ...credentialData });
+      setUploadedCredentialData({ ...signed });
 
       // Do NOT auto-mint. Ask user to confirm mint using the returned tokenURI.
-      if (link) {
-        setPendingTokenURI(link);
-      }
+      setPendingTokenURI(link);
     } catch (err) {
       console.error("Error uploading to IPFS:", err);
       // show error inline (could add state for error text)
@@ -231,46 +355,49 @@ export default function MintCredentialModal({
     }
   };
 
+  // Files the unsigned metadata in the approval queue; it is signed and minted once approved
+  const submitDraft = async (metadata: unknown) => {
+    if (!student || !university || !approvalPolicy) return;
+    try {
+      const draft = await createCredentialDraft({
+        student_wallet: student.walletAddress,
+        metadata,
+      });
+      showToast({
+        title: "Submitted for approval",
+        description: `${student.name}'s credential needs ${approvalPolicy.threshold} of ${approvalPolicy.signers.length} approvals before it can be minted.`,
+        variant: "success",
+      });
+      clearSavedForm(student, university);
+      onDraftCreated?.(draft);
+      closeModal();
+    } catch (err: any) {
+      showToast({
+        title: "Draft not submitted",
+        description: err?.message || "Could not submit the credential for approval",
+        variant: "error",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Mint the token on-chain using ethers / MetaMask
   async function mintOnChain(tokenURI: string) {
     if (!student) return;
     try {
-      const contractAddress =
-        process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ||
-        "0xc0a70a43CD5fAF5B15db983fe9f9E769B221738e";
-      if (!contractAddress) throw new Error("Contract address not set");
-
-      if (typeof window === "undefined" || !(window as any).ethereum) {
-        throw new Error("MetaMask not available in this browser");
-      }
-
-      const provider = new BrowserProvider((window as any).ethereum as any);
-      // Request account access if needed
-      await (window as any).ethereum.request({ method: "eth_requestAccounts" });
-      const signer = await provider.getSigner();
-
-      const contract = new Contract(
-        contractAddress,
-        mintAbi as any,
-        signer as any
-      );
+      // Switches MetaMask to the configured chain first, or throws WrongNetworkError
+      const { chain, contract } = await getCredentialContract();
 
       setIsSubmitting(true);
       const tx = await contract.mintDoc(student.walletAddress, tokenURI);
       // wait for transaction to be mined
       const receipt = await tx.wait();
+      const tokenId = receipt ? mintedTokenId(contract, receipt.logs) : null;
 
       // Post transaction hash to backend
       try {
-        const token = getStoredToken();
-        await fetch("http://localhost:8080/transactionhash", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ transaction_hash: tx.hash }),
-        });
+        await recordTransactionHash(tx.hash);
       } catch (hashPersistErr) {
         console.warn("Failed to persist transaction hash:", hashPersistErr);
       }
@@ -278,7 +405,7 @@ export default function MintCredentialModal({
       // Persist minted record to backend
       try {
         const nowIso = new Date().toISOString();
-        const payload = {
+        const payload: MintedRecordPayload = {
           id: (globalThis as any).crypto?.randomUUID
             ? (globalThis as any).crypto.randomUUID()
             : `${Date.now()}-${Math.random().toString(16).slice(2)}`,
@@ -294,24 +421,19 @@ export default function MintCredentialModal({
           created_at: nowIso,
           updated_at: nowIso,
           ipfs_link: tokenURI,
-          dean_sig: formData.deanSignatureHash || "",
+          dean_sig: uploadedCredentialData?.proof?.signature || "",
+          token_id: tokenId != null ? tokenId.toString() : undefined,
+          tx_hash: tx.hash,
         };
 
-        const token = getStoredToken();
-        await fetch("http://localhost:8080/credmint", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify(payload),
-        });
+        await recordMintedCredential(payload);
       } catch (persistErr) {
         console.warn("Failed to persist minted record to backend:", persistErr);
       }
 
       setIsSubmitting(false);
       setPendingTokenURI(null);
+      if (university) clearSavedForm(student, university);
 
       if (uploadedCredentialData) {
         try {
@@ -328,10 +450,9 @@ export default function MintCredentialModal({
       // Global success toast
       showToast({
         title: "Mint Successful!",
-        description:
-          "Your credential has been minted successfully on Sepolia testnet.",
+        description: `Your credential has been minted successfully on ${chain.name}.`,
         variant: "success",
-        linkHref: `https://sepolia.etherscan.io/tx/${tx.hash}`,
+        linkHref: txExplorerUrl(tx.hash, chain) ?? undefined,
         linkLabel: "View on Etherscan",
         durationMs: 6000,
       });
@@ -341,6 +462,14 @@ export default function MintCredentialModal({
     } catch (err: any) {
       console.error("Minting failed", err);
       setIsSubmitting(false);
+      if (err instanceof WrongNetworkError) {
+        showToast({
+          title: "Wrong network",
+          description: `${err.message}. Nothing was minted.`,
+          variant: "error",
+        });
+        return;
+      }
       alert("On-chain mint failed: " + (err?.message || String(err)));
     }
   }
@@ -420,6 +549,22 @@ export default function MintCredentialModal({
               </div>
             </div>
           )}
+
+          {wrongNetwork && (
+            <div className="mt-4 p-3 rounded-lg border border-amber-700/60 bg-amber-900/20 flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="text-sm text-amber-200 flex-1">
+                MetaMask is connected to the wrong network. Credentials are
+                minted on {targetChain.name}.
+              </p>
+              <Button
+                size="sm"
+                onClick={handleSwitchNetwork}
+                className="bg-amber-500 text-black hover:bg-amber-400"
+              >
+                Switch to {targetChain.name}
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -462,6 +607,77 @@ export default function MintCredentialModal({
 
             <TabsContent value="basic" className="mt-6">
               <div className="space-y-6">
+                {restoredAt && (
+                  <div className="p-3 rounded-lg border border-purple-800/60 bg-purple-900/20 flex flex-col sm:flex-row sm:items-center gap-3">
+                    <p className="text-sm text-purple-200 flex-1">
+                      Restored the form you were filling in for{" "}
+                      {student?.name} on{" "}
+                      {new Date(restoredAt).toLocaleString()}.
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleStartOver}
+                      className="border-purple-700 text-purple-200 hover:bg-purple-900/40 bg-transparent"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Start over
+                    </Button>
+                  </div>
+                )}
+                <Card className="bg-gray-800 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                      <LayoutTemplate className="h-5 w-5" />
+                      Template
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <Select
+                        value={templateId}
+                        onValueChange={handleTemplateChange}
+                      >
+                        <SelectTrigger className="flex-1 bg-gray-900 border-gray-600 text-white">
+                          <SelectValue
+                            placeholder={
+                              templates.length
+                                ? "Start from a template"
+                                : "No templates yet"
+                            }
+                          />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800/90 border-gray-700/60 backdrop-blur-xl">
+                          {templates.map((t) => (
+                            <SelectItem
+                              key={t.id}
+                              value={t.id}
+                              className="text-white hover:bg-purple-900/30"
+                            >
+                              {t.name} · {t.credential_type}
+                              {t.major ? ` · ${t.major}` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        onClick={handleSaveTemplate}
+                        disabled={savingTemplate}
+                        className="border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white bg-transparent"
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        {savingTemplate ? "Saving..." : "Save as template"}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      A template fills in the credential name, type, major,
+                      description and accreditation body. Saved templates
+                      replace the student and university names in the
+                      description with {"{student}"} and {"{university}"}.
+                    </p>
+                  </CardContent>
+                </Card>
                 <Card className="bg-gray-800 border-gray-700">
                   <CardHeader>
                     <CardTitle className="text-white flex items-center gap-2">
@@ -492,15 +708,56 @@ export default function MintCredentialModal({
                         >
                           Credential Type *
                         </Label>
-                        <Input
-                          id="credentialType"
-                          value={formData.credentialType}
-                          onChange={(e) =>
-                            handleInputChange("credentialType", e.target.value)
-                          }
-                          className="bg-gray-900 border-gray-600 text-white focus:border-gray-500"
-                          placeholder="e.g., Bachelor's Degree"
-                        />
+                        {activeTypes.length > 0 ? (
+                          <Select
+                            value={catalogEntry?.id ?? ""}
+                            onValueChange={(id) =>
+                              handleInputChange(
+                                "credentialType",
+                                activeTypes.find((c) => c.id === id)?.name ?? ""
+                              )
+                            }
+                          >
+                            <SelectTrigger
+                              id="credentialType"
+                              className="bg-gray-900 border-gray-600 text-white"
+                            >
+                              <SelectValue placeholder="Choose from your catalog" />
+                            </SelectTrigger>
+                            <SelectContent className="bg-gray-800/90 border-gray-700/60 backdrop-blur-xl">
+                              {activeTypes.map((c) => (
+                                <SelectItem
+                                  key={c.id}
+                                  value={c.id}
+                                  className="text-white hover:bg-purple-900/30"
+                                >
+                                  {c.name} · {c.type}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Input
+                            id="credentialType"
+                            value={formData.credentialType}
+                            onChange={(e) =>
+                              handleInputChange(
+                                "credentialType",
+                                e.target.value
+                              )
+                            }
+                            className="bg-gray-900 border-gray-600 text-white focus:border-gray-500"
+                            placeholder="e.g., Bachelor's Degree"
+                          />
+                        )}
+                        {activeTypes.length > 0 &&
+                          formData.credentialType &&
+                          !catalogEntry && (
+                            <p className="text-xs text-yellow-300 mt-1">
+                              &quot;{formData.credentialType}&quot; is not in
+                              your catalog; choose a type before minting.
+                            </p>
+                          )}
                       </div>
                     </div>
                     <div>
@@ -659,23 +916,11 @@ export default function MintCredentialModal({
                         placeholder="https://vericred.com/verify?credentialId=..."
                       />
                     </div>
-                    <div>
-                      <Label
-                        htmlFor="deanSignatureHash"
-                        className="text-gray-300"
-                      >
-                        Dean Signature Hash (IPFS)
-                      </Label>
-                      <Input
-                        id="deanSignatureHash"
-                        value={formData.deanSignatureHash}
-                        onChange={(e) =>
-                          handleInputChange("deanSignatureHash", e.target.value)
-                        }
-                        className="bg-gray-900 border-gray-600 text-white focus:border-gray-500 font-mono"
-                        placeholder="QmDeanSignatureHashForThisCredential"
-                      />
-                    </div>
+                    <p className="text-xs text-gray-400">
+                      Before upload, your wallet signs the credential metadata
+                      (EIP-712). Verifiers check the signature against the
+                      issuing wallet.
+                    </p>
                     <Separator className="bg-gray-700" />
                   </CardContent>
                 </Card>
@@ -763,8 +1008,15 @@ export default function MintCredentialModal({
                 Minting to: {student?.walletAddress}
               </p>
               <p className="text-xs sm:text-sm">
-                Gas fees will be covered by university wallet
+                {needsApproval && approvalPolicy
+                  ? `Needs ${approvalPolicy.threshold} of ${approvalPolicy.signers.length} approvals before minting`
+                  : "Gas fees will be covered by university wallet"}
               </p>
+              {blockedReason && (
+                <p className="text-xs sm:text-sm text-amber-300">
+                  {blockedReason}
+                </p>
+              )}
             </div>
             <div className="w-full sm:w-auto flex flex-wrap justify-end gap-3">
               <div>
@@ -781,12 +1033,22 @@ export default function MintCredentialModal({
                 <Button
                   onClick={handleSubmit}
                   disabled={
-                    isSubmitting || !formData.name || !formData.description
+                    isSubmitting ||
+                    !formData.name ||
+                    !formData.description ||
+                    !!blockedReason
                   }
                   className="bg-white text-black hover:bg-gray-100 font-semibold min-w-[120px] w-full sm:w-auto"
                 >
                   {isSubmitting ? (
-                    <div className="flex items-center gap-2">Uploading...</div>
+                    <div className="flex items-center gap-2">
+                      {needsApproval ? "Submitting..." : "Uploading..."}
+                    </div>
+                  ) : needsApproval ? (
+                    <div className="flex items-center gap-2">
+                      <Send className="h-4 w-4" />
+                      Submit for Approval
+                    </div>
                   ) : (
                     <div className="flex items-center gap-2">
                       <Zap className="h-4 w-4" />
@@ -856,13 +1118,11 @@ export default function MintCredentialModal({
                       <Button
                         size="sm"
                         onClick={() => {
-                          const gatewayUrl = ipfsLink!.startsWith("ipfs://")
-                            ? `https://ipfs.io/ipfs/${ipfsLink!.replace(
-                                "ipfs://",
-                                ""
-                              )}`
-                            : ipfsLink!;
-                          window.open(gatewayUrl, "_blank", "noreferrer");
+                          window.open(
+                            ipfsLinkUrl(ipfsLink!),
+                            "_blank",
+                            "noreferrer"
+                          );
                         }}
                         className="bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-500 hover:to-purple-600 text-white inline-flex items-center gap-2"
                         aria-label="Open in gateway"
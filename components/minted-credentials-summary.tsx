@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -29,10 +29,36 @@ import {
   Share2,
   Clock,
   X as XIcon,
+  Ban,
+  PauseCircle,
+  ShieldAlert,
+  FileDown,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { QRCodeCanvas } from "qrcode.react";
-import { getStoredToken, isJwtValid } from "@/components/auth/jwt";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/toast";
+import {
+  generateShareLink,
+  getCreds,
+  publishRevocation,
+} from "@/lib/api/client";
+import { normalizeCredential, normalizeList } from "@/lib/api/schemas";
+import type { RevocationEntry } from "@/lib/api/types";
+import {
+  type RevocationAction,
+  type RevocationState,
+  isValidRevocation,
+  revocationState,
+  signRevocation,
+} from "@/lib/chain/revocation";
+import { readIssuerSignature } from "@/lib/chain/issuer-signature";
+import {
+  type CredentialDetails,
+  readCredentialMetadata,
+} from "@/lib/domain/metadata";
+import { loadIpfsContent } from "@/lib/ipfs/load";
+import CredentialExport from "@/components/credential-export";
 
 interface BackendCred {
   id: string;
@@ -51,19 +77,58 @@ interface BackendCred {
   updated_at?: string;
   ipfs_link?: string;
   dean_sig?: string;
+  token_id?: string;
+  revocations?: RevocationEntry[];
   [key: string]: any;
 }
 
 interface MintedCredentialsSummaryProps {
   credentials?: BackendCred[];
+  // University view: lists issued credentials and lets this wallet revoke or
+  // suspend the ones it issued
+  issuerWallet?: string;
+}
+
+// IPFS fetch through the proxy, falling back to racing the gateways directly
+async function fetchCredentialMetadata(c: BackendCred): Promise<any> {
+  const rawIpfs =
+    c.ipfs_link ||
+    c.ip_fs_link ||
+    c.ipfsHash ||
+    c.ipfs ||
+    (c as any)?.ipfsurl ||
+    (c as any)?.ipfs_url ||
+    (c as any)?.tokenURI ||
+    (c as any)?.tokenUri ||
+    null;
+  if (!rawIpfs) {
+    throw new Error("No IPFS link available for this credential");
+  }
+
+  return (await loadIpfsContent(rawIpfs)).data;
+}
+
+// Status from the entries the credential's own issuer signed
+function credentialState(c: BackendCred): RevocationState {
+  const target = {
+    credentialId: c.id,
+    tokenId: c.token_id ?? null,
+    issuer: c.university_wallet ?? null,
+  };
+  return revocationState(
+    (c.revocations ?? []).filter((e) => isValidRevocation(e, target))
+  );
 }
 
 export default function MintedCredentialsSummary({
   credentials = [],
+  issuerWallet,
 }: MintedCredentialsSummaryProps) {
+  const { showToast } = useToast();
   const [creds, setCreds] = useState<BackendCred[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [rejectedCount, setRejectedCount] = useState(0);
 
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [activeCred, setActiveCred] = useState<BackendCred | null>(null);
@@ -83,138 +148,48 @@ export default function MintedCredentialsSummary({
   const [shareFor, setShareFor] = useState<BackendCred | null>(null);
   const qrWrapRef = useRef<HTMLDivElement | null>(null);
 
-  // Helper to read values from IPFS JSON attributes array (trait_type/value)
-  const getAttr = useCallback(
-    (key: string): string | null => {
-      const attrs = (ipfsData as any)?.attributes;
-      if (Array.isArray(attrs)) {
-        const found = attrs.find(
-          (a: any) => (a?.trait_type || a?.traitType) === key
-        );
-        return (found?.value ?? null) as any;
-      }
-      return null;
-    },
+  const [statusFor, setStatusFor] = useState<BackendCred | null>(null);
+  const [statusAction, setStatusAction] =
+    useState<RevocationAction>("suspended");
+  const [statusReason, setStatusReason] = useState("");
+  const [statusSaving, setStatusSaving] = useState(false);
+
+  const [exportFor, setExportFor] = useState<BackendCred | null>(null);
+  const [exportDetails, setExportDetails] =
+    useState<CredentialDetails | null>(null);
+  const [exportLoading, setExportLoading] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Any metadata version, read into one shape for the details view and exports
+  const details = useMemo(
+    () => readCredentialMetadata(ipfsData),
+    [ipfsData]
+  );
+  const issuerSignature = useMemo(
+    () => (ipfsData ? readIssuerSignature(ipfsData) : null),
     [ipfsData]
   );
-
-  // Normalize a single credential object from varying backend shapes
-  const normalizeCred = useCallback((c: any): BackendCred => {
-    const id =
-      c?.id ?? c?.ID ?? c?.uuid ?? c?._id ?? c?.credential_id ?? undefined;
-    const degree_name =
-      c?.degree_name ?? c?.degreeName ?? c?.name ?? c?.title ?? undefined;
-    const description = c?.description ?? c?.details ?? c?.desc ?? undefined;
-    const type =
-      c?.type ?? c?.credential_type ?? c?.credentialType ?? undefined;
-    const major = c?.major ?? c?.field ?? undefined;
-    const gpa = c?.gpa ?? c?.grade ?? undefined;
-    const issued_date =
-      c?.issued_date ??
-      c?.issuedDate ??
-      c?.issue_date ??
-      c?.issueDate ??
-      c?.issued_at ??
-      c?.created_at ??
-      undefined;
-    const graduation_date =
-      c?.graduation_date ?? c?.graduationDate ?? undefined;
-
-    const student_wallet =
-      c?.student_wallet ??
-      c?.recipient_wallet ??
-      c?.studentAddress ??
-      c?.recipient ??
-      c?.student?.metamask_address ??
-      c?.student?.wallet ??
-      undefined;
-    const university_wallet =
-      c?.university_wallet ??
-      c?.issuer_wallet ??
-      c?.issuerWallet ??
-      c?.universityWallet ??
-      c?.organization?.metamask_address ??
-      c?.university?.metamask_address ??
-      undefined;
-
-    const ipfs_link =
-      c?.ipfs_link ??
-      c?.ip_fs_link ??
-      c?.ipfsHash ??
-      c?.ipfs ??
-      c?.ipfsurl ??
-      c?.ipfs_url ??
-      c?.tokenURI ??
-      c?.tokenUri ??
-      undefined;
-
-    return {
-      ...(id ? { id } : {}),
-      ...(degree_name ? { degree_name } : {}),
-      ...(description ? { description } : {}),
-      ...(type ? { type } : {}),
-      ...(major ? { major } : {}),
-      ...(gpa ? { gpa } : {}),
-      ...(issued_date ? { issued_date } : {}),
-      ...(graduation_date ? { graduation_date } : {}),
-      ...(student_wallet ? { student_wallet } : {}),
-      ...(university_wallet ? { university_wallet } : {}),
-      ...(ipfs_link ? { ipfs_link } : {}),
-    } as BackendCred;
-  }, []);
-
-  // Helper to extract an array from different response shapes
-  const extractRows = useCallback((data: any): any[] => {
-    if (Array.isArray(data)) return data;
-    if (data?.rows && Array.isArray(data.rows)) return data.rows;
-    if (data?.data && Array.isArray(data.data)) return data.data;
-    if (data?.result && Array.isArray(data.result)) return data.result;
-    if (data?.items && Array.isArray(data.items)) return data.items;
-    if (data && typeof data === "object") return [data];
-    return [];
-  }, []);
 
   const fetchCreds = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const token = getStoredToken();
-      const headers: Record<string, string> = {};
-      if (token && isJwtValid(token))
-        headers["Authorization"] = `Bearer ${token}`;
-
-      const res = await fetch("http://localhost:8080/api/creds", { headers });
-
-      if (res.status === 404) {
-        setCreds([]);
-        setLoading(false);
-        return;
-      }
-
-      if (!res.ok) {
-        const t = await res.text().catch(() => "");
-        throw new Error(t || `Status ${res.status}`);
-      }
-
-      const text = await res.text();
-      let data: any = null;
-      try {
-        data = text ? JSON.parse(text) : null;
-      } catch (e) {
-        throw new Error("Invalid JSON from /api/creds");
-      }
-
-      const rows = extractRows(data);
-      const normalized = rows.map(normalizeCred);
-      setCreds(normalized);
+      const rows = await getCreds();
+      const { items, rejected } = normalizeList(
+        "creds",
+        rows,
+        normalizeCredential
+      );
+      setCreds(items);
+      setRejectedCount(rejected.length);
     } catch (err: any) {
       console.error("Error fetching minted credentials:", err);
       setError("Unable to load minted credentials");
     } finally {
       setLoading(false);
     }
-  }, [extractRows, normalizeCred]);
+  }, []);
 
   useEffect(() => {
     fetchCreds();
@@ -237,7 +212,6 @@ export default function MintedCredentialsSummary({
     } catch {}
   };
 
-  // IPFS fetch with gateway fallbacks
   const openDetails = async (c: BackendCred) => {
     setActiveCred(c);
     setIpfsData(null);
@@ -245,88 +219,45 @@ export default function MintedCredentialsSummary({
     setWalletsOpen(false);
     setDetailsOpen(true);
 
-    const rawIpfs =
-      c.ipfs_link ||
-      c.ip_fs_link ||
-      c.ipfsHash ||
-      c.ipfs ||
-      (c as any)?.ipfsurl ||
-      (c as any)?.ipfs_url ||
-      (c as any)?.tokenURI ||
-      (c as any)?.tokenUri ||
-      null;
-    if (!rawIpfs) {
-      setIpfsError("No IPFS link available for this credential");
-      return;
-    }
-
-    // normalize: accept ipfs://<hash>/path or /ipfs/<hash>/path or full http(s)
-    const normalize = (link: string) => {
-      if (/^https?:\/\//.test(link)) return link;
-      if (link.startsWith("ipfs://")) return link.replace(/^ipfs:\/\//, "");
-      if (link.startsWith("/ipfs/")) return link.replace(/^\/ipfs\//, "");
-      return link;
-    };
-
-    const normalized = normalize(rawIpfs);
-
-    // candidate gateways (try in order) - cloudflare/ipfs.io/dweb.link
-    const gateways = [
-      (h: string) => `https://cloudflare-ipfs.com/ipfs/${h}`,
-      (h: string) => `https://ipfs.io/ipfs/${h}`,
-      (h: string) => `https://dweb.link/ipfs/${h}`,
-    ];
-
-    // if the normalized value already looks like a full URL, try it first
-    const tryUrls: string[] = [];
-    if (/^https?:\/\//.test(normalized)) {
-      tryUrls.push(normalized);
-    } else {
-      // split hash and path if present
-      const [hash, ...rest] = normalized.split("/");
-      const path = rest.length ? `/${rest.join("/")}` : "";
-      for (const g of gateways) tryUrls.push(g(hash) + path);
-    }
-
     setIpfsLoading(true);
-    let success = false;
-    for (const url of tryUrls) {
-      try {
-        const r = await fetch(url, { mode: "cors" });
-        if (!r.ok) {
-          console.debug(`IPFS gateway ${url} returned ${r.status}`);
-          continue;
-        }
-        // try parsing JSON first, otherwise read text
-        const ct = r.headers.get("content-type") || "";
-        if (ct.includes("application/json") || ct.includes("text/json")) {
-          const json = await r.json();
-          setIpfsData(json);
-        } else {
-          // attempt to parse as JSON even if content-type is missing
-          const text = await r.text();
-          try {
-            const maybe = JSON.parse(text);
-            setIpfsData(maybe);
-          } catch (e) {
-            setIpfsData({ content: text });
-          }
-        }
-        success = true;
-        break;
-      } catch (err) {
-        console.debug("IPFS fetch failed for", url, err);
-        // try next gateway
-      }
+    try {
+      setIpfsData(await fetchCredentialMetadata(c));
+    } catch (e: any) {
+      setIpfsError(e?.message || "Failed to fetch IPFS content");
+    } finally {
+      setIpfsLoading(false);
     }
+  };
 
-    if (!success) {
-      setIpfsError(
-        "Failed to fetch IPFS content (CORS or gateway error). Consider using a backend proxy to avoid CORS."
+  // Reuses the metadata already loaded in the details view, otherwise fetches it
+  const openExport = async (c: BackendCred) => {
+    setExportFor(c);
+    setExportError(null);
+    if (c === activeCred && details) {
+      setExportDetails(details);
+      return;
+    }
+    setExportDetails(null);
+    setExportLoading(true);
+    try {
+      const metadata = readCredentialMetadata(
+        await fetchCredentialMetadata(c)
       );
+      if (!metadata) {
+        throw new Error("The IPFS content is not credential metadata");
+      }
+      setExportDetails(metadata);
+    } catch (e: any) {
+      setExportError(e?.message || "Failed to fetch IPFS content");
+    } finally {
+      setExportLoading(false);
     }
-
-    setIpfsLoading(false);
+  };
+  const closeExport = () => {
+    setExportFor(null);
+    setExportDetails(null);
+    setExportError(null);
+    setExportLoading(false);
   };
 
   const closeDetails = () => {
@@ -359,25 +290,7 @@ export default function MintedCredentialsSummary({
     try {
       setShareLoading(true);
       setShareError(null);
-      const token = getStoredToken();
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      };
-      const res = await fetch(
-        "http://localhost:8080/api/v1/credentials/generate-share-link",
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({ credential_id: shareFor.id, duration: hours }),
-        }
-      );
-      if (!res.ok) {
-        const t = await res.text().catch(() => "");
-        throw new Error(t || `Failed (${res.status})`);
-      }
-      const json = await res.json();
-      const url = json?.shareable_url || json?.url || json?.link || null;
+      const url = await generateShareLink(shareFor.id, hours);
       if (!url) throw new Error("No URL returned by server");
       setShareUrl(url);
     } catch (e: any) {
@@ -387,6 +300,75 @@ export default function MintedCredentialsSummary({
     }
   };
 
+  const canManage = (c: BackendCred) =>
+    !!issuerWallet &&
+    !!c.university_wallet &&
+    c.university_wallet.toLowerCase() === issuerWallet.toLowerCase();
+
+  const openStatus = (c: BackendCred) => {
+    setStatusFor(c);
+    setStatusAction(
+      credentialState(c).status === "suspended" ? "reinstated" : "suspended"
+    );
+    setStatusReason("");
+    setStatusSaving(false);
+  };
+  const closeStatus = () => {
+    setStatusFor(null);
+    setStatusReason("");
+    setStatusSaving(false);
+  };
+
+  const submitStatus = async () => {
+    if (!statusFor) return;
+    if (statusAction !== "reinstated" && !statusReason.trim()) {
+      showToast({
+        title: "Reason required",
+        description: "Explain why this credential is being withdrawn.",
+        variant: "error",
+      });
+      return;
+    }
+    try {
+      setStatusSaving(true);
+      const entry = await signRevocation({
+        credentialId: statusFor.id,
+        tokenId: statusFor.token_id,
+        action: statusAction,
+        reason: statusReason,
+      });
+      await publishRevocation(entry);
+      setCreds((prev) =>
+        prev.map((c) =>
+          c.id === statusFor.id
+            ? { ...c, revocations: [...(c.revocations ?? []), entry] }
+            : c
+        )
+      );
+      showToast({
+        title:
+          statusAction === "revoked"
+            ? "Credential revoked"
+            : statusAction === "suspended"
+            ? "Credential suspended"
+            : "Credential reinstated",
+        description: statusFor.degree_name || statusFor.id,
+        variant: "success",
+      });
+      closeStatus();
+    } catch (e: any) {
+      showToast({
+        title: "Status change failed",
+        description:
+          e?.code === "ACTION_REJECTED"
+            ? "Signature request was rejected in the wallet."
+            : e?.message || "Could not record the status change",
+        variant: "error",
+      });
+      setStatusSaving(false);
+    }
+  };
+
   const summarizeShareUrl = (u: string) => {
     try {
       const url = new URL(u);
@@ -512,11 +494,13 @@ export default function MintedCredentialsSummary({
             <CardTitle className="flex items-center gap-3 text-white">
               <Award className="h-5 w-5 text-purple-300" />
               <span className="text-lg font-semibold">
-                My Minted Credentials
+                {issuerWallet ? "Issued Credentials" : "My Minted Credentials"}
               </span>
             </CardTitle>
             <CardDescription className="text-gray-400">
-              Verified credentials minted to your wallet
+              {issuerWallet
+                ? "Credentials your institution has minted; revoke or suspend them here"
+                : "Verified credentials minted to your wallet"}
             </CardDescription>
           </div>
           <div className="hidden sm:flex items-center gap-2">
@@ -533,6 +517,13 @@ export default function MintedCredentialsSummary({
       </CardHeader>
 
       <CardContent>
+        {!loading && !error && rejectedCount > 0 && (
+          <div className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+            {rejectedCount} credential record{rejectedCount === 1 ? "" : "s"}{" "}
+            from the server could not be read and{" "}
+            {rejectedCount === 1 ? "is" : "are"} hidden.
+          </div>
+        )}
         {loading ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             {Array.from({ length: 4 }).map((_, i) => (
@@ -548,7 +539,9 @@ export default function MintedCredentialsSummary({
           <div className="p-6 text-center">
             <Award className="h-10 w-10 text-gray-500 mx-auto mb-3" />
             <p className="text-sm text-gray-300">
-              You don't have any minted credentials yet.
+              {issuerWallet
+                ? "Your institution hasn't minted any credentials yet."
+                : "You don't have any minted credentials yet."}
             </p>
             <p className="text-xs text-gray-500">
               Request or mint credentials to see them here.
@@ -556,98 +549,147 @@ export default function MintedCredentialsSummary({
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 gap-4">
-            {creds.map((c, idx) => (
-              <motion.article
-                key={c.id || (c as any).ipfs_link || (c as any).tokenURI || idx}
-                layout
-                whileHover={{ translateY: -6 }}
-                className="group relative rounded-3xl p-[1.5px] bg-gradient-to-br from-purple-600/30 via-fuchsia-500/10 to-indigo-600/30 hover:from-purple-500/40 hover:to-indigo-500/40 transition-all duration-300"
-              >
-                <div className="relative rounded-3xl bg-gradient-to-br from-gray-900/85 to-gray-900/70 border border-gray-800/70 shadow-xl overflow-hidden">
-                  <div className="pointer-events-none absolute -top-24 -right-24 h-56 w-56 rounded-full bg-purple-600/15 blur-3xl opacity-60 group-hover:opacity-80 transition" />
-
-                  {/* ID chip removed per request */}
-
-                  <div className="p-5 sm:p-6">
-                    {/* Header row */}
-                    <div className="flex items-start justify-between gap-4">
-                      <div className="min-w-0">
-                        <h3 className="text-white font-semibold text-lg sm:text-xl tracking-tight truncate">
-                          {c.degree_name || "Untitled Credential"}
-                        </h3>
-                        <div className="mt-2 flex items-center gap-2 flex-wrap">
-                          {c.major && (
-                            <Badge className="bg-purple-900/40 text-purple-200 border-purple-800 text-[11px]">
-                              {c.major}
-                            </Badge>
-                          )}
-                          {c.type && (
-                            <Badge className="bg-indigo-900/30 text-indigo-200 border-indigo-800 text-[11px]">
-                              {c.type}
-                            </Badge>
-                          )}
+            {creds.map((c, idx) => {
+              const state = credentialState(c);
+              return (
+                <motion.article
+                  key={c.id || (c as any).ipfs_link || (c as any).tokenURI || idx}
+                  layout
+                  whileHover={{ translateY: -6 }}
+                  className="group relative rounded-3xl p-[1.5px] bg-gradient-to-br from-purple-600/30 via-fuchsia-500/10 to-indigo-600/30 hover:from-purple-500/40 hover:to-indigo-500/40 transition-all duration-300"
+                >
+                  <div className="relative rounded-3xl bg-gradient-to-br from-gray-900/85 to-gray-900/70 border border-gray-800/70 shadow-xl overflow-hidden">
+                    <div className="pointer-events-none absolute -top-24 -right-24 h-56 w-56 rounded-full bg-purple-600/15 blur-3xl opacity-60 group-hover:opacity-80 transition" />
+
+                    {/* ID chip removed per request */}
+
+                    <div className="p-5 sm:p-6">
+                      {/* Header row */}
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <h3 className="text-white font-semibold text-lg sm:text-xl tracking-tight truncate">
+                            {c.degree_name || "Untitled Credential"}
+                          </h3>
+                          <div className="mt-2 flex items-center gap-2 flex-wrap">
+                            {c.major && (
+                              <Badge className="bg-purple-900/40 text-purple-200 border-purple-800 text-[11px]">
+                                {c.major}
+                              </Badge>
+                            )}
+                            {c.type && (
+                              <Badge className="bg-indigo-900/30 text-indigo-200 border-indigo-800 text-[11px]">
+                                {c.type}
+                              </Badge>
+                            )}
+                            {state.status === "revoked" && (
+                              <Badge
+                                className="bg-red-900/40 text-red-200 border-red-800 text-[11px]"
+                                title={state.reason}
+                              >
+                                <Ban className="h-3 w-3 mr-1" /> Revoked{" "}
+                                {new Date(state.at).toLocaleDateString()}
+                              </Badge>
+                            )}
+                            {state.status === "suspended" && (
+                              <Badge
+                                className="bg-orange-900/40 text-orange-200 border-orange-800 text-[11px]"
+                                title={state.reason}
+                              >
+                                <PauseCircle className="h-3 w-3 mr-1" />{" "}
+                                Suspended{" "}
+                                {new Date(state.at).toLocaleDateString()}
+                              </Badge>
+                            )}
+                          </div>
                         </div>
+                        <Button
+                          size="sm"
+                          onClick={() => openDetails(c)}
+                          className="bg-white text-black hover:bg-gray-100 shadow-sm h-8 px-3 sm:px-4"
+                        >
+                          <Eye className="h-4 w-4 mr-2" />
+                          <span className="hidden sm:inline">
+                            View Full Credential
+                          </span>
+                          <span className="sm:hidden">View</span>
+                        </Button>
                       </div>
-                      <Button
-                        size="sm"
-                        onClick={() => openDetails(c)}
-                        className="bg-white text-black hover:bg-gray-100 shadow-sm h-8 px-3 sm:px-4"
-                      >
-                        <Eye className="h-4 w-4 mr-2" />
-                        <span className="hidden sm:inline">
-                          View Full Credential
-                        </span>
-                        <span className="sm:hidden">View</span>
-                      </Button>
-                    </div>
 
-                    {/* Description */}
-                    <p className="text-sm text-gray-300 mt-3 line-clamp-2 sm:line-clamp-3">
-                      {c.description || "No description provided."}
-                    </p>
-
-                    {/* Footer row */}
-                    <div className="mt-4 flex items-center justify-between gap-2 text-xs text-gray-400">
-                      <div className="flex items-center gap-2 min-w-0">
-                        <span className="text-gray-500">Issuer</span>
-                        <span className="truncate max-w-[180px] sm:max-w-[260px] flex items-center gap-1">
-                          {c.university_wallet || c.universityName || "Unknown"}
-                          {c.university_wallet && (
-                            <button
-                              className="p-1 rounded-md hover:bg-white/10"
-                              onClick={() => copy(c.university_wallet!)}
-                              title="Copy issuer wallet"
+                      {/* Description */}
+                      <p className="text-sm text-gray-300 mt-3 line-clamp-2 sm:line-clamp-3">
+                        {c.description || "No description provided."}
+                      </p>
+                      {state.status !== "active" && state.reason && (
+                        <p className="text-xs text-gray-400 mt-2">
+                          Reason: {state.reason}
+                        </p>
+                      )}
+
+                      {/* Footer row */}
+                      <div className="mt-4 flex items-center justify-between gap-2 text-xs text-gray-400">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="text-gray-500">Issuer</span>
+                          <span className="truncate max-w-[180px] sm:max-w-[260px] flex items-center gap-1">
+                            {c.university_wallet || c.universityName || "Unknown"}
+                            {c.university_wallet && (
+                              <button
+                                className="p-1 rounded-md hover:bg-white/10"
+                                onClick={() => copy(c.university_wallet!)}
+                                title="Copy issuer wallet"
+                              >
+                                {copied === c.university_wallet ? (
+                                  <Check className="h-3.5 w-3.5 text-green-400" />
+                                ) : (
+                                  <Copy className="h-3.5 w-3.5 text-gray-300" />
+                                )}
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <div className="whitespace-nowrap">
+                            {c.issued_date
+                              ? new Date(c.issued_date).toLocaleDateString()
+                              : ""}
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-gray-700 text-gray-200 hover:bg-white/5 h-8 px-3"
+                            onClick={() => openShare(c)}
+                          >
+                            <Share2 className="h-4 w-4" />
+                            <span className="sr-only">Share</span>
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-gray-700 text-gray-200 hover:bg-white/5 h-8 px-3"
+                            onClick={() => openExport(c)}
+                            title="Export"
+                          >
+                            <FileDown className="h-4 w-4" />
+                            <span className="sr-only">Export</span>
+                          </Button>
+                          {canManage(c) && state.status !== "revoked" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="border-gray-700 text-gray-200 hover:bg-white/5 h-8 px-3"
+                              onClick={() => openStatus(c)}
+                              title="Revoke or suspend"
                             >
-                              {copied === c.university_wallet ? (
-                                <Check className="h-3.5 w-3.5 text-green-400" />
-                              ) : (
-                                <Copy className="h-3.5 w-3.5 text-gray-300" />
-                              )}
-                            </button>
+                              <ShieldAlert className="h-4 w-4" />
+                              <span className="sr-only">Change status</span>
+                            </Button>
                           )}
-                        </span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="whitespace-nowrap">
-                          {c.issued_date
-                            ? new Date(c.issued_date).toLocaleDateString()
-                            : ""}
                         </div>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="border-gray-700 text-gray-200 hover:bg-white/5 h-8 px-3"
-                          onClick={() => openShare(c)}
-                        >
-                          <Share2 className="h-4 w-4" />
-                          <span className="sr-only">Share</span>
-                        </Button>
                       </div>
                     </div>
                   </div>
-                </div>
-              </motion.article>
-            ))}
+                </motion.article>
+              );
+            })}
           </div>
         )}
 
@@ -678,9 +720,9 @@ export default function MintedCredentialsSummary({
                             activeCred.degree_name ||
                             "Credential"}
                         </h3>
-                        {getAttr("Credential Type") && (
+                        {details?.credentialType && (
                           <Badge className="bg-purple-900/40 text-purple-200 border-purple-800">
-                            {getAttr("Credential Type")}
+                            {details?.credentialType}
                           </Badge>
                         )}
                       </div>
@@ -692,17 +734,28 @@ export default function MintedCredentialsSummary({
                       <div className="text-right">
                         <div className="text-xs text-gray-400">Issued</div>
                         <div className="text-sm text-white">
-                          {getAttr("Issue Date") ||
+                          {details?.issueDate ||
                           ipfsData?.issued_date ||
                           activeCred.issued_date
                             ? new Date(
-                                (getAttr("Issue Date") ||
+                                (details?.issueDate ||
                                   ipfsData?.issued_date ||
                                   activeCred.issued_date) as string
                               ).toLocaleDateString()
                             : "—"}
                         </div>
                       </div>
+                      {details && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openExport(activeCred)}
+                          className="border-gray-700 text-gray-200 hover:bg-gray-800"
+                        >
+                          <FileDown className="h-4 w-4 mr-1" />
+                          Export
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="ghost"
@@ -734,7 +787,7 @@ export default function MintedCredentialsSummary({
                                 Issuing Institution
                               </div>
                               <div className="text-sm text-white">
-                                {getAttr("Issuing Institution") ||
+                                {details?.issuer.name ||
                                   ipfsData?.institution ||
                                   ipfsData?.universityName ||
                                   activeCred.universityName ||
@@ -750,7 +803,7 @@ export default function MintedCredentialsSummary({
                                 Recipient
                               </div>
                               <div className="text-sm text-white">
-                                {getAttr("Recipient Name") || "—"}
+                                {details?.recipient.name || "—"}
                               </div>
                             </div>
                           </div>
@@ -760,7 +813,7 @@ export default function MintedCredentialsSummary({
                             <div>
                               <div className="text-xs text-gray-400">Major</div>
                               <div className="text-sm text-white">
-                                {getAttr("Major") ||
+                                {details?.major ||
                                   ipfsData?.major ||
                                   activeCred.major ||
                                   "—"}
@@ -773,7 +826,7 @@ export default function MintedCredentialsSummary({
                             <div>
                               <div className="text-xs text-gray-400">GPA</div>
                               <div className="text-sm text-white">
-                                {getAttr("GPA") ||
+                                {details?.gpa ||
                                   ipfsData?.gpa ||
                                   (ipfsData?.score as any) ||
                                   "—"}
@@ -788,7 +841,7 @@ export default function MintedCredentialsSummary({
                                 Credential ID
                               </div>
                               <div className="text-sm text-white break-words">
-                                {getAttr("Credential ID") ||
+                                {details?.credentialId ||
                                   ipfsData?.id ||
                                   activeCred.id}
                               </div>
@@ -802,7 +855,7 @@ export default function MintedCredentialsSummary({
                                 Accreditation Body
                               </div>
                               <div className="text-sm text-white">
-                                {getAttr("Accreditation Body") ||
+                                {details?.accreditationBody ||
                                   ipfsData?.accreditation ||
                                   ipfsData?.authority ||
                                   "—"}
@@ -817,11 +870,11 @@ export default function MintedCredentialsSummary({
                                 Issue Date
                               </div>
                               <div className="text-sm text-white">
-                                {getAttr("Issue Date") ||
+                                {details?.issueDate ||
                                 ipfsData?.issued_date ||
                                 activeCred.issued_date
                                   ? new Date(
-                                      (getAttr("Issue Date") ||
+                                      (details?.issueDate ||
                                         ipfsData?.issued_date ||
                                         activeCred.issued_date) as string
                                     ).toLocaleDateString()
@@ -837,11 +890,11 @@ export default function MintedCredentialsSummary({
                                 Graduation Date
                               </div>
                               <div className="text-sm text-white">
-                                {getAttr("Graduation Date") ||
+                                {details?.graduationDate ||
                                 ipfsData?.graduation_date ||
                                 activeCred.graduation_date
                                   ? new Date(
-                                      (getAttr("Graduation Date") ||
+                                      (details?.graduationDate ||
                                         ipfsData?.graduation_date ||
                                         activeCred.graduation_date) as string
                                     ).toLocaleDateString()
@@ -894,7 +947,7 @@ export default function MintedCredentialsSummary({
                                     </div>
                                     <div className="flex items-center justify-between gap-2">
                                       <div className="break-words max-w-full">
-                                        {getAttr("Recipient Wallet") ||
+                                        {details?.recipient.wallet ||
                                           ipfsData?.student_wallet ||
                                           activeCred.student_wallet ||
                                           "—"}
@@ -905,7 +958,7 @@ export default function MintedCredentialsSummary({
                                         onClick={() =>
                                           copyToClipboard(
                                             String(
-                                              getAttr("Recipient Wallet") ||
+                                              details?.recipient.wallet ||
                                                 ipfsData?.student_wallet ||
                                                 activeCred.student_wallet ||
                                                 ""
@@ -924,7 +977,7 @@ export default function MintedCredentialsSummary({
                                     </div>
                                     <div className="flex items-center justify-between gap-2">
                                       <div className="break-words max-w-full">
-                                        {getAttr("Issuer Wallet") ||
+                                        {details?.issuer.wallet ||
                                           ipfsData?.university_wallet ||
                                           activeCred.university_wallet ||
                                           "—"}
@@ -935,7 +988,7 @@ export default function MintedCredentialsSummary({
                                         onClick={() =>
                                           copyToClipboard(
                                             String(
-                                              getAttr("Issuer Wallet") ||
+                                              details?.issuer.wallet ||
                                                 ipfsData?.university_wallet ||
                                                 activeCred.university_wallet ||
                                                 ""
@@ -954,56 +1007,54 @@ export default function MintedCredentialsSummary({
                         </div>
 
                         <div className="p-4 rounded-xl bg-gradient-to-br from-gray-900/85 to-gray-900/75 border border-gray-800 text-sm">
-                          <div className="text-xs text-gray-400">Signature</div>
-                          <div className="mt-2 flex items-center justify-between">
-                            <div className="text-sm text-white break-words">
-                              {ipfsData?.custom_fields?.deanSignatureHash ||
+                          <div className="text-xs text-gray-400">
+                            Issuer Signature
+                          </div>
+                          {issuerSignature?.status === "valid" ? (
+                            <div className="mt-2 flex items-center justify-between">
+                              <div className="min-w-0">
+                                <div className="text-sm text-white break-words">
+                                  {issuerSignature.signer}
+                                </div>
+                                <div className="text-xs text-green-400">
+                                  EIP-712 signature matches the metadata
+                                </div>
+                              </div>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() =>
+                                  copyToClipboard(details?.proof?.signature || "")
+                                }
+                                title="Copy signature"
+                              >
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ) : issuerSignature?.status === "invalid" ? (
+                            <div className="mt-2 text-sm text-red-400">
+                              {issuerSignature.reason}
+                            </div>
+                          ) : (
+                            <div className="mt-2 text-sm text-gray-300 break-words">
+                              {/* Credentials minted before signing carry a free-text dean signature */}
+                              {details?.deanSignatureHash ||
                                 ipfsData?.dean_sig ||
-                                activeCred?.dean_sig ||
-                                "—"}
+                                "Not signed"}
                             </div>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() =>
-                                copyToClipboard(
-                                  String(
-                                    ipfsData?.custom_fields
-                                      ?.deanSignatureHash ||
-                                      ipfsData?.dean_sig ||
-                                      activeCred?.dean_sig ||
-                                      ""
-                                  )
-                                )
-                              }
-                            >
-                              <Copy className="h-4 w-4" />
-                            </Button>
-                          </div>
+                          )}
                         </div>
 
                         {/* Only render additional attributes container when open and available to avoid blank spacing */}
-                        {Array.isArray(ipfsData?.attributes) &&
+                        {details &&
                           (() => {
-                            const known = [
-                              "Credential Type",
-                              "Issuing Institution",
-                              "Issuer Wallet",
-                              "Recipient Name",
-                              "Recipient Wallet",
-                              "Issue Date",
-                              "Graduation Date",
-                              "Major",
-                              "GPA",
-                              "Credential ID",
-                              "Accreditation Body",
-                            ];
-                            const extra = ipfsData!.attributes.filter(
-                              (a: any) => {
-                                const k = a?.trait_type || a?.traitType;
-                                return k && !known.includes(k);
-                              }
-                            );
+                            // Batch year is modelled but has no slot above
+                            const extra = details.batchYear
+                              ? [
+                                  { label: "Batch Year", value: details.batchYear },
+                                  ...details.extra,
+                                ]
+                              : details.extra;
                             if (!additionalOpen || extra.length === 0)
                               return null;
                             return (
@@ -1018,18 +1069,16 @@ export default function MintedCredentialsSummary({
                                       className="overflow-hidden"
                                     >
                                       <div className="mt-3 space-y-2 text-sm text-gray-300 max-h-40 overflow-auto pr-1">
-                                        {extra.map((a: any, idx: number) => (
+                                        {extra.map((a, idx) => (
                                           <div
-                                            key={`${
-                                              a?.trait_type || a?.traitType
-                                            }-${idx}`}
+                                            key={`${a.label}-${idx}`}
                                             className="flex items-start gap-2"
                                           >
                                             <div className="text-xs text-gray-400 w-36">
-                                              {a?.trait_type || a?.traitType}
+                                              {a.label}
                                             </div>
                                             <div className="text-sm text-white break-words">
-                                              {String(a?.value ?? "—")}
+                                              {a.value}
                                             </div>
                                           </div>
                                         ))}
@@ -1168,6 +1217,134 @@ export default function MintedCredentialsSummary({
             </motion.div>
           </div>
         )}
+        {exportFor && (
+          <CredentialExport
+            title={exportFor.degree_name || "Credential"}
+            details={exportDetails}
+            anchor={{
+              recordId: exportFor.id,
+              tokenId: exportFor.token_id,
+              txHash: exportFor.tx_hash,
+              tokenURI: exportFor.ipfs_link,
+            }}
+            loading={exportLoading}
+            error={exportError}
+            onClose={closeExport}
+          />
+        )}
+        {/* Revoke / suspend modal */}
+        {statusFor && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+            <div
+              className="absolute inset-0 bg-black/70 backdrop-blur-sm z-40"
+              onClick={statusSaving ? undefined : closeStatus}
+            />
+            <motion.div
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="relative z-50 w-full max-w-md"
+            >
+              <div className="bg-gradient-to-br from-gray-950 to-gray-900 border border-gray-800 rounded-2xl overflow-hidden shadow-2xl">
+                <div className="p-5 border-b border-gray-800 flex items-center justify-between">
+                  <div>
+                    <div className="text-white font-semibold">
+                      Change Credential Status
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {statusFor.degree_name || "Credential"}
+                    </div>
+                  </div>
+                  <button
+                    onClick={closeStatus}
+                    disabled={statusSaving}
+                    className="text-gray-400 hover:text-white p-1 rounded-md"
+                  >
+                    <XIcon className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="p-5 space-y-4">
+                  <div className="grid grid-cols-2 gap-2">
+                    {credentialState(statusFor).status === "suspended" ? (
+                      <Button
+                        variant={
+                          statusAction === "reinstated" ? "default" : "outline"
+                        }
+                        className={
+                          statusAction === "reinstated"
+                            ? "bg-white text-black hover:bg-gray-100"
+                            : "border-gray-700 text-gray-200 hover:bg-white/5"
+                        }
+                        onClick={() => setStatusAction("reinstated")}
+                      >
+                        Reinstate
+                      </Button>
+                    ) : (
+                      <Button
+                        variant={
+                          statusAction === "suspended" ? "default" : "outline"
+                        }
+                        className={
+                          statusAction === "suspended"
+                            ? "bg-orange-600 text-white hover:bg-orange-500"
+                            : "border-gray-700 text-gray-200 hover:bg-white/5"
+                        }
+                        onClick={() => setStatusAction("suspended")}
+                      >
+                        <PauseCircle className="h-4 w-4 mr-2" /> Suspend
+                      </Button>
+                    )}
+                    <Button
+                      variant={statusAction === "revoked" ? "default" : "outline"}
+                      className={
+                        statusAction === "revoked"
+                          ? "bg-red-600 text-white hover:bg-red-500"
+                          : "border-gray-700 text-gray-200 hover:bg-white/5"
+                      }
+                      onClick={() => setStatusAction("revoked")}
+                    >
+                      <Ban className="h-4 w-4 mr-2" /> Revoke
+                    </Button>
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {statusAction === "revoked"
+                      ? "Revocation is permanent. Verifiers will show this credential as revoked."
+                      : statusAction === "suspended"
+                      ? "Verifiers will show this credential as suspended until you reinstate it."
+                      : "Verifiers will treat this credential as valid again."}
+                  </div>
+                  <Textarea
+                    value={statusReason}
+                    onChange={(e) => setStatusReason(e.target.value)}
+                    placeholder={
+                      statusAction === "reinstated"
+                        ? "Note (optional)"
+                        : "Reason (shown to verifiers)"
+                    }
+                    className="bg-gray-900 border-gray-700 text-white placeholder:text-gray-500"
+                    maxLength={280}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      className="border-gray-700 text-gray-200 hover:bg-white/5"
+                      onClick={closeStatus}
+                      disabled={statusSaving}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      className="bg-white text-black hover:bg-gray-100"
+                      onClick={submitStatus}
+                      disabled={statusSaving}
+                    >
+                      {statusSaving ? "Waiting for signature…" : "Sign & Save"}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
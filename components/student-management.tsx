@@ -30,23 +30,11 @@ import {
   Check,
 } from "lucide-react";
 import { motion } from "framer-motion";
-import { getStoredToken } from "@/components/auth/jwt";
+import { getStudents } from "@/lib/api/client";
+import { normalizeList, normalizeStudent } from "@/lib/api/schemas";
 import UserInfoModal from "@/components/user-info-modal";
-
-interface Student {
-  id: string;
-  name: string;
-  universityId: string;
-  walletAddress: string;
-  eligibilityStatus:
-    | "graduated"
-    | "eligible"
-    | "pending_review"
-    | "not_eligible";
-  mintingStatus: "none" | "pending" | "minting" | "minted" | "failed";
-  joinDate: string;
-  lastActivity: string;
-}
+import type { EligibilityStatus, Student } from "@/lib/domain/types";
+import { canMint, mintBlockedReason } from "@/lib/domain/status";
 
 interface StudentManagementProps {
   students: Student[];
@@ -82,20 +70,14 @@ export default function StudentManagement({
       setLoading(true);
       setFetchError(null);
       try {
-        const token = getStoredToken();
-        const res = await fetch("http://localhost:8080/students", {
-          headers: {
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-        });
-
-        if (!res.ok)
-          throw new Error(`Failed to fetch students (${res.status})`);
+        const { items, rejected } = normalizeList(
+          "students",
+          await getStudents(),
+          normalizeStudent
+        );
 
-        const data: any[] = await res.json();
-
-        const mapped: Student[] = data.map((s) => ({
-          id: String(s.id),
+        const mapped: Student[] = items.map((s) => ({
+          id: s.id,
           name:
             `${s.first_name || ""} ${s.last_name || ""}`.trim() ||
             s.email ||
@@ -103,12 +85,19 @@ export default function StudentManagement({
             `Student ${s.id}`,
           universityId: s.student_id || "",
           walletAddress: s.metamask_address || "",
-          eligibilityStatus: s.is_verified ? "eligible" : "pending_review",
-          mintingStatus: "none",
+          eligibility: {
+            status: s.is_verified ? "eligible" : "pending_review",
+          },
+          minting: { status: "none" },
           joinDate: s.created_at || "",
           lastActivity: s.last_activity || "",
         }));
 
+        if (mounted && rejected.length > 0) {
+          setFetchError(
+            `${rejected.length} student record(s) could not be read and were skipped.`
+          );
+        }
         if (mounted) setStudents(mapped);
       } catch (err) {
         console.error("Error loading students:", err);
@@ -135,7 +124,7 @@ export default function StudentManagement({
       student.walletAddress.toLowerCase().includes(searchTerm.toLowerCase());
 
     const matchesFilter =
-      statusFilter === "all" || student.eligibilityStatus === statusFilter;
+      statusFilter === "all" || student.eligibility.status === statusFilter;
 
     return matchesSearch && matchesFilter;
   });
@@ -147,7 +136,7 @@ export default function StudentManagement({
       setStudents(
         students.map((student) =>
           student.id === studentId
-            ? { ...student, mintingStatus: "pending" as const }
+            ? { ...student, minting: { status: "pending" as const } }
             : student
         )
       );
@@ -157,7 +146,7 @@ export default function StudentManagement({
 
   const handleStatusUpdate = async (
     studentId: string,
-    newStatus: Student["eligibilityStatus"]
+    newStatus: EligibilityStatus
   ) => {
     setLoading(true);
     // Mock API call
@@ -165,7 +154,7 @@ export default function StudentManagement({
       setStudents(
         students.map((student) =>
           student.id === studentId
-            ? { ...student, eligibilityStatus: newStatus }
+            ? { ...student, eligibility: { status: newStatus } }
             : student
         )
       );
@@ -369,7 +358,8 @@ export default function StudentManagement({
                               <Button
                                 size="sm"
                                 onClick={() => onMintCredential(student)}
-                                disabled={loading}
+                                disabled={loading || !canMint(student)}
+                                title={mintBlockedReason(student) ?? undefined}
                                 className="bg-gradient-to-r from-purple-600 to-purple-700 text-white hover:from-purple-700 hover:to-purple-800 transition-all duration-200 transform hover:scale-105 shadow-lg shadow-purple-500/25"
                               >
                                 <Award className="h-4 w-4 mr-1" />
@@ -446,7 +436,8 @@ export default function StudentManagement({
                     <Button
                       size="sm"
                       onClick={() => onMintCredential(student)}
-                      disabled={loading}
+                      disabled={loading || !canMint(student)}
+                      title={mintBlockedReason(student) ?? undefined}
                       className="bg-gradient-to-r from-purple-600 to-purple-700 text-white hover:from-purple-700 hover:to-purple-800"
                     >
                       Mint
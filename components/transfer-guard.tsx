@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  type TransferAttempt,
+  installTransferGuard,
+} from "@/lib/chain/soulbound";
+
+const ACTION_TEXT: Record<string, string> = {
+  approve: "approve another wallet to move",
+  setApprovalForAll: "let another wallet move all of",
+  transferFrom: "transfer",
+  safeTransferFrom: "transfer",
+};
+
+// Warns before the wallet signs anything that would move a credential NFT out of
+// the holder's wallet. Mount once on pages where the student's wallet is connected.
+export default function TransferGuard() {
+  const [attempt, setAttempt] = useState<TransferAttempt | null>(null);
+  const resolveRef = useRef<((proceed: boolean) => void) | null>(null);
+
+  useEffect(
+    () =>
+      installTransferGuard(
+        (next) =>
+          new Promise<boolean>((resolve) => {
+            resolveRef.current?.(false);
+            resolveRef.current = resolve;
+            setAttempt(next);
+          })
+      ),
+    []
+  );
+
+  const decide = (proceed: boolean) => {
+    resolveRef.current?.(proceed);
+    resolveRef.current = null;
+    setAttempt(null);
+  };
+
+  return (
+    <Dialog open={!!attempt} onOpenChange={(open) => !open && decide(false)}>
+      <DialogContent className="max-w-md bg-gradient-to-br from-gray-950 to-gray-900 border border-amber-700/50 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-amber-300">
+            <AlertTriangle className="h-5 w-5" />
+            Credentials are non-transferable
+          </DialogTitle>
+          <DialogDescription className="text-gray-300">
+            This transaction would{" "}
+            {attempt ? ACTION_TEXT[attempt.method] : "transfer"}{" "}
+            {attempt?.tokenId
+              ? `credential #${attempt.tokenId}`
+              : "your credentials"}
+            {attempt?.counterparty ? ` (to ${attempt.counterparty})` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <p className="text-sm text-gray-400">
+          Your credentials are bound to the wallet they were issued to.
+          Verifiers flag any credential that has been moved, so a transferred
+          credential will no longer verify as yours or anyone else&apos;s.
+        </p>
+        <DialogFooter className="mt-2">
+          <Button
+            variant="outline"
+            className="border-gray-700 text-gray-200 hover:bg-white/5"
+            onClick={() => decide(true)}
+          >
+            Continue anyway
+          </Button>
+          <Button
+            className="bg-white text-black hover:bg-gray-100"
+            onClick={() => decide(false)}
+          >
+            Cancel transaction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,17 +16,7 @@ import {
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { useState } from "react";
-
-interface University {
-  id: string;
-  name: string;
-  description: string;
-  website: string;
-  walletAddress: string;
-  verified: boolean;
-  adminName: string;
-  adminRole: string;
-}
+import type { University } from "@/lib/domain/types";
 
 interface UniversityProfileProps {
   university: University;
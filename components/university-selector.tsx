@@ -11,7 +11,18 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Search, Building2, Shield } from "lucide-react";
-import { getStoredToken } from "@/components/auth/jwt";
+import {
+  ApiError,
+  getSpecificUniversity,
+  getUniversities,
+  requestMint,
+  rowsOf,
+} from "@/lib/api/client";
+import {
+  normalizeList,
+  normalizeUniversity,
+  type UniversityRecord,
+} from "@/lib/api/schemas";
 import {
   Dialog,
   DialogContent,
@@ -21,40 +32,11 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { useToast } from "@/components/ui/toast";
-
-// Backend university shape
-interface BackendUniversity {
-  id: number;
-  metamask_address: string;
-  acad_email?: string;
-  org_name: string;
-  org_type?: string;
-  org_url?: string;
-  org_desc?: string;
-  country?: string;
-  state?: string;
-  city?: string;
-  address?: string;
-  postal_code?: string;
-  is_verified: boolean;
-  total_students?: number;
-  created_at?: string;
-  updated_at?: string;
-  Account?: any;
-}
-
-// UI shape expected by parent (keeps previous contract)
-interface University {
-  id: string;
-  name: string;
-  logo: string;
-  walletAddress: string;
-  verified: boolean;
-}
+import type { UniversitySummary } from "@/lib/domain/types";
 
 interface UniversitySelectorProps {
-  onUniversitySelect: (university: University) => void;
-  selectedUniversity: University | null;
+  onUniversitySelect: (university: UniversitySummary) => void;
+  selectedUniversity: UniversitySummary | null;
 }
 
 export default function UniversitySelector({
@@ -63,107 +45,35 @@ export default function UniversitySelector({
 }: UniversitySelectorProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [walletAddress, setWalletAddress] = useState("");
-  const [universities, setUniversities] = useState<BackendUniversity[]>([]);
+  const [universities, setUniversities] = useState<UniversityRecord[]>([]);
   const [filteredUniversities, setFilteredUniversities] = useState<
-    BackendUniversity[]
+    UniversityRecord[]
   >([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [expanded, setExpanded] = useState<BackendUniversity | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [expanded, setExpanded] = useState<UniversityRecord | null>(null);
 
   // New: Portal modal state
   const [portalOpen, setPortalOpen] = useState(false);
   const [portalLoading, setPortalLoading] = useState(false);
-  const [portalUni, setPortalUni] = useState<BackendUniversity | null>(null);
-  const [portalRaw, setPortalRaw] = useState<any>(null);
+  const [portalUni, setPortalUni] = useState<UniversityRecord | null>(null);
   const { showToast } = useToast();
 
-  // Helpers to parse and normalize backend responses of varying shape
-  const extractOne = (data: any): any => {
-    if (!data) return null;
-    if (Array.isArray(data)) return data[0] ?? null;
-    if (data?.rows && Array.isArray(data.rows)) return data.rows[0] ?? null;
-    if (data?.data && Array.isArray(data.data)) return data.data[0] ?? null;
-    if (data?.result && Array.isArray(data.result))
-      return data.result[0] ?? null;
-    if (data?.university) return data.university;
-    if (data?.organization) return data.organization;
-    return data;
-  };
-
-  const normalizeUni = (u: any): BackendUniversity => {
-    if (!u || typeof u !== "object")
-      return {
-        id: 0,
-        metamask_address: "",
-        org_name: "",
-        is_verified: false,
-      } as BackendUniversity;
-
-    const id = u.id ?? u.ID ?? u._id ?? u.uuid ?? 0;
-    const metamask_address =
-      u.metamask_address ||
-      u.wallet ||
-      u.address ||
-      u.metamask ||
-      u.account ||
-      "";
-    const org_name =
-      u.org_name || u.name || u.organization_name || u.title || "";
-    const org_type = u.org_type || u.type || u.category || undefined;
-    const org_url = u.org_url || u.website || u.url || undefined;
-    const org_desc = u.org_desc || u.description || u.desc || undefined;
-    const country = u.country || u.location?.country || undefined;
-    const state = u.state || u.location?.state || undefined;
-    const city = u.city || u.location?.city || undefined;
-    const address = u.address || u.street || u.location?.address || undefined;
-    const postal_code = u.postal_code || u.zip || u.postal || undefined;
-    const is_verified = !!(
-      u.is_verified ??
-      u.verified ??
-      u.isVerified ??
-      false
-    );
-    const total_students =
-      u.total_students ?? u.students ?? u.totalStudents ?? undefined;
-
-    return {
-      id,
-      metamask_address,
-      org_name,
-      org_type,
-      org_url,
-      org_desc,
-      country,
-      state,
-      city,
-      address,
-      postal_code,
-      is_verified,
-      total_students,
-    } as BackendUniversity;
-  };
-
   // Fetch universities from API
   useEffect(() => {
     const fetchUniversities = async () => {
       setLoading(true);
       setError(null);
       try {
-        const token = getStoredToken();
-        const res = await fetch("http://localhost:8080/universities", {
-          headers: {
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-        });
-
-        if (!res.ok) {
-          throw new Error(`Failed to fetch (${res.status})`);
-        }
-
-        const data: BackendUniversity[] = await res.json();
-        setUniversities(data);
-        setFilteredUniversities(data);
+        const { items, rejected } = normalizeList(
+          "universities",
+          await getUniversities(),
+          normalizeUniversity
+        );
+        setUniversities(items);
+        setFilteredUniversities(items);
+        setSkippedCount(rejected.length);
       } catch (err: any) {
         console.error("Error fetching universities:", err);
         setError("Unable to load universities. Please try again later.");
@@ -194,38 +104,30 @@ export default function UniversitySelector({
 
     setPortalLoading(true);
     try {
-      const token = getStoredToken();
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      };
-      const payload = { metamask_address: walletAddress.trim() };
-
-      // Use POST with JSON body (browsers do not allow GET bodies)
-      const res = await fetch("http://localhost:8080/api/specific-university", {
-        method: "POST",
-        mode: "cors",
-        cache: "no-store",
-        headers,
-        body: JSON.stringify(payload),
-      });
-
-      if (res.ok) {
-        const text = await res.text();
-        const json = text ? JSON.parse(text) : null;
-        const first = extractOne(json);
-        const normalized = normalizeUni(first);
-        setPortalUni(normalized);
-        setPortalRaw(first);
-        setPortalOpen(true);
+      const json = await getSpecificUniversity(walletAddress.trim());
+      // A single record, or a list of them
+      const body =
+        (json as any)?.university ?? (json as any)?.organization ?? json;
+      const [first = body] = rowsOf<unknown>(body);
+      const result = normalizeUniversity(first);
+      if (!result.ok) {
+        console.warn("[specific-university] unreadable payload", result);
+        alert(
+          `The server returned university details we couldn't read (${result.issues.join(
+            "; "
+          )})`
+        );
         return;
       }
-
-      alert(`Failed to fetch university details (${res.status})`);
+      setPortalUni(result.value);
+      setPortalOpen(true);
     } catch (err) {
       console.error("specific-university fetch failed", err);
-      alert("Failed to fetch university details");
+      alert(
+        err instanceof ApiError
+          ? `Failed to fetch university details (${err.status})`
+          : "Failed to fetch university details"
+      );
     } finally {
       setPortalLoading(false);
     }
@@ -245,20 +147,11 @@ export default function UniversitySelector({
       const parsed = raw ? JSON.parse(raw) : null;
       const student_wallet = parsed?.address || "";
       const university_wallet = portalUni.metamask_address;
-      const token = getStoredToken();
       if (!student_wallet || !university_wallet) {
         alert("Missing wallet information");
         return;
       }
-      const r = await fetch("http://localhost:8080/api/pending/request", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ student_wallet, university_wallet }),
-      });
-      if (!r.ok) throw new Error(`Request failed (${r.status})`);
+      await requestMint(student_wallet, university_wallet);
 
       showToast({
         title: "Request sent",
@@ -272,12 +165,12 @@ export default function UniversitySelector({
     }
   };
 
-  const handleRowClick = (uni: BackendUniversity) => {
+  const handleRowClick = (uni: UniversityRecord) => {
     // toggle expanded
     setExpanded((prev) => (prev?.id === uni.id ? null : uni));
   };
 
-  const handleSelectFromDetails = (uni: BackendUniversity) => {
+  const handleSelectFromDetails = (uni: UniversityRecord) => {
     onUniversitySelect({
       id: String(uni.id),
       name: uni.org_name,
@@ -294,20 +187,6 @@ export default function UniversitySelector({
     return parts.map((p) => p[0]?.toUpperCase()).join("") || "U";
   };
 
-  // Title and description fallbacks
-  const titleFrom = (u: BackendUniversity | null, raw: any) =>
-    u?.org_name ||
-    raw?.org_name ||
-    raw?.name ||
-    raw?.organization?.name ||
-    "University";
-  const walletFrom = (u: BackendUniversity | null, raw: any) =>
-    u?.metamask_address ||
-    raw?.metamask_address ||
-    raw?.wallet ||
-    raw?.address ||
-    "";
-
   return (
     <Card className="bg-gradient-to-br from-gray-900/90 via-black/80 to-purple-900/20 border border-gray-800/60 backdrop-blur-xl shadow-2xl">
       <CardHeader>
@@ -341,6 +220,13 @@ export default function UniversitySelector({
               </p>
             )}
             {error && <p className="text-center text-red-400 py-4">{error}</p>}
+            {!loading && skippedCount > 0 && (
+              <p className="text-center text-xs text-amber-300 py-2">
+                {skippedCount} universit{skippedCount === 1 ? "y" : "ies"} from
+                the server could not be read and{" "}
+                {skippedCount === 1 ? "is" : "are"} not listed.
+              </p>
+            )}
 
             {filteredUniversities.map((university) => (
               <div
@@ -505,19 +391,17 @@ export default function UniversitySelector({
         <DialogContent className="max-w-2xl bg-gradient-to-br from-gray-950 to-gray-900 border border-gray-800 text-white">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2 text-white">
-              {titleFrom(portalUni, portalRaw)}
-              {(portalUni?.is_verified ||
-                portalRaw?.is_verified ||
-                portalRaw?.verified) && (
+              {portalUni?.org_name || "University"}
+              {portalUni?.is_verified && (
                 <Shield className="h-5 w-5 text-emerald-400" />
               )}
             </DialogTitle>
             <DialogDescription className="font-mono text-xs text-gray-400">
-              {walletFrom(portalUni, portalRaw)
-                ? `${walletFrom(portalUni, portalRaw).slice(
+              {portalUni
+                ? `${portalUni.metamask_address.slice(
                     0,
                     10
-                  )}...${walletFrom(portalUni, portalRaw).slice(-8)}`
+                  )}...${portalUni.metamask_address.slice(-8)}`
                 : ""}
             </DialogDescription>
           </DialogHeader>
@@ -527,29 +411,19 @@ export default function UniversitySelector({
               <div>
                 <p className="text-gray-400">Academic Email</p>
                 <p className="text-gray-200">
-                  {portalUni?.acad_email ||
-                    portalRaw?.acad_email ||
-                    portalRaw?.email ||
-                    "—"}
+                  {portalUni?.acad_email || "—"}
                 </p>
               </div>
               <div>
                 <p className="text-gray-400">Website</p>
                 <p className="text-gray-200 break-all">
-                  {portalUni?.org_url ||
-                    portalRaw?.org_url ||
-                    portalRaw?.website ||
-                    portalRaw?.url ||
-                    "—"}
+                  {portalUni?.org_url || "—"}
                 </p>
               </div>
               <div className="md:col-span-2">
                 <p className="text-gray-400">Description</p>
                 <p className="text-gray-200">
-                  {portalUni?.org_desc ||
-                    portalRaw?.org_desc ||
-                    portalRaw?.description ||
-                    "—"}
+                  {portalUni?.org_desc || "—"}
                 </p>
               </div>
               <div>
@@ -563,40 +437,20 @@ export default function UniversitySelector({
               <div>
                 <p className="text-gray-400">Address / Postal</p>
                 <p className="text-gray-200">
-                  {
-                    (portalUni?.address ||
-                      portalRaw?.address ||
-                      portalRaw?.location?.address ||
-                      "—") as string
-                  }
-                  {portalUni?.postal_code ||
-                  portalRaw?.postal_code ||
-                  portalRaw?.zip
-                    ? ` / ${
-                        portalUni?.postal_code ||
-                        portalRaw?.postal_code ||
-                        portalRaw?.zip
-                      }`
-                    : ""}
+                  {portalUni?.address || "—"}
+                  {portalUni?.postal_code ? ` / ${portalUni.postal_code}` : ""}
                 </p>
               </div>
               <div>
                 <p className="text-gray-400">Students</p>
                 <p className="text-gray-200">
-                  {portalUni?.total_students ??
-                    portalRaw?.total_students ??
-                    portalRaw?.students ??
-                    "—"}
+                  {portalUni?.total_students ?? "—"}
                 </p>
               </div>
               <div>
                 <p className="text-gray-400">Verified</p>
                 <p className="text-gray-200">
-                  {portalUni?.is_verified ??
-                  portalRaw?.is_verified ??
-                  portalRaw?.verified
-                    ? "Yes"
-                    : "No"}
+                  {portalUni?.is_verified ? "Yes" : "No"}
                 </p>
               </div>
             </div>
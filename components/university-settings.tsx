@@ -7,19 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
 import { Building2, Wallet, Shield, Save, Upload } from "lucide-react"
-
-interface University {
-  id: string
-  name: string
-  description: string
-  website: string
-  walletAddress: string
-  verified: boolean
-  adminName: string
-  adminRole: string
-  logo: string
-  banner: string
-}
+import type { University } from "@/lib/domain/types"
 
 interface UniversitySettingsProps {
   university: University
@@ -17,29 +17,16 @@ import {
   FileText,
   Shield,
 } from "lucide-react";
-import { getStoredToken } from "@/components/auth/jwt";
+import { requestMint } from "@/lib/api/client";
 import { useToast } from "@/components/ui/toast";
-
-interface University {
-  id: string;
-  name: string;
-  logo: string;
-  walletAddress: string;
-  verified: boolean;
-}
-
-interface Credential {
-  id: string;
-  name: string;
-  issueDate: string;
-  universityId: string;
-  universityName: string;
-  status: "eligible" | "pending" | "minted" | "rejected";
-  description?: string;
-}
+import type {
+  Credential,
+  CredentialStatus,
+  UniversitySummary,
+} from "@/lib/domain/types";
 
 interface UniversitySpecificViewProps {
-  university: University;
+  university: UniversitySummary;
   credentials: Credential[];
   loading: boolean;
   userProfile: UserProfile | null;
@@ -69,7 +56,7 @@ export default function UniversitySpecificView({
   );
   const { showToast } = useToast();
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: CredentialStatus) => {
     switch (status) {
       case "eligible":
         return <Award className="h-4 w-4 text-green-400" />;
@@ -93,20 +80,11 @@ export default function UniversitySpecificView({
       const parsed = raw ? JSON.parse(raw) : null;
       const student_wallet = parsed?.address || "";
       const university_wallet = university.walletAddress;
-      const token = getStoredToken();
       if (!student_wallet || !university_wallet) {
         alert("Missing wallet information");
         return;
       }
-      const res = await fetch("http://localhost:8080/api/pending/request", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ student_wallet, university_wallet }),
-      });
-      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      await requestMint(student_wallet, university_wallet);
 
       showToast({
         title: "Request sent",
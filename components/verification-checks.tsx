@@ -0,0 +1,55 @@
+"use client";
+
+import React from "react";
+import {
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  Loader2,
+} from "lucide-react";
+import type { CheckStatus, VerificationCheck } from "@/lib/chain/verify";
+
+const checkStyle: Record<
+  CheckStatus,
+  { icon: React.ElementType; color: string; spin?: boolean }
+> = {
+  pass: { icon: CheckCircle2, color: "text-green-400" },
+  fail: { icon: XCircle, color: "text-red-400" },
+  warn: { icon: AlertTriangle, color: "text-amber-400" },
+  pending: { icon: Loader2, color: "text-gray-400", spin: true },
+};
+
+// Per-check breakdown of an on-chain credential verification
+export default function VerificationChecks({
+  checks,
+}: {
+  checks: VerificationCheck[];
+}) {
+  return (
+    <div className="mt-4 rounded-xl border border-white/10 bg-gray-900/40 p-4">
+      <div className="text-xs uppercase tracking-wide text-gray-400 mb-3">
+        On-chain checks
+      </div>
+      <ul className="space-y-3">
+        {checks.map((c) => {
+          const style = checkStyle[c.status];
+          return (
+            <li key={c.id} className="flex items-start gap-3 text-sm">
+              {React.createElement(style.icon, {
+                className: `h-4 w-4 mt-0.5 shrink-0 ${style.color} ${
+                  style.spin ? "animate-spin" : ""
+                }`,
+              })}
+              <div className="min-w-0">
+                <div className="text-white">{c.label}</div>
+                <div className="text-xs text-gray-400 break-all">
+                  {c.detail}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Wallet, LogOut, Copy, Check } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { ethers } from "ethers";
+import { getNonce, metamaskLogin } from "@/lib/api/client";
 // import { usePrivy } from "@privy-io/react-auth";
 import { saveWalletSession } from "@/components/auth/jwt";
 
@@ -69,22 +70,19 @@ export default function WalletStatus({
       }
       const signer = await provider.getSigner();
       const address = await signer.getAddress();
-      const nonceRes = await fetch("http://localhost:8080/getnonce", {
-        method: "POST",
-        body: JSON.stringify({ metamask_address: address }),
-        headers: { "Content-Type": "application/json" },
-      });
-      if (!nonceRes.ok) throw new Error("Failed to get nonce");
-      const { nonce } = await nonceRes.json();
-      const signature = await signer.signMessage(nonce);
-      const loginRes = await fetch("http://localhost:8080/auth/metamasklogin", {
-        method: "POST",
-        body: JSON.stringify({ metamask_address: address, signature }),
-        headers: { "Content-Type": "application/json" },
-      });
-      if (!loginRes.ok) throw new Error("Login failed");
-      const token = await loginRes.text();
       const network = await provider.getNetwork();
+      // SIWE (EIP-4361) servers return the full message to sign; fall back to the raw nonce
+      const { nonce, message } = await getNonce(
+        address,
+        Number(network.chainId)
+      );
+      const toSign: string = message ?? nonce;
+      const signature = await signer.signMessage(toSign);
+      const token = await metamaskLogin({
+        address,
+        signature,
+        message: toSign,
+      });
       saveWalletSession({
         address,
         chainId: `0x${network.chainId.toString(16)}`,
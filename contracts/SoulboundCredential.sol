@@ -0,0 +1,87 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721URIStorage} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
+
+// Non-transferable variant of the credential contract in types/mint.abi.json.
+// Same public interface (mintDoc, newOrg, verifiedOrgs, isVerfiedOrg, allOrgs,
+// currentTokenId, owner), so the app works against either deployment, plus
+// ERC-5192 so wallets and the verifier can tell tokens are locked.
+// Tokens can be minted but never transferred or approved for transfer.
+
+interface IERC5192 {
+    event Locked(uint256 tokenId);
+    event Unlocked(uint256 tokenId);
+
+    function locked(uint256 tokenId) external view returns (bool);
+}
+
+contract SoulboundCredential is ERC721URIStorage, IERC5192 {
+    error Soulbound();
+    error NotOwner();
+    error NotVerifiedOrg(address account);
+
+    address public owner;
+    uint256 public _tokenIds;
+    address[] public Orgs;
+    mapping(address => bool) public verifiedOrgs;
+
+    constructor() ERC721("document", "VCRD") {
+        owner = msg.sender;
+    }
+
+    function newOrg(address _org) external {
+        if (msg.sender != owner) revert NotOwner();
+        if (!verifiedOrgs[_org]) {
+            verifiedOrgs[_org] = true;
+            Orgs.push(_org);
+        }
+    }
+
+    function isVerfiedOrg(address adr) external view returns (bool) {
+        return verifiedOrgs[adr];
+    }
+
+    function allOrgs() external view returns (address[] memory) {
+        return Orgs;
+    }
+
+    function currentTokenId() external view returns (uint256) {
+        return _tokenIds;
+    }
+
+    function mintDoc(address user, string memory tokenURI) external returns (uint256) {
+        if (!verifiedOrgs[msg.sender]) revert NotVerifiedOrg(msg.sender);
+        _tokenIds += 1;
+        uint256 id = _tokenIds;
+        _safeMint(user, id);
+        _setTokenURI(id, tokenURI);
+        emit Locked(id);
+        return id;
+    }
+
+    function locked(uint256 tokenId) external view returns (bool) {
+        _requireOwned(tokenId);
+        return true;
+    }
+
+    // Every transfer path (transferFrom, safeTransferFrom, burns) goes through _update;
+    // only mints, where there is no previous owner, are allowed
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        if (_ownerOf(tokenId) != address(0)) revert Soulbound();
+        return super._update(to, tokenId, auth);
+    }
+
+    function approve(address, uint256) public pure override {
+        revert Soulbound();
+    }
+
+    function setApprovalForAll(address, bool) public pure override {
+        revert Soulbound();
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override returns (bool) {
+        return interfaceId == type(IERC5192).interfaceId || super.supportsInterface(interfaceId);
+    }
+}
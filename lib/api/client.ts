@@ -0,0 +1,418 @@
+import axios from "axios"
+import { clearSession, getStoredToken, saveWalletSession } from "@/components/auth/jwt"
+import type {
+  ApprovalDecision,
+  ApprovalPolicy,
+  BackendCredential,
+  BackendStudent,
+  BackendUniversity,
+  BulkUploadResponse,
+  CredentialDraft,
+  CredentialInfoResponse,
+  CredentialTemplate,
+  CredentialTypeEntry,
+  MeResponse,
+  MintedRecordPayload,
+  NonceResponse,
+  PendingRequestRow,
+  RevocationEntry,
+  ShareLinkResponse,
+  TransactionRow,
+  UploadToIpfsResponse,
+  VerifyDocumentResponse,
+} from "./types"
+
+// Typed client for the VeriCred backend.
+// Every page goes through here instead of calling fetch against a hard-coded host:
+// the base URL comes from NEXT_PUBLIC_API_BASE_URL, the stored session token is
+// attached automatically, and a 401 on an authenticated call is handled once
+// (token refresh if configured, otherwise logout).
+
+export const API_BASE_URL = (process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8080").replace(/\/+$/, "")
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public body: unknown = null,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export function isNotFound(err: unknown) {
+  return err instanceof ApiError && err.status === 404
+}
+
+type ClientConfig = {
+  // Returns a fresh token, or null if the session can't be renewed
+  refreshToken?: () => Promise<string | null>
+  onUnauthorized?: () => void
+}
+
+function defaultOnUnauthorized() {
+  if (typeof window === "undefined") return
+  clearSession()
+  try {
+    localStorage.removeItem("vericred_user")
+  } catch {}
+  if (window.location.pathname !== "/") window.location.href = "/"
+}
+
+const config: Required<Pick<ClientConfig, "onUnauthorized">> & ClientConfig = {
+  onUnauthorized: defaultOnUnauthorized,
+}
+
+export function configureApiClient(next: ClientConfig) {
+  Object.assign(config, next)
+}
+
+type RequestOptions = {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE"
+  json?: unknown
+  form?: FormData
+  query?: Record<string, string | number | undefined>
+  // Attach the stored session token (default true). Public endpoints pass false.
+  auth?: boolean
+  signal?: AbortSignal
+}
+
+export function apiUrl(path: string, query?: RequestOptions["query"]) {
+  const url = new URL(`${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`)
+  for (const [k, v] of Object.entries(query ?? {})) {
+    if (v !== undefined) url.searchParams.set(k, String(v))
+  }
+  return url.toString()
+}
+
+function authHeader(): Record<string, string> {
+  const token = typeof window !== "undefined" ? getStoredToken() : null
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  const text = await res.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function errorMessage(status: number, body: unknown) {
+  if (body && typeof body === "object") {
+    const b = body as Record<string, any>
+    const msg = b.message || b.error
+    if (typeof msg === "string" && msg) return msg
+  }
+  if (typeof body === "string" && body) return body
+  return `Request failed (${status})`
+}
+
+// Tries a configured refresh once; returns true if the caller should retry.
+async function recoverFromUnauthorized(): Promise<boolean> {
+  if (config.refreshToken) {
+    try {
+      const token = await config.refreshToken()
+      if (token) {
+        saveWalletSession({ token })
+        return true
+      }
+    } catch {}
+  }
+  config.onUnauthorized()
+  return false
+}
+
+export async function request<T>(path: string, opts: RequestOptions = {}, retried = false): Promise<T> {
+  const { method = "GET", json, form, query, auth = true, signal } = opts
+  const headers: Record<string, string> = { Accept: "application/json", ...(auth ? authHeader() : {}) }
+  let body: BodyInit | undefined
+  if (form) body = form
+  else if (json !== undefined) {
+    headers["Content-Type"] = "application/json"
+    body = JSON.stringify(json)
+  }
+
+  const res = await fetch(apiUrl(path, query), { method, headers, body, signal, cache: "no-store" })
+
+  if (res.status === 401 && auth && headers.Authorization && !retried) {
+    if (await recoverFromUnauthorized()) return request<T>(path, opts, true)
+  }
+
+  const data = await readBody(res)
+  if (!res.ok) throw new ApiError(res.status, errorMessage(res.status, data), data)
+  return data as T
+}
+
+// Backend list endpoints are inconsistent about wrapping; accept the common envelopes.
+// Anything else (an `{ error }` body, a single record) has no rows.
+export function rowsOf<T>(data: unknown): T[] {
+  if (Array.isArray(data)) return data as T[]
+  if (data && typeof data === "object") {
+    const d = data as Record<string, unknown>
+    for (const key of ["rows", "data", "result", "items"]) {
+      if (Array.isArray(d[key])) return d[key] as T[]
+    }
+  }
+  return []
+}
+
+// --- Auth -------------------------------------------------------------------
+
+export function getNonce(address: string, chainId?: number) {
+  return request<NonceResponse>("/getnonce", {
+    method: "POST",
+    auth: false,
+    json: { metamask_address: address, chain_id: chainId },
+  })
+}
+
+export async function metamaskLogin(input: { address: string; signature: string; message: string }) {
+  const token = await request<unknown>("/auth/metamasklogin", {
+    method: "POST",
+    auth: false,
+    json: { metamask_address: input.address, signature: input.signature, message: input.message },
+  })
+  return typeof token === "string" ? token : JSON.stringify(token)
+}
+
+export function getMe() {
+  return request<MeResponse>("/api/v1/auth/me")
+}
+
+// --- Accounts ---------------------------------------------------------------
+
+export function createAccount(mode: "student" | "university", payload: Record<string, unknown>) {
+  return request<Record<string, any>>(mode === "university" ? "/api/create/org" : "/api/create/user", {
+    method: "POST",
+    json: payload,
+  })
+}
+
+export function getDashboard() {
+  return request<unknown>("/dashboard")
+}
+
+export async function getStudents() {
+  return rowsOf<BackendStudent>(await request<unknown>("/students"))
+}
+
+export function getUniversity() {
+  return request<BackendUniversity & Record<string, any>>("/university")
+}
+
+export async function getUniversities() {
+  return rowsOf<BackendUniversity>(await request<unknown>("/universities"))
+}
+
+export function getSpecificUniversity(address: string) {
+  return request<unknown>("/api/specific-university", {
+    method: "POST",
+    json: { metamask_address: address },
+  })
+}
+
+export function showUser(address: string) {
+  return request<unknown>("/showuser", { method: "POST", json: { metamask_address: address } })
+}
+
+export async function getUserCreds(address: string) {
+  return rowsOf<BackendCredential>(
+    await request<unknown>("/usercreds", { method: "POST", json: { metamask_address: address } }),
+  )
+}
+
+// --- Pending mint requests --------------------------------------------------
+
+export function requestMint(studentWallet: string, universityWallet: string) {
+  return request<unknown>("/api/pending/request", {
+    method: "POST",
+    json: { student_wallet: studentWallet, university_wallet: universityWallet },
+  })
+}
+
+export async function getPendingForOrg() {
+  return rowsOf<PendingRequestRow>(await request<unknown>("/api/pending/for-org"))
+}
+
+export function approvePending(studentWallet: string) {
+  return request<unknown>("/api/pending/approve", {
+    method: "PATCH",
+    json: { student_wallet: studentWallet },
+  })
+}
+
+// --- Credential type catalog ------------------------------------------------
+
+export async function getCredentialTypes() {
+  return rowsOf<CredentialTypeEntry>(await request<unknown>("/api/v1/credential-types"))
+}
+
+type CredentialTypeFields = Pick<CredentialTypeEntry, "name" | "category" | "description">
+
+export function createCredentialType(fields: CredentialTypeFields) {
+  return request<CredentialTypeEntry>("/api/v1/credential-types", { method: "POST", json: fields })
+}
+
+// Changing the name, category or description creates a new version; `status` alone does not
+export function updateCredentialType(
+  id: string,
+  changes: Partial<CredentialTypeFields> & { status?: CredentialTypeEntry["status"] },
+) {
+  return request<CredentialTypeEntry>(`/api/v1/credential-types/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    json: changes,
+  })
+}
+
+// --- Credential templates ---------------------------------------------------
+
+export async function getCredentialTemplates() {
+  return rowsOf<CredentialTemplate>(await request<unknown>("/api/v1/credential-templates"))
+}
+
+// Creates a template, or replaces the one with the same id
+export function saveCredentialTemplate(template: Omit<CredentialTemplate, "id"> & { id?: string }) {
+  return request<CredentialTemplate>("/api/v1/credential-templates", { method: "POST", json: template })
+}
+
+export function deleteCredentialTemplate(id: string) {
+  return request<unknown>(`/api/v1/credential-templates/${encodeURIComponent(id)}`, { method: "DELETE" })
+}
+
+// --- Approvals --------------------------------------------------------------
+
+// The caller's university policy, or null when credentials are minted without approval
+export async function getApprovalPolicy() {
+  try {
+    return await request<ApprovalPolicy>("/api/v1/approval-policy")
+  } catch (e) {
+    if (isNotFound(e)) return null
+    throw e
+  }
+}
+
+export function saveApprovalPolicy(policy: Pick<ApprovalPolicy, "signers" | "threshold">) {
+  return request<ApprovalPolicy | null>("/api/v1/approval-policy", { method: "POST", json: policy })
+}
+
+// Drafts the caller issues or is a designated approver for
+export async function getCredentialDrafts() {
+  return rowsOf<CredentialDraft>(await request<unknown>("/api/v1/drafts"))
+}
+
+export function createCredentialDraft(input: { student_wallet: string; metadata: unknown }) {
+  return request<CredentialDraft>("/api/v1/drafts", { method: "POST", json: input })
+}
+
+export function submitApproval(decision: ApprovalDecision) {
+  return request<CredentialDraft>(`/api/v1/drafts/${encodeURIComponent(decision.draft_id)}/approvals`, {
+    method: "POST",
+    json: decision,
+  })
+}
+
+export function cancelCredentialDraft(id: string, reason: string) {
+  return request<CredentialDraft>(`/api/v1/drafts/${encodeURIComponent(id)}/cancel`, {
+    method: "POST",
+    json: { reason },
+  })
+}
+
+export function markDraftMinted(id: string, minted: { token_uri: string; tx_hash: string; token_id?: string }) {
+  return request<CredentialDraft>(`/api/v1/drafts/${encodeURIComponent(id)}/minted`, {
+    method: "POST",
+    json: minted,
+  })
+}
+
+// --- Credentials ------------------------------------------------------------
+
+export async function getCreds() {
+  try {
+    return rowsOf<BackendCredential>(await request<unknown>("/api/creds"))
+  } catch (e) {
+    if (isNotFound(e)) return []
+    throw e
+  }
+}
+
+export function uploadToIpfs(metadata: unknown) {
+  return request<UploadToIpfsResponse>("/api/uploadtoipfs", { method: "POST", json: metadata })
+}
+
+export function recordTransactionHash(hash: string) {
+  return request<unknown>("/transactionhash", { method: "POST", json: { transaction_hash: hash } })
+}
+
+export function recordMintedCredential(payload: MintedRecordPayload) {
+  return request<unknown>("/credmint", { method: "POST", json: payload })
+}
+
+export async function generateShareLink(credentialId: string, durationHours: number) {
+  const res = await request<ShareLinkResponse>("/api/v1/credentials/generate-share-link", {
+    method: "POST",
+    json: { credential_id: credentialId, duration: durationHours },
+  })
+  return res?.shareable_url || res?.url || res?.link || null
+}
+
+// Issuer-signed status changes for a credential; public so verifiers can check them
+export async function getRevocations(credentialId: string) {
+  return rowsOf<RevocationEntry>(
+    await request<unknown>(`/api/v1/credentials/${encodeURIComponent(credentialId)}/revocations`, { auth: false }),
+  )
+}
+
+export function publishRevocation(entry: RevocationEntry) {
+  return request<RevocationEntry>(`/api/v1/credentials/${encodeURIComponent(entry.credential_id)}/revocations`, {
+    method: "POST",
+    json: entry,
+  })
+}
+
+export function getCredentialInfo(uuid: string, token: string) {
+  return request<CredentialInfoResponse>(`/api/v1/credential-info/${encodeURIComponent(uuid)}`, {
+    auth: false,
+    query: { token },
+  })
+}
+
+export function verifyDocument(file: File, hash: string) {
+  const form = new FormData()
+  form.append("file", file)
+  form.append("hash", hash)
+  return request<VerifyDocumentResponse>("/api/v1/verify-document", { method: "POST", auth: false, form })
+}
+
+export async function getTransactions() {
+  return rowsOf<TransactionRow>(await request<unknown>("/transactions", { auth: false }))
+}
+
+// Uses axios for upload progress events, which fetch doesn't expose.
+// Errors are left as AxiosError so callers can inspect network failures.
+export async function bulkUploadStudents(
+  file: File,
+  opts: { signal?: AbortSignal; onProgress?: (percent: number) => void } = {},
+) {
+  const formData = new FormData()
+  formData.append("file", file)
+  try {
+    const res = await axios.post<BulkUploadResponse>(apiUrl("/api/v1/institution/bulk-upload"), formData, {
+      headers: { "Content-Type": "multipart/form-data", ...authHeader() },
+      signal: opts.signal,
+      timeout: 60000,
+      onUploadProgress: (evt) => {
+        if (!evt.total) return
+        opts.onProgress?.(Math.round((evt.loaded / evt.total) * 100))
+      },
+    })
+    return res.data || {}
+  } catch (e) {
+    if (axios.isAxiosError(e) && e.response?.status === 401) config.onUnauthorized()
+    throw e
+  }
+}
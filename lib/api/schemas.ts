@@ -0,0 +1,341 @@
+import { z } from "zod"
+
+// Schemas for backend records, plus one normalizer per record type.
+// The backend has shipped several field spellings over time (degree_name vs
+// degreeName, student_wallet vs recipient, ...). Each record type lists its
+// accepted aliases once here; the normalizer resolves them, validates the result
+// and reports payloads it can't make sense of instead of handing blanks to the UI.
+
+type AliasMap = Record<string, string[]>
+
+function readPath(obj: any, path: string) {
+  return path.split(".").reduce((acc, key) => (acc == null ? undefined : acc[key]), obj)
+}
+
+function resolveAliases(raw: unknown, aliases: AliasMap) {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return raw
+  const out: Record<string, unknown> = {}
+  for (const [field, paths] of Object.entries(aliases)) {
+    for (const path of paths) {
+      const v = readPath(raw, path)
+      if (v !== undefined && v !== null && v !== "") {
+        out[field] = v
+        break
+      }
+    }
+  }
+  return out
+}
+
+const walletAddress = z.string().trim().regex(/^0x[0-9a-fA-F]{40}$/, "not a wallet address")
+
+const text = z.union([z.string(), z.number()]).transform(String)
+
+function parseTimestamp(v: string | number) {
+  // Bare numbers below 1e12 are epoch seconds, otherwise milliseconds
+  const d = typeof v === "number" || /^\d+$/.test(v) ? new Date(Number(v) < 1e12 ? Number(v) * 1000 : Number(v)) : new Date(v)
+  return d
+}
+
+const timestamp = z
+  .union([z.string(), z.number()])
+  .refine((v) => !Number.isNaN(parseTimestamp(v).getTime()), "unparseable date")
+
+const dateText = timestamp.transform(String)
+
+const flag = z.preprocess((v) => (v === 1 || v === "true" ? true : v === 0 || v === "false" ? false : v), z.boolean())
+
+const id = z.union([z.string().min(1), z.number()]).transform(String)
+
+// --- Revocation -------------------------------------------------------------
+
+const revocationAliases: AliasMap = {
+  credential_id: ["credential_id", "credentialId"],
+  token_id: ["token_id", "tokenId"],
+  action: ["action", "status"],
+  reason: ["reason"],
+  issued_at: ["issued_at", "issuedAt", "created_at"],
+  issuer: ["issuer", "issuer_wallet", "university_wallet"],
+  chain_id: ["chain_id", "chainId"],
+  contract: ["contract", "contract_address"],
+  signature: ["signature", "sig"],
+}
+
+// Field values must come through unchanged: they are what the issuer signed
+export const revocationSchema = z.object({
+  credential_id: z.string().min(1),
+  token_id: z.string().regex(/^\d+$/, "not a token id").optional(),
+  action: z.enum(["revoked", "suspended", "reinstated"]),
+  reason: z.string(),
+  issued_at: z.string().refine((v) => !Number.isNaN(Date.parse(v)), "unparseable date"),
+  issuer: walletAddress,
+  chain_id: z.coerce.number().int(),
+  contract: walletAddress,
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, "not a signature"),
+})
+
+export type Revocation = z.infer<typeof revocationSchema>
+
+// --- Credential -------------------------------------------------------------
+
+const credentialAliases: AliasMap = {
+  id: ["id", "ID", "uuid", "_id", "credential_id"],
+  degree_id: ["degree_id", "degreeId"],
+  degree_name: ["degree_name", "degreeName", "name", "title"],
+  description: ["description", "details", "desc"],
+  type: ["type", "credential_type", "credentialType"],
+  major: ["major", "field"],
+  gpa: ["gpa", "grade"],
+  issued_date: ["issued_date", "issuedDate", "issue_date", "issueDate", "issued_at", "created_at"],
+  graduation_date: ["graduation_date", "graduationDate"],
+  student_wallet: [
+    "student_wallet",
+    "recipient_wallet",
+    "studentAddress",
+    "recipient",
+    "student.metamask_address",
+    "student.wallet",
+  ],
+  university_wallet: [
+    "university_wallet",
+    "issuer_wallet",
+    "issuerWallet",
+    "universityWallet",
+    "organization.metamask_address",
+    "university.metamask_address",
+  ],
+  ipfs_link: ["ipfs_link", "ip_fs_link", "ipfsHash", "ipfs", "ipfsurl", "ipfs_url", "tokenURI", "tokenUri"],
+  dean_sig: ["dean_sig", "deanSignatureHash"],
+  token_id: ["token_id", "tokenId", "token"],
+  tx_hash: ["tx_hash", "txHash", "transaction_hash"],
+  revocations: ["revocations", "revocation_list"],
+  created_at: ["created_at", "createdAt"],
+  updated_at: ["updated_at", "updatedAt"],
+}
+
+export const credentialSchema = z.object({
+  id,
+  degree_id: z.coerce.number().optional(),
+  degree_name: text.optional(),
+  description: text.optional(),
+  type: text.optional(),
+  major: text.optional(),
+  gpa: z.union([z.string(), z.number()]).optional(),
+  issued_date: dateText.optional(),
+  graduation_date: dateText.optional(),
+  student_wallet: walletAddress.optional(),
+  university_wallet: walletAddress.optional(),
+  ipfs_link: z.string().min(1).optional(),
+  dean_sig: z.string().optional(),
+  token_id: z.union([z.string().regex(/^\d+$/, "not a token id"), z.number().int().nonnegative()]).transform(String).optional(),
+  tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "not a transaction hash").optional(),
+  // Malformed entries are dropped rather than rejecting the credential; signatures are checked by the verifier
+  revocations: z
+    .array(z.unknown())
+    .transform((rows) =>
+      rows.flatMap((row) => {
+        const result = normalizeRevocation(row)
+        return result.ok ? [result.value] : []
+      }),
+    )
+    .optional(),
+  created_at: dateText.optional(),
+  updated_at: dateText.optional(),
+})
+
+export type CredentialRecord = z.infer<typeof credentialSchema>
+
+// --- University -------------------------------------------------------------
+
+const universityAliases: AliasMap = {
+  id: ["id", "ID", "_id", "uuid"],
+  metamask_address: ["metamask_address", "wallet", "address", "metamask", "account", "walletAddress"],
+  acad_email: ["acad_email", "email"],
+  org_name: ["org_name", "name", "organization_name", "title"],
+  org_type: ["org_type", "type", "category"],
+  org_url: ["org_url", "orgUrl", "website", "url"],
+  org_desc: ["org_desc", "description", "desc"],
+  country: ["country", "location.country"],
+  state: ["state", "location.state"],
+  city: ["city", "location.city"],
+  address: ["street", "location.address", "address"],
+  postal_code: ["postal_code", "zip", "postal"],
+  is_verified: ["is_verified", "verified", "isVerified"],
+  total_students: ["total_students", "totalStudents", "students"],
+  logo_ip_fs_hash: ["logo_ip_fs_hash", "logoIpfsHash"],
+  banner_ip_fs_hash: ["banner_ip_fs_hash", "bannerIpfsHash"],
+  created_at: ["created_at", "createdAt"],
+  updated_at: ["updated_at", "updatedAt"],
+}
+
+export const universitySchema = z.object({
+  id,
+  metamask_address: walletAddress,
+  acad_email: z.string().optional(),
+  org_name: z.string().min(1, "missing organisation name"),
+  org_type: z.string().optional(),
+  org_url: z.string().optional(),
+  org_desc: z.string().optional(),
+  country: z.string().optional(),
+  state: z.string().optional(),
+  city: z.string().optional(),
+  address: z.string().optional(),
+  postal_code: text.optional(),
+  is_verified: flag.default(false),
+  total_students: z.coerce.number().optional(),
+  logo_ip_fs_hash: z.string().optional(),
+  banner_ip_fs_hash: z.string().optional(),
+  created_at: dateText.optional(),
+  updated_at: dateText.optional(),
+})
+
+export type UniversityRecord = z.infer<typeof universitySchema>
+
+// --- Student ----------------------------------------------------------------
+
+const studentAliases: AliasMap = {
+  id: ["id", "ID", "_id", "uuid"],
+  metamask_address: ["metamask_address", "wallet", "walletAddress", "address"],
+  email: ["email", "studentEmail", "mail"],
+  first_name: ["first_name", "firstName", "firstname"],
+  last_name: ["last_name", "lastName", "lastname", "surname"],
+  student_id: ["student_id", "studentId", "studentID", "roll_no"],
+  is_verified: ["is_verified", "verified", "isVerified"],
+  created_at: ["created_at", "createdAt"],
+  last_activity: ["last_activity", "lastActivity"],
+}
+
+export const studentSchema = z.object({
+  id,
+  metamask_address: walletAddress.optional(),
+  email: z.string().optional(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  student_id: text.optional(),
+  is_verified: flag.default(false),
+  created_at: dateText.optional(),
+  last_activity: dateText.optional(),
+})
+
+export type StudentRecord = z.infer<typeof studentSchema>
+
+// --- Pending mint request ---------------------------------------------------
+
+const pendingRequestAliases: AliasMap = {
+  id: ["id", "request_id", "_id"],
+  student_wallet: [
+    "student_wallet",
+    "studentWallet",
+    "student",
+    "requester_wallet",
+    "requesterWallet",
+    "student_address",
+    "walletAddress",
+    "wallet",
+    "user_wallet",
+    "requester.metamask_address",
+    "requester.metamaskAddress",
+    "requester.wallet_address",
+    "requester.walletAddress",
+    "requester.address",
+  ],
+  university_wallet: [
+    "university_wallet",
+    "universityWallet",
+    "university_address",
+    "org_wallet",
+    "orgWallet",
+    "issuer_wallet",
+    "university",
+    "organization.metamask_address",
+    "organization.metamaskAddress",
+    "organization.wallet_address",
+    "organization.walletAddress",
+  ],
+}
+
+export const pendingRequestSchema = z.object({
+  id: id.optional(),
+  student_wallet: walletAddress,
+  university_wallet: walletAddress.optional(),
+})
+
+export type PendingRequest = z.infer<typeof pendingRequestSchema>
+
+// --- Ledger transaction -----------------------------------------------------
+
+const transactionAliases: AliasMap = {
+  tx_hash: ["tx_hash", "txHash", "hash", "id"],
+  block_number: ["block_number", "blockNumber", "block"],
+  from: ["from", "sender"],
+  to: ["to", "receiver"],
+  value_eth: ["value_eth", "amount", "value"],
+  gas: ["gas", "gas_used"],
+  gas_price: ["gas_price", "gasPrice"],
+  timestamp: ["timestamp", "time", "created_at"],
+  status: ["status"],
+}
+
+export const transactionSchema = z.object({
+  tx_hash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "not a transaction hash"),
+  block_number: z.union([z.string(), z.number()]).default(""),
+  from: walletAddress,
+  to: z.union([walletAddress, z.literal("")]).default(""),
+  value_eth: z.union([z.string(), z.number()]).default(""),
+  gas: z.union([z.string(), z.number()]).default(""),
+  gas_price: z.union([z.string(), z.number()]).default(""),
+  timestamp: z.union([timestamp, z.literal("")]).default(""),
+  status: z.enum(["success", "pending", "failed"]).optional(),
+})
+
+export type Transaction = z.infer<typeof transactionSchema>
+
+// --- Normalizers ------------------------------------------------------------
+
+export type NormalizeResult<T> = { ok: true; value: T } | { ok: false; issues: string[]; raw: unknown }
+
+function describeIssues(error: z.ZodError) {
+  return error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message))
+}
+
+function makeNormalizer<S extends z.ZodTypeAny>(schema: S, aliases: AliasMap) {
+  return (raw: unknown, defaults: Partial<z.input<S>> = {}): NormalizeResult<z.output<S>> => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      return { ok: false, issues: [`expected an object, got ${Array.isArray(raw) ? "array" : typeof raw}`], raw }
+    }
+    const resolved = resolveAliases(raw, aliases) as Record<string, unknown>
+    if (Object.keys(resolved).length === 0) {
+      return { ok: false, issues: [`unrecognised payload (keys: ${Object.keys(raw).join(", ") || "none"})`], raw }
+    }
+    const parsed = schema.safeParse({ ...defaults, ...resolved })
+    return parsed.success ? { ok: true, value: parsed.data } : { ok: false, issues: describeIssues(parsed.error), raw }
+  }
+}
+
+export const normalizeRevocation = makeNormalizer(revocationSchema, revocationAliases)
+export const normalizeCredential = makeNormalizer(credentialSchema, credentialAliases)
+export const normalizeUniversity = makeNormalizer(universitySchema, universityAliases)
+export const normalizeStudent = makeNormalizer(studentSchema, studentAliases)
+export const normalizePendingRequest = makeNormalizer(pendingRequestSchema, pendingRequestAliases)
+export const normalizeTransaction = makeNormalizer(transactionSchema, transactionAliases)
+
+export type RejectedRecord = { index: number; issues: string[]; raw: unknown }
+
+// Normalizes a list, keeping the records that validate and reporting the rest.
+export function normalizeList<T>(
+  label: string,
+  rows: unknown[],
+  normalize: (raw: unknown) => NormalizeResult<T>,
+): { items: T[]; rejected: RejectedRecord[] } {
+  const items: T[] = []
+  const rejected: RejectedRecord[] = []
+  rows.forEach((raw, index) => {
+    const result = normalize(raw)
+    if (result.ok) items.push(result.value)
+    else rejected.push({ index, issues: result.issues, raw })
+  })
+  if (rejected.length > 0) {
+    console.warn(`[${label}] rejected ${rejected.length} of ${rows.length} record(s)`, rejected)
+  }
+  return { items, rejected }
+}
@@ -0,0 +1,260 @@
+// Wire shapes returned by the VeriCred backend.
+// These describe what the API sends, not what the UI renders; pages map them
+// into their own view models.
+
+export interface NonceResponse {
+  nonce: string
+  // Present when the server issues a full Sign-In with Ethereum message
+  message?: string
+}
+
+export interface MeResponse {
+  account_type?: "student" | "university" | "unknown"
+  address?: string
+  has_user_profile?: boolean
+  has_university_profile?: boolean
+  [key: string]: any
+}
+
+export interface BackendStudent {
+  id: number | string
+  metamask_address?: string
+  email?: string
+  first_name?: string
+  last_name?: string
+  student_id?: string
+  is_verified?: boolean
+  created_at?: string
+  last_activity?: string
+  [key: string]: any
+}
+
+export interface BackendUniversity {
+  id: number
+  metamask_address: string
+  acad_email?: string
+  org_name: string
+  org_type?: string
+  org_url?: string
+  org_desc?: string
+  country?: string
+  state?: string
+  city?: string
+  address?: string
+  postal_code?: string
+  is_verified: boolean
+  total_students?: number
+  logo_ip_fs_hash?: string
+  banner_ip_fs_hash?: string
+  created_at?: string
+  updated_at?: string
+  [key: string]: any
+}
+
+export interface BackendCredential {
+  id: string
+  degree_id?: number
+  student_wallet?: string
+  university_wallet?: string
+  degree_name?: string
+  description?: string
+  type?: string
+  major?: string
+  gpa?: string | number
+  issued_date?: string
+  graduation_date?: string
+  created_at?: string
+  updated_at?: string
+  ipfs_link?: string
+  dean_sig?: string
+  // On-chain token minted for this credential, and the mint transaction
+  token_id?: string | number
+  tx_hash?: string
+  // Issuer-signed status changes, oldest first
+  revocations?: RevocationEntry[]
+  [key: string]: any
+}
+
+// An issuer-signed revocation, suspension or reinstatement (see lib/chain/revocation.ts)
+export interface RevocationEntry {
+  credential_id: string
+  token_id?: string
+  action: "revoked" | "suspended" | "reinstated"
+  reason: string
+  issued_at: string
+  issuer: string
+  chain_id: number
+  contract: string
+  signature: string
+}
+
+// A university's reusable starting point for the mint form. `description` may use
+// {student} and {university} placeholders (see lib/domain/credential-form.ts).
+export interface CredentialTemplate {
+  id: string
+  name: string
+  credential_type: string
+  major?: string
+  description: string
+  accreditation_body?: string
+  university_wallet?: string
+  updated_at?: string
+}
+
+// One entry in a university's catalog of credential types. `name` is what the mint
+// form records as the credential's type; edits to the name, category or description
+// bump `version` and keep the previous wording in `history`.
+export interface CredentialTypeEntry {
+  id: string
+  university_wallet: string
+  name: string
+  // e.g. "Undergraduate Degree", "Professional Certificate"
+  category: string
+  description: string
+  status: "active" | "inactive"
+  version: number
+  // Earlier versions, oldest first
+  history: CredentialTypeVersion[]
+  created_at: string
+  updated_at: string
+  // Minted credentials of this type, counted by the backend
+  total_issued?: number
+}
+
+export interface CredentialTypeVersion {
+  version: number
+  name: string
+  category: string
+  description: string
+  updated_at: string
+}
+
+// Who must sign off on a university's credentials before they are minted
+export interface ApprovalPolicy {
+  university_wallet: string
+  signers: { wallet: string; role: string }[]
+  // Approvals needed from distinct signers, e.g. 2 for "2-of-3"
+  threshold: number
+  updated_at?: string
+}
+
+// A designated signer's signed decision on a draft (see lib/chain/approval.ts)
+export interface ApprovalDecision {
+  draft_id: string
+  credential_id: string
+  metadata_hash: string
+  decision: "approved" | "rejected"
+  role: string
+  note: string
+  approver: string
+  signed_at: string
+  chain_id: number
+  contract: string
+  signature: string
+}
+
+export interface DraftAuditEvent {
+  action: "created" | "approved" | "rejected" | "cancelled" | "minted"
+  actor: string
+  at: string
+  detail?: string
+}
+
+export type DraftStatus = "awaiting_approval" | "approved" | "rejected" | "cancelled" | "minted"
+
+// A credential waiting for its approval quorum. The policy is copied in when the
+// draft is created, so changing the policy later doesn't move the goalposts.
+export interface CredentialDraft {
+  id: string
+  university_wallet: string
+  student_wallet: string
+  // Unsigned token metadata; the issuer signs it at mint time
+  metadata: Record<string, any>
+  metadata_hash: string
+  policy: Pick<ApprovalPolicy, "signers" | "threshold">
+  status: DraftStatus
+  approvals: ApprovalDecision[]
+  // Every step, oldest first
+  audit: DraftAuditEvent[]
+  created_by: string
+  created_at: string
+  updated_at: string
+  token_uri?: string
+  token_id?: string
+  tx_hash?: string
+}
+
+export interface PendingRequestRow {
+  id?: string | number
+  student_wallet?: string
+  university_wallet?: string
+  [key: string]: any
+}
+
+export interface TransactionRow {
+  tx_hash?: string
+  block_number?: number | string
+  from?: string
+  to?: string
+  value_eth?: number | string
+  gas?: number | string
+  gas_price?: number | string
+  timestamp?: string | number
+  status?: "success" | "pending" | "failed"
+  [key: string]: any
+}
+
+export interface ShareLinkResponse {
+  shareable_url?: string
+  url?: string
+  link?: string
+}
+
+export interface UploadToIpfsResponse {
+  ipfsurl?: string
+  ipfslink?: string
+  ipfsLink?: string
+}
+
+export interface CredentialInfoResponse {
+  status?: string
+  result?: string
+  message?: string
+  [key: string]: any
+}
+
+export interface VerifyDocumentResponse {
+  status?: string
+  result?: string
+  message?: string
+  // The matched credential record, when the backend includes it
+  credential?: BackendCredential
+}
+
+export interface BulkUploadResponse {
+  importedCount?: number
+  count?: number
+  rowsImported?: number
+  total?: number
+  message?: string
+  [key: string]: any
+}
+
+export interface MintedRecordPayload {
+  id: string
+  degree_id: number
+  student_wallet: string
+  university_wallet: string
+  degree_name: string
+  description: string
+  type: string
+  major: string
+  issued_date: string
+  graduation_date: string
+  created_at: string
+  updated_at: string
+  ipfs_link: string
+  dean_sig: string
+  token_id?: string
+  tx_hash?: string
+}
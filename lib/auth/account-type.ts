@@ -0,0 +1,32 @@
+import { Contract } from "ethers"
+import mintAbi from "@/types/mint.abi.json"
+import { activeChain } from "@/lib/chain/profiles"
+import { readOnlyProvider } from "@/lib/chain/verify"
+import type { AccountType } from "./session-token"
+
+// The role a session token carries, read from the credential contract rather than taken
+// from the client: verified organisations are universities, wallets holding a credential
+// are students. Anyone else, or any wallet while the chain can't be read, is "unknown".
+
+const LOOKUP_TIMEOUT_MS = 5000
+
+export async function accountTypeOf(address: string, chain = activeChain()): Promise<AccountType> {
+  const contract = new Contract(chain.contractAddress, mintAbi as any, readOnlyProvider(chain))
+  const lookup = async (): Promise<AccountType> => {
+    if (await contract.verifiedOrgs(address)) return "university"
+    if (Number(await contract.balanceOf(address)) > 0) return "student"
+    return "unknown"
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No answer from ${chain.name} RPC`)), LOOKUP_TIMEOUT_MS)
+  })
+  try {
+    return await Promise.race([lookup(), timeout])
+  } catch (e) {
+    console.warn(`[auth] account type lookup failed for ${address}:`, e)
+    return "unknown"
+  } finally {
+    clearTimeout(timer)
+  }
+}
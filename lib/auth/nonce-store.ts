@@ -0,0 +1,63 @@
+import { randomBytes } from "crypto"
+
+// Server-side store for login challenges.
+// An address may hold several outstanding nonces, each consumed by value, so asking for
+// a challenge on someone else's behalf can't cancel the one they are signing. Issuance
+// stops at MAX_PENDING_PER_ADDRESS live nonces until some expire or are used.
+// Kept on globalThis so dev-mode hot reloads don't drop pending challenges.
+
+export const NONCE_TTL_MS = 5 * 60 * 1000
+export const MAX_PENDING_PER_ADDRESS = 10
+
+type NonceEntry = {
+  nonce: string
+  expiresAt: number
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __vericredNonces?: Map<string, NonceEntry[]>
+}
+
+const store: Map<string, NonceEntry[]> = globalStore.__vericredNonces ?? new Map()
+globalStore.__vericredNonces = store
+
+function keyFor(address: string) {
+  return address.trim().toLowerCase()
+}
+
+function sweepExpired(now: number) {
+  for (const [key, entries] of store) {
+    const live = entries.filter((e) => e.expiresAt > now)
+    if (live.length) store.set(key, live)
+    else store.delete(key)
+  }
+}
+
+// A new nonce for the address, or null when it already has the maximum pending
+export function issueNonce(address: string): NonceEntry | null {
+  const now = Date.now()
+  sweepExpired(now)
+  const key = keyFor(address)
+  const pending = store.get(key) ?? []
+  if (pending.length >= MAX_PENDING_PER_ADDRESS) return null
+  const entry = {
+    nonce: randomBytes(16).toString("hex"),
+    expiresAt: now + NONCE_TTL_MS,
+  }
+  store.set(key, [...pending, entry])
+  return entry
+}
+
+// Removes `nonce` from the address's pending nonces; true if it was pending and
+// unexpired. A nonce can only be consumed once, whether or not the signature that
+// follows turns out valid.
+export function consumeNonce(address: string, nonce: string): boolean {
+  const key = keyFor(address)
+  const pending = store.get(key) ?? []
+  const entry = pending.find((e) => e.nonce === nonce)
+  if (!entry) return false
+  const rest = pending.filter((e) => e !== entry)
+  if (rest.length) store.set(key, rest)
+  else store.delete(key)
+  return entry.expiresAt > Date.now()
+}
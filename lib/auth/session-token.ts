@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from "crypto"
+
+// HS256 session tokens issued after a successful wallet login.
+// Claims mirror what the client reads in components/auth/jwt.ts.
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 24
+
+export type AccountType = "student" | "university" | "unknown"
+
+export type SessionClaims = {
+  sub: string
+  account_type: AccountType
+  iat: number
+  exp: number
+}
+
+function getSecret() {
+  const secret = process.env.JWT_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production")
+  }
+  return "vericred-dev-secret"
+}
+
+function base64url(input: Buffer | string) {
+  return Buffer.from(input).toString("base64url")
+}
+
+function sign(data: string) {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url")
+}
+
+export function signSessionToken(address: string, accountType: AccountType = "unknown") {
+  const iat = Math.floor(Date.now() / 1000)
+  const claims: SessionClaims = {
+    sub: address.toLowerCase(),
+    account_type: accountType,
+    iat,
+    exp: iat + SESSION_TTL_SECONDS,
+  }
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))
+  const payload = base64url(JSON.stringify(claims))
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`
+}
+
+export function verifySessionToken(token: string | null | undefined): SessionClaims | null {
+  if (!token) return null
+  const [header, payload, signature] = token.split(".")
+  if (!header || !payload || !signature) return null
+  const expected = Buffer.from(sign(`${header}.${payload}`))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as SessionClaims
+    if (!claims.sub || typeof claims.exp !== "number") return null
+    if (claims.exp <= Math.floor(Date.now() / 1000)) return null
+    return claims
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,177 @@
+import { ethers } from "ethers"
+import { activeChain } from "@/lib/chain/profiles"
+
+// Sign-In with Ethereum (EIP-4361) messages.
+// The server builds the message in /api/get-nonce and re-parses whatever the
+// wallet signed in /api/login-metamask, so every field is checked against what
+// this deployment expects rather than trusted from the client.
+
+export type SiweMessage = {
+  domain: string
+  address: string
+  statement?: string
+  uri: string
+  version: "1"
+  chainId: number
+  nonce: string
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+  requestId?: string
+}
+
+export type SiweExpectations = {
+  domain: string
+  uri: string
+  chainIds: number[]
+  nonce: string
+  address?: string
+  now?: Date
+}
+
+export class SiweError extends Error {
+  constructor(
+    public field: keyof SiweMessage | "format",
+    message: string,
+  ) {
+    super(message)
+    this.name = "SiweError"
+  }
+}
+
+export const SIWE_STATEMENT = "Sign in to VeriCred with your wallet."
+
+// Chains a login may be signed for. Defaults to the active chain profile, where the credential contract lives.
+export function allowedSiweChainIds(): number[] {
+  const raw = process.env.SIWE_CHAIN_IDS || process.env.NEXT_PUBLIC_CHAIN_ID || String(activeChain().chainId)
+  return raw
+    .split(",")
+    .map((v) => Number(v.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0)
+}
+
+// The domain/origin a SIWE message must be bound to. Host headers come from the client,
+// so in production the origin must be configured: SIWE_DOMAIN (and SIWE_URI, which
+// defaults to https://<SIWE_DOMAIN>), or SIWE_TRUST_PROXY=1 when a proxy in front of the
+// app sets X-Forwarded-Host/-Proto itself. In development the request URL is used.
+export function siweOriginFor(request: Request) {
+  const configured = process.env.SIWE_DOMAIN
+  if (configured) return { domain: configured, uri: process.env.SIWE_URI || `https://${configured}` }
+
+  const url = new URL(request.url)
+  let host = url.host
+  let proto = url.protocol.replace(/:$/, "")
+  if (process.env.SIWE_TRUST_PROXY === "1" || process.env.SIWE_TRUST_PROXY === "true") {
+    host = request.headers.get("x-forwarded-host")?.split(",")[0].trim() || host
+    proto = request.headers.get("x-forwarded-proto")?.split(",")[0].trim() || proto
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("SIWE_DOMAIN or SIWE_TRUST_PROXY must be set in production")
+  }
+  return { domain: host, uri: process.env.SIWE_URI || `${proto}://${host}` }
+}
+
+export function buildSiweMessage(m: SiweMessage): string {
+  const lines = [`${m.domain} wants you to sign in with your Ethereum account:`, m.address, ""]
+  if (m.statement) lines.push(m.statement, "")
+  lines.push(
+    `URI: ${m.uri}`,
+    `Version: ${m.version}`,
+    `Chain ID: ${m.chainId}`,
+    `Nonce: ${m.nonce}`,
+    `Issued At: ${m.issuedAt}`,
+  )
+  if (m.expirationTime) lines.push(`Expiration Time: ${m.expirationTime}`)
+  if (m.notBefore) lines.push(`Not Before: ${m.notBefore}`)
+  if (m.requestId) lines.push(`Request ID: ${m.requestId}`)
+  return lines.join("\n")
+}
+
+const FIELD_KEYS: Record<string, keyof SiweMessage> = {
+  URI: "uri",
+  Version: "version",
+  "Chain ID": "chainId",
+  Nonce: "nonce",
+  "Issued At": "issuedAt",
+  "Expiration Time": "expirationTime",
+  "Not Before": "notBefore",
+  "Request ID": "requestId",
+}
+
+const FIELD_ORDER = Object.keys(FIELD_KEYS)
+
+function isIsoDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n")
+  const header = /^(\S+) wants you to sign in with your Ethereum account:$/.exec(lines[0] ?? "")
+  if (!header) throw new SiweError("format", "Not a Sign-In with Ethereum message")
+  const domain = header[1]
+
+  const address = lines[1] ?? ""
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new SiweError("address", "Address must be an EIP-55 checksummed address")
+  }
+  if (lines[2] !== "") throw new SiweError("format", "Expected a blank line after the address")
+
+  let i = 3
+  let statement: string | undefined
+  if (lines[i] !== undefined && !lines[i].startsWith("URI: ")) {
+    statement = lines[i]
+    if (lines[i + 1] !== "") throw new SiweError("format", "Expected a blank line after the statement")
+    i += 2
+  }
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {}
+  let lastOrder = -1
+  for (; i < lines.length; i++) {
+    const match = /^([A-Za-z ]+): (.*)$/.exec(lines[i])
+    if (!match) throw new SiweError("format", `Unexpected line: ${lines[i]}`)
+    const order = FIELD_ORDER.indexOf(match[1])
+    if (order === -1) throw new SiweError("format", `Unknown field: ${match[1]}`)
+    if (order <= lastOrder) throw new SiweError("format", `Field out of order: ${match[1]}`)
+    lastOrder = order
+    fields[FIELD_KEYS[match[1]]] = match[2]
+  }
+
+  if (!fields.uri) throw new SiweError("uri", "Missing URI")
+  if (fields.version !== "1") throw new SiweError("version", "Unsupported SIWE version")
+  const chainId = Number(fields.chainId)
+  if (!Number.isInteger(chainId) || chainId <= 0) throw new SiweError("chainId", "Invalid chain ID")
+  if (!fields.nonce || !/^[A-Za-z0-9]{8,}$/.test(fields.nonce)) throw new SiweError("nonce", "Invalid nonce")
+  for (const key of ["issuedAt", "expirationTime", "notBefore"] as const) {
+    const value = fields[key]
+    if (key === "issuedAt" && !value) throw new SiweError(key, "Missing Issued At")
+    if (value && !isIsoDate(value)) throw new SiweError(key, `Invalid ${key} timestamp`)
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields.uri,
+    version: "1",
+    chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt!,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+  }
+}
+
+// Throws SiweError on the first field that doesn't match what this server issued.
+export function validateSiweMessage(m: SiweMessage, expect: SiweExpectations) {
+  const now = (expect.now ?? new Date()).getTime()
+  if (m.domain !== expect.domain) throw new SiweError("domain", "Message was signed for a different domain")
+  if (m.uri !== expect.uri) throw new SiweError("uri", "Message was signed for a different URI")
+  if (!expect.chainIds.includes(m.chainId)) throw new SiweError("chainId", `Chain ${m.chainId} is not accepted`)
+  if (m.nonce !== expect.nonce) throw new SiweError("nonce", "Nonce does not match the one issued")
+  if (expect.address && m.address.toLowerCase() !== expect.address.toLowerCase()) {
+    throw new SiweError("address", "Message address does not match the requesting wallet")
+  }
+  if (Date.parse(m.issuedAt) > now + 60_000) throw new SiweError("issuedAt", "Message is issued in the future")
+  if (m.expirationTime && Date.parse(m.expirationTime) <= now) throw new SiweError("expirationTime", "Message has expired")
+  if (m.notBefore && Date.parse(m.notBefore) > now) throw new SiweError("notBefore", "Message is not yet valid")
+}
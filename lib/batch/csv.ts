@@ -0,0 +1,118 @@
+// Bulk student CSV format shared by the upload form and the batch mint queue.
+// The template in public/template.csv uses exactly these columns in this order.
+
+export const EXPECTED_HEADER = [
+  "student_name",
+  "roll_number",
+  "program",
+  "major",
+  "batch_year",
+  "issued_date",
+  "graduation_date",
+] as const
+
+export type BulkColumn = (typeof EXPECTED_HEADER)[number]
+
+export type BulkRow = Record<BulkColumn, string> & {
+  // 1-based line in the source file, for error messages and the result report
+  line: number
+}
+
+export interface CsvRecord {
+  // 1-based line the record starts on
+  line: number
+  cells: string[]
+  // Quoting mistakes found while reading the record; the cells are a best-effort read
+  problems: string[]
+}
+
+// RFC 4180 parse: quoted fields may contain commas, doubled quotes and line breaks.
+// Malformed quoting doesn't throw; it's reported on the record so the user can fix it.
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let cells: string[] = []
+  let problems: string[] = []
+  let cur = ""
+  let inQuotes = false
+  // The current field was quoted and its closing quote has been read
+  let closed = false
+  let line = 1
+  let start = 1
+  const problem = (message: string) => {
+    if (!problems.includes(message)) problems.push(message)
+  }
+  const endField = () => {
+    cells.push(cur)
+    cur = ""
+    closed = false
+  }
+  const src = text.replace(/^\uFEFF/, "")
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cur += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+        closed = true
+      } else {
+        if (ch === "\n") line++
+        cur += ch
+      }
+    } else if (ch === ",") {
+      endField()
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++
+      endField()
+      records.push({ line: start, cells, problems })
+      cells = []
+      problems = []
+      line++
+      start = line
+    } else if (closed) {
+      problem("Text after a closing quote; quote the whole field")
+      cur += ch
+    } else if (ch === '"' && cur === "") {
+      inQuotes = true
+    } else {
+      if (ch === '"') problem("Stray quote in an unquoted field; wrap the field in quotes and double the quote")
+      cur += ch
+    }
+  }
+  if (inQuotes) problem("Unterminated quoted field")
+  if (cur || cells.length || closed) {
+    endField()
+    records.push({ line: start, cells, problems })
+  }
+  // Blank lines are not records
+  return records.filter((r) => r.cells.some((c) => c.trim()))
+}
+
+// Maps a parsed data record onto EXPECTED_HEADER; missing trailing cells come back
+// as empty strings and extra cells are dropped.
+export function toBulkRow(record: CsvRecord): BulkRow {
+  const row = { line: record.line } as BulkRow
+  EXPECTED_HEADER.forEach((col, i) => {
+    row[col] = (record.cells[i] ?? "").trim()
+  })
+  return row
+}
+
+// Quotes a value for CSV output when it needs it
+export function csvCell(value: unknown): string {
+  const s = value == null ? "" : String(value)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function toCsv(header: readonly string[], rows: unknown[][]): string {
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n") + "\n"
+}
+
+// Serializes bulk rows back into the template format
+export function bulkCsv(rows: BulkRow[]): string {
+  return toCsv(
+    EXPECTED_HEADER,
+    rows.map((row) => EXPECTED_HEADER.map((col) => row[col])),
+  )
+}
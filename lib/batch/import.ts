@@ -0,0 +1,142 @@
+import { type BulkColumn, type BulkRow, type CsvRecord, EXPECTED_HEADER, parseCsv, toBulkRow } from "./csv"
+import type { RowIssue } from "./validate"
+import { readXlsx } from "./xlsx"
+
+// Bulk student files other than our CSV template. Registrars export from ERP
+// systems as Excel or JSON with their own column names; every format is read into
+// a table, its columns are mapped onto EXPECTED_HEADER, and the result goes through
+// the same row validation and CSV upload as a template file.
+
+export type ImportFormat = "csv" | "xlsx" | "json"
+
+export function importFormat(fileName: string): ImportFormat | null {
+  const ext = /\.(\w+)$/.exec(fileName)?.[1]?.toLowerCase()
+  return ext === "csv" || ext === "xlsx" || ext === "json" ? ext : null
+}
+
+export interface ImportTable {
+  // Sheet name for workbooks, the file name otherwise
+  name: string
+  header: string[]
+  // Data rows; `line` is the sheet row, CSV line or (for JSON) 1-based array position
+  records: CsvRecord[]
+}
+
+// Which source column feeds each template column; null leaves it empty
+export type ColumnMapping = Record<BulkColumn, number | null>
+
+// Header names seen in registrar exports, compared after normalizeHeader()
+const COLUMN_ALIASES: Record<BulkColumn, string[]> = {
+  student_name: ["studentname", "name", "fullname", "student", "candidatename", "nameofstudent"],
+  roll_number: [
+    "rollnumber",
+    "rollno",
+    "roll",
+    "enrollmentno",
+    "enrollmentnumber",
+    "enrolmentno",
+    "studentid",
+    "registrationno",
+    "regno",
+  ],
+  program: ["program", "programme", "degree", "course", "programname", "degreename"],
+  major: ["major", "specialization", "specialisation", "branch", "discipline", "stream", "department"],
+  batch_year: ["batchyear", "batch", "year", "cohort", "admissionyear", "passingyear"],
+  issued_date: ["issueddate", "issuedate", "dateofissue", "issuedon", "issued"],
+  graduation_date: ["graduationdate", "graduation", "dateofgraduation", "passingdate", "completiondate", "graduatedon"],
+}
+
+const normalizeHeader = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+export function suggestMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(normalizeHeader)
+  const taken = new Set<number>()
+  const mapping = {} as ColumnMapping
+  for (const col of EXPECTED_HEADER) {
+    // Earlier aliases are better matches, so search alias by alias
+    const index = COLUMN_ALIASES[col]
+      .map((alias) => normalized.findIndex((h, i) => h === alias && !taken.has(i)))
+      .find((i) => i >= 0)
+    mapping[col] = index ?? null
+    if (index !== undefined) taken.add(index)
+  }
+  return mapping
+}
+
+// True when every template column found a source column
+export function isCompleteMapping(mapping: ColumnMapping) {
+  return EXPECTED_HEADER.every((col) => mapping[col] !== null)
+}
+
+// Rows in template shape, plus the problems found while reading the source
+export function mapRecords(table: ImportTable, mapping: ColumnMapping): { rows: BulkRow[]; issues: RowIssue[] } {
+  const rows = table.records.map((record) =>
+    toBulkRow({
+      ...record,
+      cells: EXPECTED_HEADER.map((col) => {
+        const index = mapping[col]
+        return index === null ? "" : (record.cells[index] ?? "")
+      }),
+    }),
+  )
+  const issues = table.records.flatMap((record) => record.problems.map((message) => ({ line: record.line, message })))
+  return { rows, issues }
+}
+
+function tableFromRecords(name: string, records: CsvRecord[]): ImportTable {
+  const [header, ...rest] = records
+  return { name, header: (header?.cells || []).map((h) => h.trim()), records: rest }
+}
+
+// Accepts an array of row objects, optionally wrapped in {rows|data|items|students}
+function readJson(name: string, text: string): ImportTable {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (e: any) {
+    throw new Error(`Invalid JSON: ${e?.message || e}`)
+  }
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const d = data as Record<string, unknown>
+    data = ["rows", "data", "items", "students"].map((k) => d[k]).find(Array.isArray)
+  }
+  if (!Array.isArray(data)) throw new Error("Expected a JSON array of student records")
+
+  const header: string[] = []
+  for (const item of data) {
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      for (const key of Object.keys(item)) if (!header.includes(key)) header.push(key)
+    }
+  }
+  const records = data.map((item, i): CsvRecord => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return { line: i + 1, cells: [], problems: ["Entry is not an object"] }
+    }
+    const problems: string[] = []
+    const cells = header.map((key) => {
+      const value = (item as Record<string, unknown>)[key]
+      if (value == null) return ""
+      if (typeof value === "object") {
+        problems.push(`"${key}" is not a plain value`)
+        return JSON.stringify(value)
+      }
+      return String(value)
+    })
+    return { line: i + 1, cells, problems }
+  })
+  return { name, header, records }
+}
+
+// Reads a bulk import file into one table per sheet (a single table for CSV and JSON)
+export async function readImportFile(file: File): Promise<ImportTable[]> {
+  switch (importFormat(file.name)) {
+    case "csv":
+      return [tableFromRecords(file.name, parseCsv(await file.text()))]
+    case "json":
+      return [readJson(file.name, await file.text())]
+    case "xlsx":
+      return (await readXlsx(await file.arrayBuffer())).map((sheet) => tableFromRecords(sheet.name, sheet.records))
+    default:
+      throw new Error("Unsupported file type. Use .csv, .xlsx or .json")
+  }
+}
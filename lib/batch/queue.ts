@@ -0,0 +1,395 @@
+import { type TransactionReceipt, type TransactionResponse, isError } from "ethers"
+import { createCredentialDraft, recordMintedCredential, recordTransactionHash } from "@/lib/api/client"
+import type { MintedRecordPayload } from "@/lib/api/types"
+import { activeChain } from "@/lib/chain/profiles"
+import { signCredentialMetadata } from "@/lib/chain/issuer-signature"
+import { mintedTokenId } from "@/lib/chain/verify"
+import { getCredentialContract, isUserRejection } from "@/lib/chain/wallet"
+import { type CredentialProof, credentialMetadata, metadataIssues } from "@/lib/domain/metadata"
+import type { UniversitySummary } from "@/lib/domain/types"
+import { uploadCredentialMetadata } from "@/lib/ipfs/upload"
+import { type BulkRow, toCsv } from "./csv"
+import { rollKey } from "./validate"
+
+// Batch minting from a bulk CSV. Each row becomes one credential: its metadata is
+// signed by the issuing wallet, uploaded to IPFS (several uploads in flight at once),
+// then minted one transaction at a time, each confirmed in MetaMask. The job is saved
+// to localStorage after every step, so a reload resumes where it stopped instead of
+// minting a row twice: a row whose transaction was sent but not yet confirmed is
+// settled from its tx hash.
+// Under an approval policy rows aren't minted here: each becomes a draft in the
+// approval queue instead (see lib/chain/approval.ts).
+
+export type BatchItemStatus = "queued" | "uploaded" | "minting" | "minted" | "submitted" | "failed" | "skipped"
+
+export interface BatchItem {
+  row: BulkRow
+  // Wallet of the registered student with this roll number
+  recipient: string | null
+  credentialId: string
+  status: BatchItemStatus
+  attempts: number
+  // Issuer signature over the row's metadata, kept so a resumed job doesn't ask again
+  proof?: CredentialProof
+  tokenURI?: string
+  txHash?: string
+  tokenId?: string
+  // Approval queue draft, for rows submitted under an approval policy
+  draftId?: string
+  error?: string
+}
+
+export interface BatchJob {
+  id: string
+  createdAt: string
+  // The chain and contract the job mints on; a resumed job refuses to switch
+  chainId: number
+  contract: string
+  issuer: Pick<UniversitySummary, "id" | "name" | "walletAddress">
+  items: BatchItem[]
+}
+
+export const MAX_ATTEMPTS = 3
+const UPLOAD_CONCURRENCY = 4
+const STORAGE_KEY = "vericred_batch_mint"
+
+export function loadBatchJob(): BatchJob | null {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as BatchJob) : null
+  } catch {
+    return null
+  }
+}
+
+function saveBatchJob(job: BatchJob) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(job))
+  } catch (e) {
+    console.warn("Could not save batch mint progress:", e)
+  }
+}
+
+export function clearBatchJob() {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// `recipients` maps roll numbers (as rollKey) to student wallets. Rows without a wallet, with
+// missing required fields or repeating an earlier roll number are skipped.
+export function createBatchJob(
+  rows: BulkRow[],
+  issuer: BatchJob["issuer"],
+  recipients: Map<string, string>,
+): BatchJob {
+  const chain = activeChain()
+  const createdAt = new Date().toISOString()
+  const seen = new Set<string>()
+  const items = rows.map((row): BatchItem => {
+    const roll = row.roll_number
+    const recipient = recipients.get(rollKey(roll)) || null
+    const item: BatchItem = {
+      row,
+      recipient,
+      credentialId: `${String(issuer.id).toUpperCase()}-${Date.parse(createdAt)}-${roll}`,
+      status: "queued",
+      attempts: 0,
+    }
+    const missing = (["student_name", "roll_number", "program"] as const).find((f) => !row[f])
+    if (missing) return { ...item, status: "skipped", error: `${missing} is required` }
+    if (seen.has(rollKey(roll))) return { ...item, status: "skipped", error: `Duplicate roll number ${roll}` }
+    seen.add(rollKey(roll))
+    if (!recipient) {
+      return { ...item, status: "skipped", error: `No registered student with a wallet for roll number ${roll}` }
+    }
+    return item
+  })
+  const job: BatchJob = {
+    id: `${Date.parse(createdAt)}`,
+    createdAt,
+    chainId: chain.chainId,
+    contract: chain.contractAddress,
+    issuer,
+    items,
+  }
+  saveBatchJob(job)
+  return job
+}
+
+// Puts failed rows back in the queue, keeping an already uploaded tokenURI
+export function retryFailed(job: BatchJob, index?: number): BatchJob {
+  const next: BatchJob = {
+    ...job,
+    items: job.items.map((item, i) =>
+      item.status === "failed" && (index === undefined || i === index)
+        ? { ...item, status: item.tokenURI ? "uploaded" : "queued", attempts: 0, error: undefined }
+        : item,
+    ),
+  }
+  saveBatchJob(next)
+  return next
+}
+
+const descriptionFor = (job: BatchJob, row: BulkRow) =>
+  `Official academic credential awarded by ${job.issuer.name} for the successful completion of the ${row.program} program.`
+
+function metadataFor(job: BatchJob, item: BatchItem) {
+  const { row } = item
+  return credentialMetadata({
+    name: row.program,
+    description: descriptionFor(job, row),
+    credentialType: row.program,
+    major: row.major,
+    issueDate: row.issued_date,
+    graduationDate: row.graduation_date,
+    credentialId: item.credentialId,
+    batchYear: row.batch_year,
+    issuer: job.issuer,
+    recipient: { name: row.student_name, walletAddress: item.recipient || "" },
+  })
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const backoff = (attempt: number) => sleep(1000 * 2 ** (attempt - 1))
+
+const errorText = (err: any) => err?.shortMessage || err?.message || String(err)
+
+export interface RunBatchOptions {
+  onUpdate: (job: BatchJob) => void
+  // Aborting pauses the job after the row in progress
+  signal?: AbortSignal
+}
+
+// Works through every queued row. Resolves when nothing is left to do or the run
+// was paused; rejects (leaving the job saved) if the wallet prompt is dismissed.
+export async function runBatchJob(job: BatchJob, { onUpdate, signal }: RunBatchOptions): Promise<BatchJob> {
+  let current = job
+  const patch = (index: number, changes: Partial<BatchItem>) => {
+    current = { ...current, items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) }
+    saveBatchJob(current)
+    onUpdate(current)
+  }
+  const indexes = (status: BatchItemStatus) =>
+    current.items.flatMap((item, i) => (item.status === status ? [i] : []))
+
+  // 1. Issuer signatures, one wallet prompt per row
+  for (const index of indexes("queued")) {
+    if (signal?.aborted) return current
+    const item = current.items[index]
+    if (item.proof) continue
+    const metadata = metadataFor(current, item)
+    const problems = metadataIssues(metadata)
+    if (problems.length) {
+      // Retrying can't fix the row; it needs editing and re-importing
+      patch(index, { status: "failed", error: `Invalid metadata: ${problems.join("; ")}` })
+      continue
+    }
+    try {
+      patch(index, { proof: (await signCredentialMetadata(metadata)).proof, error: undefined })
+    } catch (err) {
+      if (isUserRejection(err)) {
+        patch(index, { error: "Signature rejected in wallet" })
+        throw err
+      }
+      patch(index, { status: "failed", error: `Signing: ${errorText(err)}` })
+    }
+  }
+
+  // 2. Metadata uploads, a few at a time
+  const uploads = indexes("queued")
+  const uploadWorker = async () => {
+    for (let index = uploads.shift(); index !== undefined && !signal?.aborted; index = uploads.shift()) {
+      const item = current.items[index]
+      const metadata = { ...metadataFor(current, item), proof: item.proof }
+      for (let attempt = item.attempts + 1; ; attempt++) {
+        try {
+          const tokenURI = await uploadCredentialMetadata(metadata)
+          patch(index, { status: "uploaded", tokenURI, attempts: 0, error: undefined })
+          break
+        } catch (err) {
+          if (attempt >= MAX_ATTEMPTS) {
+            patch(index, { status: "failed", attempts: attempt, error: `IPFS upload: ${errorText(err)}` })
+            break
+          }
+          patch(index, { attempts: attempt, error: errorText(err) })
+          await backoff(attempt)
+        }
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, uploadWorker))
+  if (signal?.aborted) return current
+  if (!indexes("minting").length && !indexes("uploaded").length) return current
+
+  // 3. Mints, one confirmed transaction at a time
+  const { chain, contract, signer } = await getCredentialContract()
+  if (chain.chainId !== current.chainId || chain.contractAddress.toLowerCase() !== current.contract.toLowerCase()) {
+    throw new Error(`This batch was started on chain ${current.chainId}; switch back to it to continue`)
+  }
+  const provider = signer.provider
+
+  const finish = async (index: number, receipt: TransactionReceipt) => {
+    const item = current.items[index]
+    if (receipt.status !== 1) {
+      patch(index, { status: "failed", txHash: receipt.hash, error: "Mint transaction reverted" })
+      return
+    }
+    const tokenId = mintedTokenId(contract, receipt.logs)
+    patch(index, { status: "minted", txHash: receipt.hash, tokenId: tokenId?.toString(), error: undefined })
+    await recordMinted(current, current.items[index], receipt.hash).catch((e) =>
+      console.warn(`Failed to persist minted record for row ${item.row.line}:`, e),
+    )
+  }
+
+  // Once a row's transaction is sent it is only ever settled from the chain, never sent
+  // again: a revert or a cancelled replacement fails the row, a sped-up replacement
+  // counts as the mint, and an RPC error leaves it "minting" for the next run
+  const settle = async (index: number, sent: TransactionResponse) => {
+    try {
+      const receipt = await sent.wait()
+      if (receipt) await finish(index, receipt)
+    } catch (err) {
+      if (isError(err, "CALL_EXCEPTION")) {
+        patch(index, { status: "failed", error: "Mint transaction reverted" })
+      } else if (isError(err, "TRANSACTION_REPLACED")) {
+        if (err.reason === "repriced") await finish(index, err.receipt)
+        else patch(index, { status: "failed", txHash: err.replacement.hash, error: `Mint transaction ${err.reason}` })
+      } else {
+        patch(index, { error: `Waiting for ${sent.hash}: ${errorText(err)}` })
+      }
+    }
+  }
+
+  // Rows whose transaction went out before a reload
+  for (const index of indexes("minting")) {
+    const { txHash } = current.items[index]
+    const sent = txHash ? await provider.getTransaction(txHash).catch(() => null) : null
+    if (sent) {
+      await settle(index, sent)
+      continue
+    }
+    const receipt = txHash ? await provider.getTransactionReceipt(txHash).catch(() => null) : null
+    if (receipt) await finish(index, receipt)
+    else {
+      // Dropped, or replaced by another transaction from the wallet; only the registrar can tell
+      patch(index, {
+        status: "failed",
+        error: `Transaction ${txHash ?? ""} not found; check the wallet's activity before retrying`,
+      })
+    }
+  }
+
+  for (const index of indexes("uploaded")) {
+    if (signal?.aborted) break
+    const item = current.items[index]
+    for (let attempt = item.attempts + 1; ; attempt++) {
+      let tx: TransactionResponse
+      try {
+        tx = await contract.mintDoc(item.recipient, item.tokenURI)
+      } catch (err) {
+        // Nothing was broadcast, so sending again is safe
+        if (isUserRejection(err)) {
+          patch(index, { status: "uploaded", error: "Rejected in wallet" })
+          throw err
+        }
+        if (attempt >= MAX_ATTEMPTS) {
+          patch(index, { status: "failed", attempts: attempt, error: `Mint: ${errorText(err)}` })
+          break
+        }
+        patch(index, { status: "uploaded", attempts: attempt, error: errorText(err) })
+        await backoff(attempt)
+        continue
+      }
+      patch(index, { status: "minting", txHash: tx.hash, attempts: attempt })
+      await settle(index, tx)
+      break
+    }
+  }
+  return current
+}
+
+// Files every queued row as a draft awaiting approval. No wallet prompts: drafts are
+// signed by the issuer only when they are minted from the approval queue.
+export async function submitBatchForApproval(job: BatchJob, { onUpdate, signal }: RunBatchOptions): Promise<BatchJob> {
+  let current = job
+  const patch = (index: number, changes: Partial<BatchItem>) => {
+    current = { ...current, items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) }
+    saveBatchJob(current)
+    onUpdate(current)
+  }
+  for (const [index, item] of job.items.entries()) {
+    if (signal?.aborted) break
+    if (item.status !== "queued") continue
+    const metadata = metadataFor(current, item)
+    const problems = metadataIssues(metadata)
+    if (problems.length) {
+      patch(index, { status: "failed", error: `Invalid metadata: ${problems.join("; ")}` })
+      continue
+    }
+    try {
+      const draft = await createCredentialDraft({ student_wallet: item.recipient || "", metadata })
+      patch(index, { status: "submitted", draftId: draft.id, error: undefined })
+    } catch (err) {
+      patch(index, { status: "failed", attempts: item.attempts + 1, error: `Draft: ${errorText(err)}` })
+    }
+  }
+  return current
+}
+
+async function recordMinted(job: BatchJob, item: BatchItem, txHash: string) {
+  await recordTransactionHash(txHash).catch((e) => console.warn("Failed to persist transaction hash:", e))
+  const now = new Date().toISOString()
+  const payload: MintedRecordPayload = {
+    id: crypto.randomUUID(),
+    degree_id: 0,
+    student_wallet: item.recipient || "",
+    university_wallet: job.issuer.walletAddress,
+    degree_name: item.row.program,
+    description: descriptionFor(job, item.row),
+    type: item.row.program,
+    major: item.row.major,
+    issued_date: item.row.issued_date ? new Date(item.row.issued_date).toISOString() : now,
+    graduation_date: item.row.graduation_date,
+    created_at: now,
+    updated_at: now,
+    ipfs_link: item.tokenURI || "",
+    dean_sig: item.proof?.signature || "",
+    token_id: item.tokenId,
+    tx_hash: txHash,
+  }
+  await recordMintedCredential(payload)
+}
+
+export function batchSummary(job: BatchJob) {
+  const counts: Record<BatchItemStatus, number> = {
+    queued: 0,
+    uploaded: 0,
+    minting: 0,
+    minted: 0,
+    submitted: 0,
+    failed: 0,
+    skipped: 0,
+  }
+  for (const item of job.items) counts[item.status]++
+  const done = counts.minted + counts.submitted + counts.failed + counts.skipped
+  return { ...counts, total: job.items.length, done }
+}
+
+// Row-by-row outcome as CSV, for the registrar's records
+export function batchReport(job: BatchJob): string {
+  return toCsv(
+    ["line", "student_name", "roll_number", "recipient", "status", "token_id", "tx_hash", "ipfs_link", "error"],
+    job.items.map((item) => [
+      item.row.line,
+      item.row.student_name,
+      item.row.roll_number,
+      item.recipient,
+      item.status,
+      item.tokenId,
+      item.txHash,
+      item.tokenURI,
+      item.error,
+    ]),
+  )
+}
@@ -0,0 +1,109 @@
+import { type BulkColumn, type BulkRow, EXPECTED_HEADER, parseCsv, toBulkRow } from "./csv"
+
+// In-browser checks for bulk student CSVs, run before anything is uploaded.
+// Mirrors what the backend rejects so registrars can fix rows in the preview grid.
+
+export interface RowIssue {
+  // Source line of the row (see BulkRow.line)
+  line: number
+  // Absent for problems with the row as a whole, such as broken quoting
+  column?: BulkColumn
+  message: string
+}
+
+export const REQUIRED_COLUMNS: readonly BulkColumn[] = [
+  "student_name",
+  "roll_number",
+  "program",
+  "major",
+  "batch_year",
+  "issued_date",
+]
+
+export const MIN_BATCH_YEAR = 1950
+
+// Roll numbers are matched case-insensitively, here, in the mint queue and against registered students
+export const rollKey = (roll: string) => roll.trim().toUpperCase()
+
+// Batches can be registered a few years ahead of graduation
+export function maxBatchYear() {
+  return new Date().getFullYear() + 6
+}
+
+// YYYY-MM-DD that is also a real calendar date (rejects 2023-02-30)
+export function isIsoDate(value: string): boolean {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!m) return false
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])]
+  const date = new Date(Date.UTC(y, mo - 1, d))
+  return date.getUTCFullYear() === y && date.getUTCMonth() === mo - 1 && date.getUTCDate() === d
+}
+
+// Parses a bulk CSV whose header was already checked. Quoting problems and wrong
+// column counts come back as row issues; they describe the file as read, so they
+// stop applying once the row has been edited.
+export function readBulkCsv(text: string): { rows: BulkRow[]; issues: RowIssue[] } {
+  const [, ...records] = parseCsv(text)
+  const issues: RowIssue[] = []
+  for (const record of records) {
+    for (const message of record.problems) issues.push({ line: record.line, message })
+    if (record.cells.length !== EXPECTED_HEADER.length) {
+      issues.push({
+        line: record.line,
+        message: `Expected ${EXPECTED_HEADER.length} columns, found ${record.cells.length}`,
+      })
+    }
+  }
+  return { rows: records.map(toBulkRow), issues }
+}
+
+// Content checks for every cell; cheap enough to rerun on each edit
+export function validateRows(rows: BulkRow[]): RowIssue[] {
+  const issues: RowIssue[] = []
+  const firstLine = new Map<string, number>()
+  const maxYear = maxBatchYear()
+
+  for (const row of rows) {
+    const issue = (column: BulkColumn, message: string) => issues.push({ line: row.line, column, message })
+
+    for (const column of EXPECTED_HEADER) {
+      const value = row[column]
+      if (!value) {
+        if (REQUIRED_COLUMNS.includes(column)) issue(column, "Required")
+        continue
+      }
+      if (value.includes("\uFFFD")) {
+        issue(column, "Contains characters that could not be decoded; save the file as UTF-8")
+      } else if (/[\u0000-\u001F\u007F]/.test(value)) {
+        issue(column, "Contains line breaks or control characters")
+      }
+    }
+
+    for (const column of ["issued_date", "graduation_date"] as const) {
+      if (row[column] && !isIsoDate(row[column])) issue(column, "Use an ISO date (YYYY-MM-DD)")
+    }
+    if (
+      isIsoDate(row.issued_date) &&
+      isIsoDate(row.graduation_date) &&
+      row.graduation_date < row.issued_date
+    ) {
+      issue("graduation_date", "Graduation date is before the issued date")
+    }
+
+    if (row.batch_year) {
+      const year = Number(row.batch_year)
+      if (!/^\d{4}$/.test(row.batch_year)) issue("batch_year", "Use a four-digit year")
+      else if (year < MIN_BATCH_YEAR || year > maxYear) {
+        issue("batch_year", `Must be between ${MIN_BATCH_YEAR} and ${maxYear}`)
+      }
+    }
+
+    const roll = rollKey(row.roll_number)
+    if (roll) {
+      const first = firstLine.get(roll)
+      if (first !== undefined) issue("roll_number", `Duplicate of line ${first}`)
+      else firstLine.set(roll, row.line)
+    }
+  }
+  return issues
+}
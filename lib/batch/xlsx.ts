@@ -0,0 +1,179 @@
+import type { CsvRecord } from "./csv"
+
+// Minimal .xlsx reader for bulk imports: enough of the zip container and the
+// SpreadsheetML parts to read cell values from each sheet. Inflating uses the
+// browser's DecompressionStream, so no spreadsheet library ships to the client.
+// Formulas come back as their cached values; dates as YYYY-MM-DD.
+
+export interface XlsxSheet {
+  name: string
+  // `line` is the spreadsheet row number
+  records: CsvRecord[]
+}
+
+// TypeScript 5.0's DOM lib predates DecompressionStream
+const Decompression = (globalThis as any).DecompressionStream as
+  | (new (format: "deflate-raw") => TransformStream<Uint8Array, Uint8Array>)
+  | undefined
+
+// --- Zip container ------------------------------------------------------------
+
+async function unzip(buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  // End of central directory: last 22+ bytes, signature 0x06054b50
+  let eocd = -1
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error("Not an .xlsx file (no zip directory found)")
+
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const entries = new Map<string, () => Promise<string>>()
+  const decoder = new TextDecoder()
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Corrupt .xlsx file")
+    const method = view.getUint16(offset + 10, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const local = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true)
+    const data = bytes.subarray(start, start + size)
+    entries.set(name, async () => {
+      if (method === 0) return decoder.decode(data)
+      if (method !== 8) throw new Error(`Unsupported compression in ${name}`)
+      if (!Decompression) throw new Error("This browser can't read .xlsx files; export the sheet as CSV")
+      const stream = new Blob([data]).stream().pipeThrough(new Decompression("deflate-raw"))
+      return decoder.decode(await new Response(stream).arrayBuffer())
+    })
+  }
+  return entries
+}
+
+// --- XML helpers ----------------------------------------------------------------
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }
+
+function decodeXml(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] !== "#") return ENTITIES[e] ?? m
+    return String.fromCodePoint(e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10))
+  })
+}
+
+function attrs(tag: string): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const m of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) out[m[1]] = decodeXml(m[2])
+  return out
+}
+
+// Concatenated <t> runs of a string item, skipping phonetic hints
+function textOf(xml: string) {
+  const runs = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)
+  return Array.from(runs, (m) => decodeXml(m[1])).join("")
+}
+
+// --- Cell values ----------------------------------------------------------------
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+function isDateFormat(code: string) {
+  // Drop quoted literals, escapes and [colour]/[locale] sections before looking for date tokens
+  return /[dy]/i.test(code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ""))
+}
+
+function dateStyles(stylesXml: string | null): Set<number> {
+  const dates = new Set<number>()
+  if (!stylesXml) return dates
+  const custom = new Map<number, string>()
+  for (const m of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const a = attrs(m[0])
+    custom.set(Number(a.numFmtId), a.formatCode || "")
+  }
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] || ""
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach((m, index) => {
+    const id = Number(attrs(m[0]).numFmtId || 0)
+    if (DATE_FORMAT_IDS.has(id) || (custom.has(id) && isDateFormat(custom.get(id)!))) dates.add(index)
+  })
+  return dates
+}
+
+function serialToIso(serial: number, date1904: boolean) {
+  // Excel's 1900 system counts from 1899-12-30 (it treats 1900 as a leap year)
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30)
+  return new Date(epoch + Math.floor(serial) * 86400000).toISOString().slice(0, 10)
+}
+
+function columnIndex(ref: string) {
+  let index = 0
+  for (const ch of ref.replace(/\d+$/, "").toUpperCase()) index = index * 26 + (ch.charCodeAt(0) - 64)
+  return index - 1
+}
+
+// --- Workbook -------------------------------------------------------------------
+
+export async function readXlsx(buffer: ArrayBuffer): Promise<XlsxSheet[]> {
+  const files = await unzip(buffer)
+  const read = async (path: string) => (files.has(path) ? files.get(path)!() : null)
+
+  const workbook = await read("xl/workbook.xml")
+  if (!workbook) throw new Error("Not an .xlsx workbook")
+  const date1904 = /<workbookPr\b[^>]*date1904\s*=\s*"(1|true)"/.test(workbook)
+
+  const targets = new Map<string, string>()
+  for (const m of ((await read("xl/_rels/workbook.xml.rels")) || "").matchAll(/<Relationship\b[^>]*>/g)) {
+    const a = attrs(m[0])
+    targets.set(a.Id, a.Target.startsWith("/") ? a.Target.slice(1) : `xl/${a.Target}`)
+  }
+
+  const sharedXml = await read("xl/sharedStrings.xml")
+  const shared = sharedXml ? Array.from(sharedXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), (m) => textOf(m[1])) : []
+  const dates = dateStyles(await read("xl/styles.xml"))
+
+  const sheets: XlsxSheet[] = []
+  for (const m of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const a = attrs(m[0])
+    const xml = await read(targets.get(a["r:id"]) || "")
+    if (xml == null) continue
+
+    const records: CsvRecord[] = []
+    let nextRow = 1
+    for (const row of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const line = Number(attrs(row[1]).r) || nextRow
+      nextRow = line + 1
+      const cells: string[] = []
+      let nextCol = 0
+      for (const c of (row[2] || "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const ca = attrs(c[1])
+        const col = ca.r ? columnIndex(ca.r) : nextCol
+        nextCol = col + 1
+        const body = c[2] || ""
+        const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1]
+        let value = ""
+        if (ca.t === "inlineStr") value = textOf(body)
+        else if (raw === undefined) value = ""
+        else if (ca.t === "s") value = shared[Number(raw)] ?? ""
+        else if (ca.t === "b") value = raw === "1" ? "TRUE" : "FALSE"
+        else if (ca.t === "str" || ca.t === "e") value = decodeXml(raw)
+        else if (dates.has(Number(ca.s)) && raw !== "") value = serialToIso(Number(raw), date1904)
+        else value = String(Number(raw))
+        while (cells.length < col) cells.push("")
+        cells[col] = value
+      }
+      if (cells.some((v) => v.trim())) records.push({ line, cells, problems: [] })
+    }
+    sheets.push({ name: a.name || `Sheet ${sheets.length + 1}`, records })
+  }
+  if (sheets.length === 0) throw new Error("The workbook has no readable sheets")
+  return sheets
+}
@@ -0,0 +1,153 @@
+import { verifyTypedData } from "ethers"
+import type { ApprovalDecision, ApprovalPolicy, CredentialDraft } from "@/lib/api/types"
+import { credentialDomain, metadataHash } from "./issuer-signature"
+import { activeChain } from "./profiles"
+import { getCredentialContract } from "./wallet"
+
+// Multi-signature approval of credentials before they are minted.
+// A university's policy names the wallets that must sign off (registrar, dean, ...)
+// and how many of them are needed. Each decision is an EIP-712 `Approval` over the
+// draft's metadata hash, so an approval can't be carried over to edited metadata.
+// Like revocations, the backend only collects decisions: quorum is counted from
+// signatures that recover to a signer in the draft's own copy of the policy.
+
+export const APPROVAL_TYPES = {
+  Approval: [
+    { name: "draftId", type: "string" },
+    { name: "credentialId", type: "string" },
+    { name: "metadataHash", type: "bytes32" },
+    { name: "decision", type: "string" },
+    { name: "role", type: "string" },
+    { name: "note", type: "string" },
+    { name: "approver", type: "address" },
+    { name: "signedAt", type: "string" },
+  ],
+}
+
+export type ApprovalStatement = Omit<ApprovalDecision, "signature">
+
+function approvalMessage(s: ApprovalStatement) {
+  return {
+    draftId: s.draft_id,
+    credentialId: s.credential_id,
+    metadataHash: s.metadata_hash,
+    decision: s.decision,
+    role: s.role,
+    note: s.note,
+    approver: s.approver,
+    signedAt: s.signed_at,
+  }
+}
+
+function same(a?: string | null, b?: string | null) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+// Problems with a policy a university is about to save; empty when it can be saved.
+// A policy without signers switches approvals off.
+export function policyIssues(policy: Pick<ApprovalPolicy, "signers" | "threshold">): string[] {
+  if (policy.signers.length === 0) return []
+  const issues: string[] = []
+  const seen = new Set<string>()
+  policy.signers.forEach((s, i) => {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(s.wallet)) issues.push(`Signer ${i + 1}: not a wallet address`)
+    else if (seen.has(s.wallet.toLowerCase())) issues.push(`Signer ${i + 1}: listed twice`)
+    if (!s.role.trim()) issues.push(`Signer ${i + 1}: role is required`)
+    seen.add(s.wallet.toLowerCase())
+  })
+  if (!Number.isInteger(policy.threshold) || policy.threshold < 1 || policy.threshold > policy.signers.length) {
+    issues.push(`Approvals needed must be between 1 and ${policy.signers.length}`)
+  }
+  return issues
+}
+
+// Whether credentials have to go through the approval queue at all
+export function requiresApproval(policy: Pick<ApprovalPolicy, "signers" | "threshold"> | null | undefined) {
+  return !!policy && policy.signers.length > 0 && policy.threshold > 0
+}
+
+// Why nothing can be minted yet: until the policy has loaded (undefined; null means the
+// university has none) it isn't known whether minting needs approval, so it stays closed
+export function policyBlockedReason(policy: ApprovalPolicy | null | undefined, loadError?: string | null) {
+  if (policy !== undefined) return null
+  return loadError ? `Couldn't load the approval policy: ${loadError}` : "Loading the approval policy..."
+}
+
+export function signerFor(draft: Pick<CredentialDraft, "policy">, wallet: string) {
+  return draft.policy.signers.find((s) => same(s.wallet, wallet)) ?? null
+}
+
+// Prompts the connected wallet, which must be one of the draft's signers, to approve or reject it
+export async function signApproval(
+  draft: CredentialDraft,
+  decision: ApprovalDecision["decision"],
+  note = "",
+): Promise<ApprovalDecision> {
+  const { chain, signer } = await getCredentialContract()
+  const approver = await signer.getAddress()
+  const designated = signerFor(draft, approver)
+  if (!designated) throw new Error(`Connected wallet ${approver} is not an approver for this credential`)
+  const statement: ApprovalStatement = {
+    draft_id: draft.id,
+    credential_id: String(draft.metadata?.credential?.id ?? ""),
+    // Hashed here rather than trusted from the backend, so the prompt covers what is on screen
+    metadata_hash: metadataHash(draft.metadata),
+    decision,
+    role: designated.role,
+    note: note.trim(),
+    approver,
+    signed_at: new Date().toISOString(),
+    chain_id: chain.chainId,
+    contract: chain.contractAddress,
+  }
+  const signature = await signer.signTypedData(credentialDomain(chain), APPROVAL_TYPES, approvalMessage(statement))
+  return { ...statement, signature }
+}
+
+// Whether a decision is a genuine statement by one of the draft's signers about its current metadata
+export function isValidApproval(entry: ApprovalDecision, draft: CredentialDraft) {
+  const designated = signerFor(draft, entry.approver)
+  if (!designated || entry.role !== designated.role || entry.draft_id !== draft.id) return false
+  if (entry.metadata_hash !== metadataHash(draft.metadata)) return false
+  const chain = activeChain()
+  if (entry.chain_id !== chain.chainId || !same(entry.contract, chain.contractAddress)) return false
+  try {
+    const { signature, ...statement } = entry
+    const recovered = verifyTypedData(credentialDomain(chain), APPROVAL_TYPES, approvalMessage(statement), signature)
+    return same(recovered, entry.approver)
+  } catch {
+    return false
+  }
+}
+
+export type ApprovalState = {
+  approvedBy: ApprovalDecision[]
+  rejectedBy: ApprovalDecision[]
+  // Signers who haven't decided yet
+  waitingOn: CredentialDraft["policy"]["signers"]
+  threshold: number
+  quorum: boolean
+  // Too many rejections left for the threshold to be reached
+  blocked: boolean
+}
+
+// Counts each signer's latest valid decision; anything that fails verification is ignored
+export function approvalState(draft: CredentialDraft): ApprovalState {
+  const latest = new Map<string, ApprovalDecision>()
+  const ordered = [...draft.approvals].sort((a, b) => Date.parse(a.signed_at) - Date.parse(b.signed_at))
+  for (const entry of ordered) {
+    if (isValidApproval(entry, draft)) latest.set(entry.approver.toLowerCase(), entry)
+  }
+  const decisions = [...latest.values()]
+  const approvedBy = decisions.filter((d) => d.decision === "approved")
+  const rejectedBy = decisions.filter((d) => d.decision === "rejected")
+  const { signers, threshold } = draft.policy
+  return {
+    approvedBy,
+    rejectedBy,
+    waitingOn: signers.filter((s) => !latest.has(s.wallet.toLowerCase())),
+    threshold,
+    quorum: approvedBy.length >= threshold,
+    blocked: signers.length - rejectedBy.length < threshold,
+  }
+}
@@ -0,0 +1,123 @@
+import { type TypedDataDomain, keccak256, toUtf8Bytes, verifyTypedData } from "ethers"
+import type { CredentialMetadata, CredentialProof } from "@/lib/domain/metadata"
+import type { ChainProfile } from "./profiles"
+import { getCredentialContract } from "./wallet"
+
+// Issuer signatures over credential metadata.
+// Before upload the issuing wallet signs an EIP-712 `Credential` struct: the fields a
+// reader needs to see in the wallet prompt, plus `metadataHash`, the keccak256 of the
+// whole document (minus its proof) in canonical JSON. The signature and signer go
+// into the document's `proof`, so anyone holding the metadata can recover who issued
+// it and whether a single byte has changed since.
+
+export const CREDENTIAL_TYPES = {
+  Credential: [
+    { name: "credentialId", type: "string" },
+    { name: "name", type: "string" },
+    { name: "credentialType", type: "string" },
+    { name: "issuer", type: "address" },
+    { name: "issuerName", type: "string" },
+    { name: "recipient", type: "address" },
+    { name: "recipientName", type: "string" },
+    { name: "issueDate", type: "string" },
+    { name: "metadataHash", type: "bytes32" },
+  ],
+}
+
+export function credentialDomain(chain: ChainProfile): CredentialProof["domain"] {
+  return { name: "VeriCred", version: "1", chainId: chain.chainId, verifyingContract: chain.contractAddress }
+}
+
+// JSON with object keys sorted and undefined members dropped, so the same document
+// hashes the same before upload and after a round trip through IPFS
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null"
+  if (Array.isArray(value)) return `[${value.map((v) => (v === undefined ? "null" : canonicalJson(v))).join(",")}]`
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`
+}
+
+export function metadataHash(doc: Record<string, unknown>) {
+  const { proof: _proof, ...unsigned } = doc
+  return keccak256(toUtf8Bytes(canonicalJson(unsigned)))
+}
+
+function credentialMessage(doc: any) {
+  return {
+    credentialId: String(doc?.credential?.id ?? ""),
+    name: String(doc?.name ?? ""),
+    credentialType: String(doc?.credential?.type ?? ""),
+    issuer: String(doc?.issuer?.wallet ?? ""),
+    issuerName: String(doc?.issuer?.name ?? ""),
+    recipient: String(doc?.recipient?.wallet ?? ""),
+    recipientName: String(doc?.recipient?.name ?? ""),
+    issueDate: String(doc?.credential?.issueDate ?? ""),
+    metadataHash: metadataHash(doc ?? {}),
+  }
+}
+
+// Prompts the connected wallet (on the active chain), which must be the document's issuer, to sign it
+export async function signCredentialMetadata(doc: CredentialMetadata): Promise<CredentialMetadata> {
+  const { chain, signer } = await getCredentialContract()
+  const address = await signer.getAddress()
+  // Verifiers only accept signatures from the issuer wallet, so don't produce any other
+  if (address.toLowerCase() !== doc.issuer.wallet.toLowerCase()) {
+    throw new Error(`Connected wallet ${address} is not the issuer wallet ${doc.issuer.wallet}`)
+  }
+  const { proof: _proof, ...unsigned } = doc
+  const domain = credentialDomain(chain)
+  const signature = await signer.signTypedData(domain, CREDENTIAL_TYPES, credentialMessage(unsigned))
+  return {
+    ...unsigned,
+    proof: {
+      type: "EthereumEip712Signature2021",
+      signer: address,
+      signature,
+      created: new Date().toISOString(),
+      domain,
+    },
+  }
+}
+
+export type IssuerSignature =
+  | { status: "unsigned" }
+  | { status: "invalid"; signer: string | null; reason: string }
+  | { status: "valid"; signer: string; created: string; domain: CredentialProof["domain"] }
+
+// Recovers the signer of a metadata document. "valid" only means the signature is
+// intact and came from proof.signer; whether that wallet may issue for the university
+// is the caller's check.
+export function readIssuerSignature(metadata: any, chain?: ChainProfile): IssuerSignature {
+  const proof = metadata?.proof
+  if (!proof) return { status: "unsigned" }
+  const signer = typeof proof.signer === "string" ? proof.signer : null
+  if (proof.type !== "EthereumEip712Signature2021" || !signer || typeof proof.signature !== "string" || !proof.domain) {
+    return { status: "invalid", signer, reason: "Malformed signature block" }
+  }
+  if (chain) {
+    const expected = credentialDomain(chain)
+    if (
+      Number(proof.domain.chainId) !== expected.chainId ||
+      String(proof.domain.verifyingContract).toLowerCase() !== expected.verifyingContract.toLowerCase()
+    ) {
+      return { status: "invalid", signer, reason: `Signed for chain ${proof.domain.chainId}, not ${chain.name}` }
+    }
+  }
+  try {
+    const recovered = verifyTypedData(
+      proof.domain as TypedDataDomain,
+      CREDENTIAL_TYPES,
+      credentialMessage(metadata),
+      proof.signature,
+    )
+    if (recovered.toLowerCase() !== signer.toLowerCase()) {
+      // Any edit to the document changes metadataHash and with it the recovered address
+      return { status: "invalid", signer, reason: "Metadata was changed after it was signed" }
+    }
+    return { status: "valid", signer: recovered, created: String(proof.created ?? ""), domain: proof.domain }
+  } catch {
+    return { status: "invalid", signer, reason: "Signature does not match the metadata" }
+  }
+}
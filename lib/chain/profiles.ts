@@ -0,0 +1,95 @@
+// Registry of the networks the app can run against: chain id, RPC, contract,
+// explorer link templates and native currency, in one place.
+// NEXT_PUBLIC_CHAIN_PROFILE picks one at build time: "sepolia" (default) or "local"
+// for a Hardhat/Anvil node on 127.0.0.1:8545 with the contract deployed by
+// scripts/deploy-local.mjs.
+
+export type ChainProfileId = "sepolia" | "local"
+
+export type ChainProfile = {
+  id: ChainProfileId
+  name: string
+  chainId: number
+  rpcUrl: string
+  contractAddress: string
+  // Block explorer link templates ({hash}, {address}), or null when the chain has none (local dev node)
+  explorer: { name: string; url: string; tx: string; address: string; token: string } | null
+  nativeCurrency: { name: string; symbol: string; decimals: number }
+  // Block the contract was deployed in; lower bound for event log scans
+  deployBlock?: number
+}
+
+const SEPOLIA_CONTRACT = "0xc0a70a43CD5fAF5B15db983fe9f9E769B221738e"
+
+// First contract deployed by the default dev account on a fresh Hardhat/Anvil node
+const LOCAL_DEFAULT_CONTRACT = "0x5FbDB2315678afecb367f032d93F642f64180aa3"
+
+export const CHAIN_PROFILES: Record<ChainProfileId, ChainProfile> = {
+  sepolia: {
+    id: "sepolia",
+    name: "Sepolia",
+    chainId: 11155111,
+    rpcUrl: "https://rpc.sepolia.org",
+    contractAddress: SEPOLIA_CONTRACT,
+    explorer: {
+      name: "Etherscan",
+      url: "https://sepolia.etherscan.io",
+      tx: "https://sepolia.etherscan.io/tx/{hash}",
+      address: "https://sepolia.etherscan.io/address/{address}",
+      token: "https://sepolia.etherscan.io/token/{address}",
+    },
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+  },
+  local: {
+    id: "local",
+    name: "Local dev chain",
+    chainId: 31337,
+    rpcUrl: "http://127.0.0.1:8545",
+    contractAddress: LOCAL_DEFAULT_CONTRACT,
+    explorer: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    deployBlock: 0,
+  },
+}
+
+// process.env.NEXT_PUBLIC_* must be read literally so Next can inline them in the client bundle
+export function activeChain(): ChainProfile {
+  if (process.env.NEXT_PUBLIC_CHAIN_PROFILE === "local") {
+    const local = CHAIN_PROFILES.local
+    return {
+      ...local,
+      rpcUrl: process.env.NEXT_PUBLIC_LOCAL_RPC_URL || local.rpcUrl,
+      contractAddress: process.env.NEXT_PUBLIC_LOCAL_CONTRACT_ADDRESS || local.contractAddress,
+    }
+  }
+  const sepolia = CHAIN_PROFILES.sepolia
+  const deployBlock = Number(process.env.NEXT_PUBLIC_CONTRACT_DEPLOY_BLOCK)
+  return {
+    ...sepolia,
+    rpcUrl: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL || sepolia.rpcUrl,
+    contractAddress: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || sepolia.contractAddress,
+    deployBlock: Number.isInteger(deployBlock) && deployBlock > 0 ? deployBlock : sepolia.deployBlock,
+  }
+}
+
+export function findChainProfile(chainId: number | bigint | string): ChainProfile | null {
+  const id = typeof chainId === "string" ? Number.parseInt(chainId, chainId.startsWith("0x") ? 16 : 10) : Number(chainId)
+  return Object.values(CHAIN_PROFILES).find((p) => p.chainId === id) ?? null
+}
+
+// EIP-155 chain id in the 0x-hex form wallet RPC methods expect
+export function hexChainId(chain: ChainProfile) {
+  return `0x${chain.chainId.toString(16)}`
+}
+
+export function txExplorerUrl(hash: string, chain = activeChain()) {
+  return chain.explorer ? chain.explorer.tx.replace("{hash}", hash) : null
+}
+
+export function addressExplorerUrl(address: string, chain = activeChain()) {
+  return chain.explorer ? chain.explorer.address.replace("{address}", address) : null
+}
+
+export function tokenExplorerUrl(chain = activeChain()) {
+  return chain.explorer ? chain.explorer.token.replace("{address}", chain.contractAddress) : null
+}
@@ -0,0 +1,95 @@
+import { verifyMessage } from "ethers"
+import type { RevocationEntry } from "@/lib/api/types"
+import { activeChain } from "./profiles"
+import { getWalletSigner } from "./wallet"
+
+// Signed revocation list.
+// The credential contract has no revoke function, so status changes are statements
+// signed by the issuing university's wallet. The backend stores and serves them, but
+// a verifier only honours entries whose signature recovers to the credential's
+// on-chain issuer: the backend can withhold a revocation, not forge one.
+
+export type RevocationAction = RevocationEntry["action"]
+
+export type RevocationState =
+  | { status: "active" }
+  | { status: "revoked"; at: string; reason: string; entry: RevocationEntry }
+  | { status: "suspended"; at: string; reason: string; entry: RevocationEntry }
+
+export type RevocationStatus = RevocationState["status"]
+
+// Unsigned part of an entry; everything here is covered by the signature
+export type RevocationStatement = Omit<RevocationEntry, "signature">
+
+// The exact text the issuer signs (EIP-191 personal_sign). Human-readable so the
+// wallet prompt shows what is being revoked and why.
+export function revocationMessage(s: RevocationStatement) {
+  return [
+    "VeriCred credential status change",
+    `Action: ${s.action}`,
+    `Credential: ${s.credential_id}`,
+    `Token: ${s.token_id ?? "-"}`,
+    `Contract: ${s.contract} (chain ${s.chain_id})`,
+    `Reason: ${s.reason}`,
+    `Issued at: ${s.issued_at}`,
+    `Issuer: ${s.issuer}`,
+  ].join("\n")
+}
+
+// Prompts the connected wallet to sign a status change for a credential it issued
+export async function signRevocation(input: {
+  credentialId: string
+  tokenId?: string
+  action: RevocationAction
+  reason: string
+}): Promise<RevocationEntry> {
+  const signer = await getWalletSigner()
+  const chain = activeChain()
+  const statement: RevocationStatement = {
+    credential_id: input.credentialId,
+    token_id: input.tokenId,
+    action: input.action,
+    reason: input.reason.trim(),
+    issued_at: new Date().toISOString(),
+    issuer: await signer.getAddress(),
+    chain_id: chain.chainId,
+    contract: chain.contractAddress,
+  }
+  const signature = await signer.signMessage(revocationMessage(statement))
+  return { ...statement, signature }
+}
+
+function same(a?: string | null, b?: string | null) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+// Whether an entry is a genuine statement by `issuer` about this credential
+export function isValidRevocation(
+  entry: RevocationEntry,
+  target: { credentialId?: string; tokenId?: string | null; issuer: string | null },
+) {
+  if (!target.issuer || !same(entry.issuer, target.issuer)) return false
+  const chain = activeChain()
+  if (entry.chain_id !== chain.chainId || !same(entry.contract, chain.contractAddress)) return false
+  // The token id is authoritative when both sides know it; otherwise match the backend id
+  if (entry.token_id != null && target.tokenId != null) {
+    if (entry.token_id !== target.tokenId) return false
+  } else if (entry.credential_id !== target.credentialId) return false
+  try {
+    const { signature, ...statement } = entry
+    return same(verifyMessage(revocationMessage(statement), signature), entry.issuer)
+  } catch {
+    return false
+  }
+}
+
+// Folds a credential's valid entries into its current state. Revocation is
+// permanent; a suspension holds until a later reinstatement.
+export function revocationState(entries: RevocationEntry[]): RevocationState {
+  const ordered = [...entries].sort((a, b) => Date.parse(a.issued_at) - Date.parse(b.issued_at))
+  const revoked = ordered.find((e) => e.action === "revoked")
+  if (revoked) return { status: "revoked", at: revoked.issued_at, reason: revoked.reason, entry: revoked }
+  const last = ordered.filter((e) => e.action === "suspended" || e.action === "reinstated").pop()
+  if (last?.action === "suspended") return { status: "suspended", at: last.issued_at, reason: last.reason, entry: last }
+  return { status: "active" }
+}
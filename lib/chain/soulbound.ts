@@ -0,0 +1,66 @@
+import { Interface } from "ethers"
+import mintAbi from "@/types/mint.abi.json"
+import { activeChain } from "./profiles"
+
+// Credentials are soulbound: the verifier flags any token that has left the wallet it
+// was minted to. The deployed contract still exposes ERC-721 approve/transfer, so in
+// the app every wallet transaction passes through a guard that stops those calls until
+// the user confirms (contracts/SoulboundCredential.sol blocks them outright).
+
+const credentialInterface = new Interface(mintAbi as any)
+
+const TRANSFER_FUNCTIONS = new Set(["approve", "setApprovalForAll", "transferFrom", "safeTransferFrom"])
+
+export type TransferAttempt = {
+  // approve, setApprovalForAll, transferFrom or safeTransferFrom
+  method: string
+  tokenId: string | null
+  // Recipient or operator that would be able to take the token
+  counterparty: string | null
+}
+
+// Decodes a wallet transaction that would move a credential, or authorise someone to
+function transferAttempt(tx: { to?: string; data?: string } | undefined): TransferAttempt | null {
+  if (!tx?.to || !tx.data) return null
+  if (tx.to.toLowerCase() !== activeChain().contractAddress.toLowerCase()) return null
+  let parsed
+  try {
+    parsed = credentialInterface.parseTransaction({ data: tx.data })
+  } catch {
+    return null
+  }
+  if (!parsed || !TRANSFER_FUNCTIONS.has(parsed.name)) return null
+  const args = parsed.args
+  switch (parsed.name) {
+    case "approve":
+      return { method: parsed.name, tokenId: args[1].toString(), counterparty: args[0] }
+    case "setApprovalForAll":
+      // Revoking an operator (approved = false) is harmless
+      return args[1] ? { method: parsed.name, tokenId: null, counterparty: args[0] } : null
+    default:
+      return { method: parsed.name, tokenId: args[2].toString(), counterparty: args[1] }
+  }
+}
+
+// Intercepts eth_sendTransaction on the injected wallet; `confirm` decides whether a
+// transfer or approval of a credential goes ahead. Returns an uninstall function.
+export function installTransferGuard(confirm: (attempt: TransferAttempt) => Promise<boolean>) {
+  if (typeof window === "undefined" || !window.ethereum) return () => {}
+  const eth = window.ethereum
+  const original = eth.request
+  const guarded: typeof original = async (args) => {
+    if (args.method === "eth_sendTransaction") {
+      const attempt = transferAttempt(args.params?.[0])
+      if (attempt && !(await confirm(attempt))) {
+        throw Object.assign(new Error("Credential transfer cancelled: credentials are non-transferable"), {
+          code: 4001,
+        })
+      }
+    }
+    return original.call(eth, args)
+  }
+  eth.request = guarded
+  return () => {
+    if (eth.request === guarded) eth.request = original
+  }
+}
@@ -0,0 +1,455 @@
+import { Contract, JsonRpcProvider, ZeroAddress } from "ethers"
+import mintAbi from "@/types/mint.abi.json"
+import type { RevocationEntry } from "@/lib/api/types"
+import { readCredentialMetadata } from "@/lib/domain/metadata"
+import { type IssuerSignature, readIssuerSignature } from "./issuer-signature"
+import { type ChainProfile, activeChain } from "./profiles"
+import { type RevocationState, isValidRevocation, revocationState } from "./revocation"
+
+// Backend-independent credential verification.
+// The verifier reads the token straight from the contract through a read-only RPC
+// provider and cross-checks it against the backend record and the IPFS metadata.
+// The backend is only trusted to say *which* token to look at; everything it
+// claims about that token is checked against the chain.
+
+// UNCONFIRMED: the token exists and nothing contradicts the record, but the wallet that
+// minted it couldn't be read from the chain or isn't a verified organisation
+export type VerificationStatus =
+  | "VERIFIED"
+  | "UNCONFIRMED"
+  | "NOT_FOUND"
+  | "TAMPERED"
+  | "TRANSFERRED"
+  | "REVOKED"
+  | "SUSPENDED"
+
+export type CheckStatus = "pass" | "fail" | "warn" | "pending"
+
+export type VerificationCheck = {
+  id:
+    | "token"
+    | "mint-tx"
+    | "owner"
+    | "soulbound"
+    | "token-uri"
+    | "issuer-verified"
+    | "issuer-match"
+    | "revocation"
+    | "metadata"
+    | "signature"
+  label: string
+  status: CheckStatus
+  detail: string
+}
+
+// A post-mint Transfer of the token
+export type TokenTransfer = { from: string; to: string; txHash: string; blockNumber: number }
+
+export type ChainFacts = {
+  chain: ChainProfile
+  tokenId: string | null
+  owner: string | null
+  tokenURI: string | null
+  // The transaction whose Transfer(0x0 -> recipient, tokenId) log minted the token, and its sender
+  mintTxHash: string | null
+  minter: string | null
+  // Whether the backend's tx_hash is that transaction; null when the backend sent none
+  claimedTxMatches: boolean | null
+  issuer: string | null
+  issuerVerified: boolean | null
+  // Recipient of the mint, and every transfer since; null when the log history couldn't be read
+  mintedTo: string | null
+  transfers: TokenTransfer[] | null
+  // Contract declares tokens non-transferable (ERC-5192)
+  locked: boolean
+  error?: string
+  // The RPC couldn't be read; absence of the token proves nothing
+  unreachable?: boolean
+}
+
+// The subset of a backend credential record the verifier relies on
+export type CredentialClaim = {
+  id?: string
+  token_id?: string | number
+  tx_hash?: string
+  student_wallet?: string
+  university_wallet?: string
+  ipfs_link?: string
+  revocations?: RevocationEntry[]
+}
+
+// ERC-5192 minimal soulbound interface id
+const ERC5192_INTERFACE_ID = "0xb45a3c0e"
+
+export function readOnlyProvider(chain = activeChain()) {
+  return new JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true })
+}
+
+function same(a?: string | null, b?: string | null) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+// ipfs://CID/path, /ipfs/CID/path and https://<gateway>/ipfs/CID/path all name the same content
+export function canonicalTokenUri(uri: string) {
+  const t = uri.trim()
+  const m = t.match(/(?:^ipfs:\/\/|\/ipfs\/)(.+)$/i)
+  return m ? `ipfs://${m[1].replace(/^ipfs\//i, "")}` : t
+}
+
+function mintLogs(
+  contract: Contract,
+  logs: readonly { topics: readonly string[]; data: string; address: string }[],
+): bigint[] {
+  const ids: bigint[] = []
+  for (const log of logs) {
+    if (!same(log.address, String(contract.target))) continue
+    try {
+      const parsed = contract.interface.parseLog(log)
+      if (parsed?.name === "Transfer" && parsed.args.from === ZeroAddress) ids.push(parsed.args.tokenId as bigint)
+    } catch {}
+  }
+  return ids
+}
+
+// Token id minted by a transaction, from its Transfer(0x0 -> recipient) log
+export function mintedTokenId(
+  contract: Contract,
+  logs: readonly { topics: readonly string[]; data: string; address: string }[],
+): bigint | null {
+  return mintLogs(contract, logs)[0] ?? null
+}
+
+// Finds the token for a claim: explicit token id, then the mint transaction, then a
+// scan of mints to the claimed recipient whose tokenURI matches the claimed link.
+// Only which token to look at comes from the claim; who minted it is read from the
+// token's own mint log (see readChainFacts).
+async function locateToken(contract: Contract, provider: JsonRpcProvider, claim: CredentialClaim, chain: ChainProfile) {
+  if (claim.token_id != null && String(claim.token_id).trim() !== "") return BigInt(String(claim.token_id).trim())
+  if (claim.tx_hash) {
+    const receipt = await provider.getTransactionReceipt(claim.tx_hash)
+    const fromReceipt = receipt ? mintedTokenId(contract, receipt.logs) : null
+    if (fromReceipt != null) return fromReceipt
+  }
+  if (!claim.student_wallet || !claim.ipfs_link) return null
+
+  const logs = await contract.queryFilter(
+    contract.filters.Transfer(ZeroAddress, claim.student_wallet),
+    chain.deployBlock ?? 0,
+  )
+  const wanted = canonicalTokenUri(claim.ipfs_link)
+  for (const log of logs.reverse()) {
+    const tokenId = (log as any).args?.tokenId as bigint | undefined
+    if (tokenId == null) continue
+    const uri: string = await contract.tokenURI(tokenId)
+    if (canonicalTokenUri(uri) === wanted) return tokenId
+  }
+  return null
+}
+
+// Credentials are soulbound: the only expected Transfer is the mint itself
+async function readTransferHistory(contract: Contract, tokenId: bigint, facts: ChainFacts) {
+  try {
+    const logs = await contract.queryFilter(contract.filters.Transfer(null, null, tokenId), facts.chain.deployBlock ?? 0)
+    const transfers: TokenTransfer[] = []
+    for (const log of logs) {
+      const args = (log as any).args
+      if (!args) continue
+      if (args.from === ZeroAddress) {
+        facts.mintedTo = args.to
+        facts.mintTxHash = log.transactionHash
+      } else transfers.push({ from: args.from, to: args.to, txHash: log.transactionHash, blockNumber: log.blockNumber })
+    }
+    facts.transfers = transfers
+  } catch {
+    // Public RPCs often cap log ranges; the other checks still stand
+    facts.transfers = null
+  }
+}
+
+// Settles the mint transaction from the chain. When the log history couldn't be read, the
+// backend's tx_hash is accepted only if its receipt mints this very token.
+async function readMint(
+  contract: Contract,
+  provider: JsonRpcProvider,
+  claim: CredentialClaim,
+  tokenId: bigint,
+  facts: ChainFacts,
+) {
+  if (claim.tx_hash) {
+    if (facts.mintTxHash) {
+      facts.claimedTxMatches = same(claim.tx_hash, facts.mintTxHash)
+    } else {
+      const receipt = await provider.getTransactionReceipt(claim.tx_hash)
+      facts.claimedTxMatches = !!receipt && mintLogs(contract, receipt.logs).includes(tokenId)
+      if (facts.claimedTxMatches) facts.mintTxHash = receipt!.hash
+    }
+  }
+  if (facts.mintTxHash) facts.minter = (await provider.getTransaction(facts.mintTxHash))?.from ?? null
+}
+
+export async function readChainFacts(claim: CredentialClaim, chain = activeChain()): Promise<ChainFacts> {
+  const facts: ChainFacts = {
+    chain,
+    tokenId: null,
+    owner: null,
+    tokenURI: null,
+    mintTxHash: null,
+    minter: null,
+    claimedTxMatches: null,
+    issuer: null,
+    issuerVerified: null,
+    mintedTo: null,
+    transfers: null,
+    locked: false,
+  }
+  // A malformed id names no token; it isn't a reason to call the RPC unreachable
+  if (claim.token_id != null && !/^\s*\d*\s*$/.test(String(claim.token_id))) {
+    facts.error = `Token id "${claim.token_id}" is not a number`
+    return facts
+  }
+  const provider = readOnlyProvider(chain)
+  const contract = new Contract(chain.contractAddress, mintAbi as any, provider)
+  try {
+    const tokenId = await locateToken(contract, provider, claim, chain)
+    if (tokenId == null) {
+      facts.error = "No token on the contract matches this credential"
+      return facts
+    }
+    facts.tokenId = tokenId.toString()
+    try {
+      facts.owner = await contract.ownerOf(tokenId)
+    } catch {
+      facts.error = `Token #${facts.tokenId} does not exist on ${chain.name}`
+      return facts
+    }
+    facts.tokenURI = await contract.tokenURI(tokenId)
+    await readTransferHistory(contract, tokenId, facts)
+    facts.locked = await contract.supportsInterface(ERC5192_INTERFACE_ID).catch(() => false)
+    await readMint(contract, provider, claim, tokenId, facts)
+    // The issuer is whoever sent the mint; the backend's university_wallet is never taken for it
+    facts.issuer = facts.minter
+    if (facts.issuer) facts.issuerVerified = Boolean(await contract.verifiedOrgs(facts.issuer))
+  } catch (e: any) {
+    facts.error = `Could not read ${chain.name}: ${e?.shortMessage || e?.message || String(e)}`
+    facts.unreachable = true
+  }
+  return facts
+}
+
+// The wallet that issued the token: the sender of the transaction that minted it
+function onChainIssuer(facts: ChainFacts) {
+  return facts.claimedTxMatches === false ? null : facts.minter
+}
+
+// Applies the claim's signed revocation entries that genuinely come from the on-chain
+// issuer. `ignored` counts entries that failed that check.
+export function checkRevocations(
+  claim: CredentialClaim,
+  facts: ChainFacts,
+): { state: RevocationState; ignored: number } {
+  const entries = claim.revocations ?? []
+  const issuer = onChainIssuer(facts)
+  const valid = entries.filter((e) =>
+    isValidRevocation(e, { credentialId: claim.id, tokenId: facts.tokenId, issuer }),
+  )
+  return { state: revocationState(valid), ignored: entries.length - valid.length }
+}
+
+function day(iso: string) {
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleDateString()
+}
+
+// Only the issuing university's wallet may sign; a valid signature from any other wallet is a forgery
+function signatureCheck(signature: IssuerSignature, facts: ChainFacts | null): Pick<VerificationCheck, "status" | "detail"> {
+  if (signature.status === "unsigned") {
+    return { status: "warn", detail: "No issuer signature (issued before metadata signing)" }
+  }
+  if (signature.status === "invalid") return { status: "fail", detail: signature.reason }
+  if (!facts) return { status: "pending", detail: `Signed by ${signature.signer}` }
+  const issuer = facts.owner ? onChainIssuer(facts) : null
+  if (!issuer) {
+    return { status: "warn", detail: `Signed by ${signature.signer}; the issuing wallet could not be determined` }
+  }
+  return same(signature.signer, issuer)
+    ? { status: "pass", detail: `Signed by ${signature.signer}, the issuing wallet` }
+    : { status: "fail", detail: `Signed by ${signature.signer}, not the issuing wallet ${issuer}` }
+}
+
+// Cross-checks chain facts, the backend claim and the metadata. Pure, so pages can
+// re-run it as each input arrives; checks whose inputs are missing stay "pending".
+export function evaluateCredential(input: {
+  claim: CredentialClaim
+  facts: ChainFacts | null
+  metadata: any
+  metadataError?: string | null
+  // Whether /api/ipfs checked the metadata against the tokenURI's CID (or Arweave data root)
+  metadataVerified?: boolean
+}): {
+  status: VerificationStatus | null
+  checks: VerificationCheck[]
+  revocation: RevocationState | null
+  signature: IssuerSignature | null
+} {
+  const { claim, facts, metadata, metadataError, metadataVerified } = input
+  const checks: VerificationCheck[] = []
+  let revocation: RevocationState | null = null
+  const chainName = facts?.chain.name ?? activeChain().name
+  const details = readCredentialMetadata(metadata)
+  const metaRecipient = details?.recipient.wallet ?? null
+  const metaIssuer = details?.issuer.wallet ?? null
+
+  if (!facts) {
+    checks.push({ id: "token", label: `Token exists on ${chainName}`, status: "pending", detail: "Reading the contract…" })
+  } else if (!facts.owner) {
+    checks.push({
+      id: "token",
+      label: `Token exists on ${chainName}`,
+      status: facts.unreachable ? "warn" : "fail",
+      detail: facts.error ?? "Token not found",
+    })
+  } else {
+    checks.push({ id: "token", label: `Token exists on ${chainName}`, status: "pass", detail: `Token #${facts.tokenId}` })
+
+    checks.push({
+      id: "mint-tx",
+      label: "Backend record names the mint transaction",
+      status: facts.claimedTxMatches === false ? "fail" : facts.mintTxHash ? "pass" : "warn",
+      detail:
+        facts.claimedTxMatches === false
+          ? `Transaction ${claim.tx_hash} did not mint token #${facts.tokenId}${
+              facts.mintTxHash ? `; it was minted in ${facts.mintTxHash}` : ""
+            }`
+          : facts.mintTxHash
+            ? `Minted in ${facts.mintTxHash} by ${facts.minter ?? "unknown"}`
+            : "Could not find the transaction that minted this token",
+    })
+
+    const expected = [claim.student_wallet, metaRecipient].filter(Boolean) as string[]
+    const mismatched = expected.filter((w) => !same(w, facts.owner))
+    checks.push({
+      id: "owner",
+      label: "Held by the named recipient",
+      status: expected.length === 0 ? "warn" : mismatched.length ? "fail" : "pass",
+      detail: mismatched.length
+        ? `Token is owned by ${facts.owner}, not ${mismatched.join(" / ")}`
+        : expected.length
+          ? `Owner ${facts.owner}`
+          : "No recipient wallet to compare with",
+    })
+
+    const movedAway = !!facts.mintedTo && !same(facts.mintedTo, facts.owner)
+    checks.push({
+      id: "soulbound",
+      label: "Never transferred since minting",
+      status:
+        facts.transfers == null ? "warn" : facts.transfers.length > 0 || movedAway ? "fail" : "pass",
+      detail:
+        facts.transfers == null
+          ? "Could not read the token's transfer history"
+          : facts.transfers.length > 0 || movedAway
+            ? `Minted to ${facts.mintedTo ?? "unknown"}, transferred ${facts.transfers.length} time${
+                facts.transfers.length === 1 ? "" : "s"
+              }, now held by ${facts.owner}`
+            : `Held by the wallet it was minted to${facts.locked ? "; the contract blocks transfers" : ""}`,
+    })
+
+    checks.push({
+      id: "token-uri",
+      label: "Backend record points at the minted metadata",
+      status: !claim.ipfs_link
+        ? "warn"
+        : canonicalTokenUri(claim.ipfs_link) === canonicalTokenUri(facts.tokenURI ?? "")
+          ? "pass"
+          : "fail",
+      detail: claim.ipfs_link
+        ? `On-chain tokenURI ${facts.tokenURI}`
+        : "Backend record has no metadata link",
+    })
+
+    checks.push({
+      id: "issuer-verified",
+      label: "Issuer is a verified organisation",
+      status: facts.issuerVerified == null ? "warn" : facts.issuerVerified ? "pass" : "fail",
+      detail: facts.issuer
+        ? `${facts.issuer} ${facts.issuerVerified ? "is" : "is not"} registered on the contract`
+        : "Issuer wallet unknown",
+    })
+
+    // The backend and metadata can only be checked against the minter, never stand in for it
+    const issuers = [facts.minter, claim.university_wallet, metaIssuer].filter(Boolean) as string[]
+    const consistent = issuers.every((w) => same(w, issuers[0]))
+    checks.push({
+      id: "issuer-match",
+      label: "Issuer wallet is consistent",
+      status: !consistent ? "fail" : !facts.minter || issuers.length < 2 ? "warn" : "pass",
+      detail: !consistent
+        ? `Minted by ${facts.minter ?? "unknown"}, backend says ${claim.university_wallet ?? "—"}, metadata says ${metaIssuer ?? "—"}`
+        : facts.minter
+          ? issuers[0]
+          : "The minting wallet is unknown, so the claimed issuer can't be confirmed",
+    })
+
+    const { state, ignored } = checkRevocations(claim, facts)
+    revocation = state
+    const ignoredNote = ignored
+      ? ` (${ignored} status change${ignored === 1 ? "" : "s"} ignored: not signed by the issuer)`
+      : ""
+    checks.push({
+      id: "revocation",
+      label: "Not revoked or suspended by the issuer",
+      status: state.status === "revoked" ? "fail" : state.status === "suspended" || ignored ? "warn" : "pass",
+      detail:
+        state.status === "active"
+          ? `No signed revocation${ignoredNote}`
+          : `${state.status === "revoked" ? "Revoked" : "Suspended"} on ${day(state.at)}: ${state.reason || "no reason given"}${ignoredNote}`,
+    })
+  }
+
+  checks.push({
+    id: "metadata",
+    label: "Metadata loaded from the on-chain tokenURI",
+    status: metadata
+      ? metadataVerified === false
+        ? "warn"
+        : "pass"
+      : metadataError || (facts && !facts.owner)
+        ? "warn"
+        : "pending",
+    detail: metadata
+      ? metadataVerified
+        ? "Content matches the tokenURI's CID or data root; attributes compared above"
+        : metadataVerified === false
+          ? "Attributes compared above, but the content could not be checked against a CID"
+          : "Attributes compared above"
+      : metadataError || "Waiting for IPFS…",
+  })
+
+  const signature = metadata ? readIssuerSignature(metadata, facts?.chain) : null
+  checks.push({
+    id: "signature",
+    label: "Metadata signed by the issuing university",
+    ...(signature
+      ? signatureCheck(signature, facts)
+      : {
+          status: metadataError || (facts && !facts.owner) ? "warn" : "pending",
+          detail: metadataError || "Waiting for IPFS…",
+        }),
+  })
+
+  // A transferred token necessarily fails the owner check too; report it as a transfer, not tampering
+  const transferred = checks.some((c) => c.id === "soulbound" && c.status === "fail")
+  const lifecycleChecks: VerificationCheck["id"][] = transferred ? ["revocation", "soulbound", "owner"] : ["revocation"]
+  let status: VerificationStatus | null
+  if (facts?.unreachable) status = null
+  else if (facts && !facts.owner) status = "NOT_FOUND"
+  else if (checks.some((c) => c.status === "fail" && !lifecycleChecks.includes(c.id))) status = "TAMPERED"
+  else if (transferred) status = "TRANSFERRED"
+  else if (revocation?.status === "revoked") status = "REVOKED"
+  else if (revocation?.status === "suspended") status = "SUSPENDED"
+  else if (checks.some((c) => c.status === "pending")) status = null
+  // Only a known minter that the contract lists as a verified organisation makes it genuine
+  else if (!facts || !onChainIssuer(facts) || facts.issuerVerified !== true) status = "UNCONFIRMED"
+  else status = "VERIFIED"
+  return { status, checks, revocation, signature }
+}
@@ -0,0 +1,110 @@
+import { BrowserProvider, Contract } from "ethers"
+import mintAbi from "@/types/mint.abi.json"
+import { type ChainProfile, activeChain, findChainProfile, hexChainId } from "./profiles"
+
+// Wallet-side network checks. Every write to the credential contract goes through
+// getCredentialContract(), which refuses to hand out a signer until MetaMask is on
+// the active chain, so a mint can't land on the wrong network by accident.
+
+export class WrongNetworkError extends Error {
+  constructor(
+    public expected: ChainProfile,
+    public actualChainId: number,
+  ) {
+    const actual = findChainProfile(actualChainId)?.name ?? `chain ${actualChainId}`
+    super(`Wallet is on ${actual}; switch to ${expected.name} to continue`)
+    this.name = "WrongNetworkError"
+  }
+}
+
+// EIP-1193 / MetaMask error codes
+const USER_REJECTED = 4001
+const UNRECOGNIZED_CHAIN = 4902
+
+function ethereum() {
+  if (typeof window === "undefined" || !window.ethereum) {
+    throw new Error("MetaMask not available in this browser")
+  }
+  return window.ethereum
+}
+
+function errorCode(err: any): number | undefined {
+  // MetaMask mobile wraps the code in data.originalError
+  return err?.code ?? err?.data?.originalError?.code
+}
+
+// True when the user dismissed a wallet prompt (ethers wraps 4001 as ACTION_REJECTED)
+export function isUserRejection(err: unknown): boolean {
+  return errorCode(err) === USER_REJECTED || (err as any)?.code === "ACTION_REJECTED"
+}
+
+export async function walletChainId(): Promise<number> {
+  return Number.parseInt(await ethereum().request({ method: "eth_chainId" }), 16)
+}
+
+// Asks the wallet to switch to `chain`, adding it first if the wallet doesn't know it.
+export async function switchToChain(chain: ChainProfile = activeChain()) {
+  const eth = ethereum()
+  const chainId = hexChainId(chain)
+  try {
+    await eth.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] })
+  } catch (err) {
+    if (errorCode(err) !== UNRECOGNIZED_CHAIN) throw err
+    await eth.request({
+      method: "wallet_addEthereumChain",
+      params: [
+        {
+          chainId,
+          chainName: chain.name,
+          rpcUrls: [chain.rpcUrl],
+          nativeCurrency: chain.nativeCurrency,
+          blockExplorerUrls: chain.explorer ? [chain.explorer.url] : undefined,
+        },
+      ],
+    })
+  }
+}
+
+// Resolves once the wallet is on `chain`, prompting a switch if needed.
+// Throws WrongNetworkError if the user declines or the wallet stays elsewhere.
+export async function ensureChain(chain: ChainProfile = activeChain()) {
+  const current = await walletChainId()
+  if (current === chain.chainId) return
+  try {
+    await switchToChain(chain)
+  } catch (err) {
+    if (errorCode(err) === USER_REJECTED) throw new WrongNetworkError(chain, current)
+    throw err
+  }
+  const after = await walletChainId()
+  if (after !== chain.chainId) throw new WrongNetworkError(chain, after)
+}
+
+// Signer-bound credential contract on the active chain
+export async function getCredentialContract() {
+  const chain = activeChain()
+  const eth = ethereum()
+  await eth.request({ method: "eth_requestAccounts" })
+  await ensureChain(chain)
+  // Build the provider after any switch; ethers rejects calls if the network changes under it
+  const provider = new BrowserProvider(eth as any)
+  const signer = await provider.getSigner()
+  const contract = new Contract(chain.contractAddress, mintAbi as any, signer as any)
+  return { chain, signer, contract }
+}
+
+// Signer for off-chain signatures; unlike getCredentialContract() it doesn't require the active chain
+export async function getWalletSigner() {
+  const eth = ethereum()
+  await eth.request({ method: "eth_requestAccounts" })
+  return new BrowserProvider(eth as any).getSigner()
+}
+
+// Subscribes to wallet chain changes; returns an unsubscribe function
+export function onChainChanged(handler: (chainId: number) => void) {
+  if (typeof window === "undefined" || !window.ethereum) return () => {}
+  const eth = window.ethereum
+  const listener = (hex: string) => handler(Number.parseInt(hex, 16))
+  eth.on("chainChanged", listener)
+  return () => eth.removeListener("chainChanged", listener)
+}
@@ -0,0 +1,56 @@
+import type { BackendCredential, CredentialTypeEntry } from "@/lib/api/types"
+import type { CredentialProgram } from "./types"
+
+// A university's catalog of credential types. The mint form picks its credential
+// type from the active entries, and a minted credential counts towards the entry
+// whose current or earlier name matches the credential's `type`.
+
+export type CredentialTypeFields = Pick<CredentialTypeEntry, "name" | "category" | "description">
+
+const sameName = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Problems with an entry about to be saved; `others` are the university's other entries
+export function credentialTypeIssues(
+  fields: CredentialTypeFields,
+  others: Pick<CredentialTypeEntry, "id" | "name">[] = [],
+): string[] {
+  const issues: string[] = []
+  if (!fields.name?.trim()) issues.push("Name is required")
+  if (!fields.category?.trim()) issues.push("Category is required")
+  if (fields.name && others.some((o) => sameName(o.name, fields.name))) {
+    issues.push(`A credential type named "${fields.name.trim()}" already exists`)
+  }
+  return issues
+}
+
+export function namesOf(entry: Pick<CredentialTypeEntry, "name" | "history">) {
+  return [entry.name, ...entry.history.map((v) => v.name)]
+}
+
+// Minted credentials of this entry's university whose type is one of the entry's names
+export function countIssued(entry: CredentialTypeEntry, credentials: BackendCredential[]) {
+  const names = namesOf(entry)
+  return credentials.filter(
+    (c) => sameName(c.university_wallet, entry.university_wallet) && names.some((n) => sameName(n, c.type)),
+  ).length
+}
+
+export function toCredentialProgram(entry: CredentialTypeEntry): CredentialProgram {
+  const previousNames = [...new Set(entry.history.map((v) => v.name))].filter((n) => n !== entry.name)
+  return {
+    id: entry.id,
+    name: entry.name,
+    type: entry.category,
+    description: entry.description,
+    totalIssued: entry.total_issued ?? 0,
+    status: entry.status,
+    createdDate: entry.created_at,
+    version: entry.version,
+    previousNames: previousNames.length ? previousNames : undefined,
+  }
+}
+
+// The active entry a mint form's credential type refers to, if any
+export function catalogEntryFor(catalog: CredentialProgram[], credentialType: string) {
+  return catalog.find((c) => c.status === "active" && sameName(c.name, credentialType)) ?? null
+}
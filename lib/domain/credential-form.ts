@@ -0,0 +1,126 @@
+import type { CredentialTemplate } from "@/lib/api/types"
+import type { Student, University } from "./types"
+
+// The mint modal's form: starting values, university templates, and the per-student
+// copy saved to localStorage as the admin types, so closing the modal (or reloading)
+// doesn't lose a half-filled credential.
+
+export interface CredentialFormData {
+  name: string
+  description: string
+  credentialType: string
+  major: string
+  gpa: string
+  issueDate: string
+  graduationDate: string
+  credentialId: string
+  verificationUrl: string
+  accreditationBody: string
+}
+
+const today = () => new Date().toISOString().split("T")[0]
+
+// An empty form with the fields that don't depend on the credential filled in
+export function blankCredentialForm(student: Student, university: University): CredentialFormData {
+  const credentialId = `${String(university.id).toUpperCase()}-${Date.now()}-${student.id}`
+  return {
+    name: "",
+    description: "",
+    credentialType: "",
+    major: "",
+    gpa: "",
+    issueDate: today(),
+    graduationDate: today(),
+    credentialId,
+    verificationUrl: `https://vericred.com/verify?credentialId=${credentialId}`,
+    accreditationBody: "",
+  }
+}
+
+// --- Templates ------------------------------------------------------------------
+
+export const TEMPLATE_PLACEHOLDERS = ["{student}", "{university}"] as const
+
+export function fillPlaceholders(pattern: string, student: Student, university: University) {
+  return pattern.replaceAll("{student}", student.name).replaceAll("{university}", university.name)
+}
+
+// Template fields override the form; per-student fields (GPA, dates, ID) are kept
+export function applyTemplate(
+  form: CredentialFormData,
+  template: CredentialTemplate,
+  student: Student,
+  university: University,
+): CredentialFormData {
+  return {
+    ...form,
+    name: template.name,
+    credentialType: template.credential_type,
+    major: template.major ?? form.major,
+    description: fillPlaceholders(template.description, student, university),
+    accreditationBody: template.accreditation_body ?? "",
+  }
+}
+
+// The reverse of applyTemplate: names in the description become placeholders again
+export function templateFromForm(
+  form: CredentialFormData,
+  student: Student,
+  university: University,
+): Omit<CredentialTemplate, "id"> {
+  const generalise = (text: string) =>
+    [
+      [university.name, "{university}"],
+      [student.name, "{student}"],
+    ].reduce((acc, [value, placeholder]) => (value ? acc.replaceAll(value, placeholder) : acc), text)
+  return {
+    name: form.name.trim(),
+    credential_type: form.credentialType.trim(),
+    major: form.major.trim() || undefined,
+    description: generalise(form.description.trim()),
+    accreditation_body: form.accreditationBody.trim() || undefined,
+  }
+}
+
+export function templateIssues(template: Omit<CredentialTemplate, "id">): string[] {
+  const issues: string[] = []
+  if (!template.name?.trim()) issues.push("Credential name is required")
+  if (!template.credential_type?.trim()) issues.push("Credential type is required")
+  if (!template.description?.trim()) issues.push("Description is required")
+  const placeholders = (template.description ?? "").match(/\{[^}]*\}/g) ?? []
+  const unknown = placeholders.filter((p) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(p))
+  if (unknown.length) issues.push(`Unknown placeholder ${unknown[0]}; use {student} or {university}`)
+  return issues
+}
+
+// --- Saved forms -----------------------------------------------------------------
+
+const STORAGE_PREFIX = "vericred_mint_form"
+
+const storageKey = (university: University, student: Student) => `${STORAGE_PREFIX}:${university.id}:${student.id}`
+
+export type SavedCredentialForm = { form: CredentialFormData; savedAt: string }
+
+export function loadSavedForm(student: Student, university: University): SavedCredentialForm | null {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = localStorage.getItem(storageKey(university, student))
+    const saved = raw ? (JSON.parse(raw) as SavedCredentialForm) : null
+    return saved?.form ? saved : null
+  } catch {
+    return null
+  }
+}
+
+export function saveForm(student: Student, university: University, form: CredentialFormData) {
+  try {
+    const saved: SavedCredentialForm = { form, savedAt: new Date().toISOString() }
+    localStorage.setItem(storageKey(university, student), JSON.stringify(saved))
+  } catch (e) {
+    console.warn("Could not save the credential form:", e)
+  }
+}
+
+export function clearSavedForm(student: Student, university: University) {
+  localStorage.removeItem(storageKey(university, student))
+}
@@ -0,0 +1,208 @@
+import { z } from "zod"
+
+// Token metadata uploaded to IPFS for each credential NFT. Built in one place so
+// single mints and batch mints produce documents verifiers read the same way.
+//
+// Version 1 (unversioned, before schemaVersion existed) only had OpenSea-style
+// `attributes` with free-form trait names. Version 2 adds typed `credential`,
+// `issuer` and `recipient` objects and keeps `attributes` for marketplaces and
+// older readers. readCredentialMetadata() accepts both.
+//
+// A v2 document may carry a `proof`: the issuing wallet's EIP-712 signature over the
+// rest of the document (see lib/chain/issuer-signature.ts).
+
+export const METADATA_SCHEMA_VERSION = 2
+
+export interface CredentialMetadataInput {
+  name: string
+  description: string
+  credentialType: string
+  major: string
+  gpa?: string
+  issueDate: string
+  graduationDate: string
+  credentialId: string
+  accreditationBody?: string
+  batchYear?: string
+  issuer: { name: string; walletAddress: string }
+  recipient: { name: string; walletAddress: string }
+}
+
+const required = z.string().trim().min(1, "required")
+const optional = z.string().trim().optional()
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD")
+const wallet = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "not a wallet address")
+const party = z.object({ name: required, wallet })
+
+export const credentialProofSchema = z.object({
+  type: z.literal("EthereumEip712Signature2021"),
+  signer: wallet,
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "not a signature"),
+  created: z.string(),
+  domain: z.object({ name: z.string(), version: z.string(), chainId: z.number(), verifyingContract: wallet }),
+})
+
+export type CredentialProof = z.infer<typeof credentialProofSchema>
+
+export const credentialMetadataSchema = z.object({
+  schemaVersion: z.literal(METADATA_SCHEMA_VERSION),
+  name: required,
+  description: z.string(),
+  credential: z.object({
+    id: required,
+    type: required,
+    major: optional,
+    gpa: optional,
+    issueDate: isoDate,
+    graduationDate: isoDate.or(z.literal("")).optional(),
+    accreditationBody: optional,
+    batchYear: optional,
+  }),
+  issuer: party,
+  recipient: party,
+  attributes: z.array(z.object({ trait_type: z.string(), value: z.string() })),
+  custom_fields: z.record(z.string()).optional(),
+  proof: credentialProofSchema.optional(),
+})
+
+export type CredentialMetadata = z.infer<typeof credentialMetadataSchema>
+
+export function credentialMetadata(input: CredentialMetadataInput): CredentialMetadata {
+  const attributes = [
+    { trait_type: "Credential Type", value: input.credentialType },
+    { trait_type: "Issuing Institution", value: input.issuer.name },
+    { trait_type: "Issuer Wallet", value: input.issuer.walletAddress },
+    { trait_type: "Recipient Name", value: input.recipient.name },
+    { trait_type: "Recipient Wallet", value: input.recipient.walletAddress },
+    { trait_type: "Issue Date", value: input.issueDate },
+    { trait_type: "Graduation Date", value: input.graduationDate },
+    { trait_type: "Major", value: input.major },
+    { trait_type: "GPA", value: input.gpa ?? "" },
+    { trait_type: "Credential ID", value: input.credentialId },
+    { trait_type: "Accreditation Body", value: input.accreditationBody ?? "" },
+  ]
+  if (input.batchYear) attributes.push({ trait_type: "Batch Year", value: input.batchYear })
+  return {
+    schemaVersion: METADATA_SCHEMA_VERSION,
+    name: input.name,
+    description: input.description,
+    credential: {
+      id: input.credentialId,
+      type: input.credentialType,
+      major: input.major,
+      gpa: input.gpa,
+      issueDate: input.issueDate,
+      graduationDate: input.graduationDate,
+      accreditationBody: input.accreditationBody,
+      batchYear: input.batchYear,
+    },
+    issuer: { name: input.issuer.name, wallet: input.issuer.walletAddress },
+    recipient: { name: input.recipient.name, wallet: input.recipient.walletAddress },
+    attributes,
+  }
+}
+
+// Problems that would make the document unreadable to verifiers; empty when it can be uploaded
+export function metadataIssues(doc: unknown): string[] {
+  const parsed = credentialMetadataSchema.safeParse(doc)
+  if (parsed.success) return []
+  return parsed.error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message))
+}
+
+// --- Reading --------------------------------------------------------------------
+
+// Every metadata version, flattened for display, verification and export
+export interface CredentialDetails {
+  // 1 for documents written before schemaVersion existed
+  schemaVersion: number
+  name: string
+  description: string
+  credentialType: string | null
+  major: string | null
+  gpa: string | null
+  issueDate: string | null
+  graduationDate: string | null
+  credentialId: string | null
+  accreditationBody: string | null
+  batchYear: string | null
+  issuer: { name: string | null; wallet: string | null }
+  recipient: { name: string | null; wallet: string | null }
+  // Legacy free-text "dean signature" from documents before issuer signatures
+  deanSignatureHash: string | null
+  proof: CredentialProof | null
+  // Display traits this schema doesn't model (e.g. "Program Details")
+  extra: { label: string; value: string }[]
+}
+
+type DetailField = Exclude<
+  keyof CredentialDetails,
+  "schemaVersion" | "name" | "description" | "extra" | "issuer" | "recipient" | "proof"
+>
+
+// Trait names used by version 1 documents, compared case-insensitively
+const TRAIT_ALIASES: Record<DetailField | "issuerName" | "issuerWallet" | "recipientName" | "recipientWallet", string[]> = {
+  credentialType: ["Credential Type", "Type"],
+  major: ["Major"],
+  gpa: ["GPA"],
+  issueDate: ["Issue Date", "Issued Date"],
+  graduationDate: ["Graduation Date"],
+  credentialId: ["Credential ID"],
+  accreditationBody: ["Accreditation Body"],
+  batchYear: ["Batch Year"],
+  deanSignatureHash: ["Dean Signature Hash"],
+  issuerName: ["Issuing Institution", "Issuer", "University"],
+  issuerWallet: ["Issuer Wallet"],
+  recipientName: ["Recipient Name", "Student Name"],
+  recipientWallet: ["Recipient Wallet"],
+}
+
+const KNOWN_TRAITS = new Set(Object.values(TRAIT_ALIASES).flat().map((t) => t.toLowerCase()))
+
+const str = (v: unknown) => (v == null || v === "" ? null : typeof v === "object" ? null : String(v))
+
+// Reads any version of the metadata; null when the value isn't a metadata object at all
+export function readCredentialMetadata(raw: unknown): CredentialDetails | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null
+  const doc = raw as Record<string, any>
+
+  const traits = new Map<string, string>()
+  const extra: CredentialDetails["extra"] = []
+  for (const a of Array.isArray(doc.attributes) ? doc.attributes : []) {
+    const label = str(a?.trait_type ?? a?.traitType)
+    const value = str(a?.value)
+    if (!label) continue
+    if (value !== null) traits.set(label.toLowerCase(), value)
+    if (!KNOWN_TRAITS.has(label.toLowerCase()) && value !== null) extra.push({ label, value })
+  }
+  const trait = (field: keyof typeof TRAIT_ALIASES) =>
+    TRAIT_ALIASES[field].map((t) => traits.get(t.toLowerCase())).find((v) => v != null) ?? null
+
+  // Typed fields win over traits; older documents also put some fields at the top level
+  const c = doc.credential && typeof doc.credential === "object" ? doc.credential : {}
+  const issuer = doc.issuer && typeof doc.issuer === "object" ? doc.issuer : {}
+  const recipient = doc.recipient && typeof doc.recipient === "object" ? doc.recipient : {}
+  return {
+    schemaVersion: Number(doc.schemaVersion) || 1,
+    name: str(doc.name) ?? "",
+    description: str(doc.description) ?? "",
+    credentialType: str(c.type) ?? trait("credentialType") ?? str(doc.type),
+    major: str(c.major) ?? trait("major") ?? str(doc.major),
+    gpa: str(c.gpa) ?? trait("gpa") ?? str(doc.gpa),
+    issueDate: str(c.issueDate) ?? trait("issueDate"),
+    graduationDate: str(c.graduationDate) ?? trait("graduationDate"),
+    credentialId: str(c.id) ?? trait("credentialId"),
+    accreditationBody: str(c.accreditationBody) ?? trait("accreditationBody"),
+    batchYear: str(c.batchYear) ?? trait("batchYear"),
+    issuer: {
+      name: str(issuer.name) ?? trait("issuerName") ?? (typeof doc.issuer === "string" ? doc.issuer : null),
+      wallet: str(issuer.wallet) ?? trait("issuerWallet"),
+    },
+    recipient: {
+      name: str(recipient.name) ?? trait("recipientName"),
+      wallet: str(recipient.wallet) ?? trait("recipientWallet"),
+    },
+    deanSignatureHash: str(doc.custom_fields?.deanSignatureHash) ?? trait("deanSignatureHash"),
+    proof: credentialProofSchema.safeParse(doc.proof).success ? doc.proof : null,
+    extra,
+  }
+}
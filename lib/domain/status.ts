@@ -0,0 +1,65 @@
+import type { EligibilityStatus, MintingState, MintingStatus, Student } from "./types"
+
+// Compile-time exhaustiveness check for switches over the status unions
+export function assertNever(value: never): never {
+  throw new Error(`Unhandled status: ${JSON.stringify(value)}`)
+}
+
+export const ELIGIBILITY_LABELS: Record<EligibilityStatus, string> = {
+  graduated: "Graduated",
+  eligible: "Eligible",
+  pending_review: "Pending Review",
+  not_eligible: "Not Eligible",
+}
+
+export const MINTING_LABELS: Record<MintingStatus, string> = {
+  none: "Not minted",
+  pending: "Requested",
+  minting: "Minting",
+  minted: "Minted",
+  failed: "Failed",
+}
+
+export function isEligibilityStatus(value: string): value is EligibilityStatus {
+  // Own keys only: "toString" and friends are `in` every object
+  return Object.prototype.hasOwnProperty.call(ELIGIBILITY_LABELS, value)
+}
+
+// Whether a credential may be minted for this student right now.
+// Shared by the university dashboard and the mint modal so they can't disagree.
+export function canMint(student: Pick<Student, "eligibility" | "minting">): boolean {
+  const { eligibility, minting } = student
+  switch (eligibility.status) {
+    case "graduated":
+    case "eligible":
+      break
+    case "pending_review":
+    case "not_eligible":
+      return false
+    default:
+      return assertNever(eligibility)
+  }
+  switch (minting.status) {
+    case "none":
+    case "pending":
+    case "failed":
+      return true
+    case "minting":
+    case "minted":
+      return false
+    default:
+      return assertNever(minting)
+  }
+}
+
+// Explains why canMint() is false, for disabled buttons and toasts
+export function mintBlockedReason(student: Pick<Student, "eligibility" | "minting">): string | null {
+  const { eligibility, minting } = student
+  if (eligibility.status === "not_eligible") return eligibility.reason || "Student is not eligible"
+  if (eligibility.status === "pending_review") return "Eligibility is still under review"
+  if (minting.status === "minting") return "A mint is already in progress"
+  if (minting.status === "minted") return "Credential already minted"
+  return null
+}
+
+export const NOT_MINTED: MintingState = { status: "none" }
@@ -0,0 +1,83 @@
+// Canonical UI-side domain model. Components import these instead of declaring
+// their own Student/University/Credential shapes; wire formats from the backend
+// live in lib/api/types.ts and are mapped into these.
+
+// --- Eligibility / minting ----------------------------------------------------
+
+export type Eligibility =
+  | { status: "graduated"; graduationDate?: string }
+  | { status: "eligible" }
+  | { status: "pending_review" }
+  | { status: "not_eligible"; reason?: string }
+
+export type EligibilityStatus = Eligibility["status"]
+
+export type MintingState =
+  | { status: "none" }
+  | { status: "pending"; requestedAt?: string }
+  | { status: "minting"; tokenURI?: string }
+  | { status: "minted"; txHash?: string; tokenURI?: string }
+  | { status: "failed"; error: string }
+
+export type MintingStatus = MintingState["status"]
+
+// --- Student ------------------------------------------------------------------
+
+export interface Student {
+  id: string
+  name: string
+  universityId: string
+  walletAddress: string
+  eligibility: Eligibility
+  minting: MintingState
+  joinDate: string
+  lastActivity: string
+}
+
+// --- University ---------------------------------------------------------------
+
+// What lists and pickers show; enough to select a university and address it on-chain
+export interface UniversitySummary {
+  id: string
+  name: string
+  logo: string
+  walletAddress: string
+  verified: boolean
+}
+
+export interface University extends UniversitySummary {
+  description: string
+  website: string
+  adminName: string
+  adminRole: string
+  banner: string
+}
+
+// --- Credentials --------------------------------------------------------------
+
+export type CredentialStatus = "eligible" | "pending" | "minted" | "rejected"
+
+// A credential as seen by the student who holds (or can request) it
+export interface Credential {
+  id: string
+  name: string
+  issueDate: string
+  universityId: string
+  universityName: string
+  status: CredentialStatus
+  description?: string
+}
+
+// A kind of credential a university issues (e.g. "B.Sc. Computer Science")
+export interface CredentialProgram {
+  id: string
+  name: string
+  type: string
+  description: string
+  totalIssued: number
+  status: "active" | "inactive"
+  createdDate: string
+  version: number
+  // Names this type had in earlier versions, oldest first
+  previousNames?: string[]
+}
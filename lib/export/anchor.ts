@@ -0,0 +1,57 @@
+import { type ChainProfile, activeChain } from "@/lib/chain/profiles"
+
+// Identifiers shared by the credential exporters: wallets as did:pkh, the NFT as a
+// CAIP-19 asset id, and the link a reader follows to check the token on-chain.
+
+// Where the credential lives on-chain and in the backend
+export interface CredentialAnchor {
+  recordId?: string | null
+  tokenId?: string | number | null
+  txHash?: string | null
+  tokenURI?: string | null
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// urn:uuid form of a backend record id, when it is a UUID
+export function recordUrn(anchor: CredentialAnchor) {
+  return anchor.recordId && UUID.test(anchor.recordId) ? `urn:uuid:${anchor.recordId}` : undefined
+}
+
+export function anchorTokenId(anchor: CredentialAnchor) {
+  return anchor.tokenId != null && anchor.tokenId !== "" ? String(anchor.tokenId) : null
+}
+
+export function didPkh(wallet: string, chain: ChainProfile = activeChain()) {
+  return `did:pkh:eip155:${chain.chainId}:${wallet}`
+}
+
+// The issuer's id: its wallet as did:pkh, or a stable URN from its name when the wallet
+// is unknown, since VC and Open Badges documents must name their issuer
+export function issuerId(issuer: { name?: string | null; wallet?: string | null }, chain: ChainProfile = activeChain()) {
+  if (issuer.wallet) return didPkh(issuer.wallet, chain)
+  return `urn:vericred:issuer:${encodeURIComponent(issuer.name || "unknown")}`
+}
+
+// CAIP-19 id of the credential NFT
+export function tokenAssetId(tokenId: string, chain: ChainProfile = activeChain()) {
+  return `eip155:${chain.chainId}/erc721:${chain.contractAddress}/${tokenId}`
+}
+
+// Explorer page for the NFT, falling back to its CAIP-19 id on chains without an explorer
+export function tokenEvidenceId(tokenId: string, chain: ChainProfile = activeChain()) {
+  return chain.explorer
+    ? `${chain.explorer.token.replace("{address}", chain.contractAddress)}?a=${tokenId}`
+    : tokenAssetId(tokenId, chain)
+}
+
+// Drops empty values so absent fields are omitted rather than exported as null
+export function compact<T extends Record<string, unknown>>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v != null && v !== "")) as Partial<T>
+}
+
+// Metadata dates are YYYY-MM-DD; exported documents want date-times
+export function dateTime(date: string | null) {
+  if (!date) return undefined
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00Z` : date
+}
@@ -0,0 +1,124 @@
+import type { CredentialDetails } from "@/lib/domain/metadata"
+import { type ChainProfile, activeChain } from "@/lib/chain/profiles"
+import { type CredentialAnchor, anchorTokenId, dateTime, recordUrn, tokenAssetId, tokenEvidenceId } from "./anchor"
+
+// Europass Digital Credentials (EDC) XML export, following the element names of the
+// `europassCredential` schema, xsdVersion 0.10.0: the credential, its subject's learning
+// achievement, and the referenced issuer, qualification and grade. The NFT is
+// recorded as an identifier plus a supplementary document linking to the token.
+// Unsigned: Europass seals credentials with an eIDAS seal, which is the issuer's job.
+
+const EDC_NAMESPACE = "http://data.europa.eu/snb"
+const EDC_XSD_VERSION = "0.10.0"
+
+type XmlNode = { tag: string; attrs?: Record<string, string | undefined>; children?: (XmlNode | string | null)[] }
+
+function escapeXml(s: string) {
+  return s.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c]!)
+}
+
+function renderXml(node: XmlNode, indent = ""): string {
+  const attrs = Object.entries(node.attrs || {})
+    .filter(([, v]) => v != null)
+    .map(([k, v]) => ` ${k}="${escapeXml(v!)}"`)
+    .join("")
+  const children = (node.children || []).filter((c): c is XmlNode | string => c != null)
+  if (children.length === 0) return `${indent}<${node.tag}${attrs}/>`
+  if (children.length === 1 && typeof children[0] === "string") {
+    return `${indent}<${node.tag}${attrs}>${escapeXml(children[0])}</${node.tag}>`
+  }
+  const inner = children.map((c) => (typeof c === "string" ? `${indent}  ${escapeXml(c)}` : renderXml(c, `${indent}  `)))
+  return `${indent}<${node.tag}${attrs}>\n${inner.join("\n")}\n${indent}</${node.tag}>`
+}
+
+const el = (tag: string, attrs?: XmlNode["attrs"], ...children: (XmlNode | string | null)[]): XmlNode => ({
+  tag,
+  attrs,
+  children,
+})
+
+// EDC multilingual strings: <title><text content-type="text/plain" lang="en">…</text></title>
+const text = (tag: string, value: string | null | undefined) =>
+  value ? el(tag, undefined, el("text", { "content-type": "text/plain", lang: "en" }, value)) : null
+
+export function toEuropassXml(
+  details: CredentialDetails,
+  anchor: CredentialAnchor = {},
+  chain: ChainProfile = activeChain(),
+) {
+  const id = recordUrn(anchor) || `urn:credential:${encodeURIComponent(details.credentialId || "vericred")}`
+  const tokenId = anchorTokenId(anchor)
+  const issuerId = "urn:epass:org:1"
+  const qualificationId = "urn:epass:qualification:1"
+  const assessmentId = details.gpa ? "urn:epass:assessment:1" : undefined
+  const title = details.name || details.credentialType || "Credential"
+
+  const credential = el(
+    "europassCredential",
+    { xmlns: EDC_NAMESPACE, id, xsdVersion: EDC_XSD_VERSION },
+    details.credentialId ? el("identifier", { schemeID: "credentialId" }, details.credentialId) : null,
+    tokenId
+      ? el("identifier", { schemeID: "caip-19", schemeName: `ERC-721 token on ${chain.name}` }, tokenAssetId(tokenId, chain))
+      : null,
+    details.issueDate ? el("validFrom", undefined, dateTime(details.issueDate)!) : null,
+    details.issueDate ? el("issued", undefined, dateTime(details.issueDate)!) : null,
+    el("issuer", { idref: issuerId }),
+    text("title", title),
+    text("description", details.description),
+    el(
+      "credentialSubject",
+      { id: details.recipient.wallet ? `urn:epass:person:${details.recipient.wallet}` : "urn:epass:person:1" },
+      text("fullName", details.recipient.name),
+      el(
+        "achievements",
+        undefined,
+        el(
+          "learningAchievement",
+          { id: "urn:epass:learningAchievement:1" },
+          text("title", title),
+          assessmentId ? el("wasDerivedFrom", { idref: assessmentId }) : null,
+          el("specifiedBy", { idref: qualificationId }),
+        ),
+      ),
+    ),
+    tokenId
+      ? el(
+          "supplementaryDocument",
+          undefined,
+          text("title", "On-chain credential token"),
+          el("downloadUrl", undefined, tokenEvidenceId(tokenId, chain)),
+        )
+      : null,
+    el(
+      "agentReferences",
+      undefined,
+      el(
+        "organization",
+        { id: issuerId },
+        details.issuer.wallet ? el("identifier", { schemeID: "eip155-address" }, details.issuer.wallet) : null,
+        text("prefLabel", details.issuer.name || "Issuing institution"),
+      ),
+    ),
+    assessmentId
+      ? el(
+          "assessmentReferences",
+          undefined,
+          el("assessment", { id: assessmentId }, text("title", "Grade point average"), el("grade", undefined, details.gpa!)),
+        )
+      : null,
+    el(
+      "learningSpecificationReferences",
+      undefined,
+      el(
+        "qualification",
+        { id: qualificationId },
+        text("title", details.credentialType || title),
+        text("description", details.major ? `Major: ${details.major}` : null),
+        details.accreditationBody
+          ? el("hasAccreditation", undefined, text("title", details.accreditationBody))
+          : null,
+      ),
+    ),
+  )
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(credential)}\n`
+}
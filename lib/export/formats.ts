@@ -0,0 +1,51 @@
+import type { CredentialDetails } from "@/lib/domain/metadata"
+import { type CredentialAnchor, anchorTokenId } from "./anchor"
+import { toEuropassXml } from "./europass"
+import { toOpenBadge } from "./open-badges"
+import { toVerifiableCredential } from "./vc"
+
+// The document formats a minted credential can be downloaded in
+
+export type ExportFormat = "vc" | "open-badges" | "europass"
+
+export interface ExportFormatInfo {
+  label: string
+  description: string
+  extension: string
+  mimeType: string
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  vc: {
+    label: "W3C Verifiable Credential",
+    description: "VC Data Model 2.0, JSON-LD",
+    extension: "jsonld",
+    mimeType: "application/ld+json",
+  },
+  "open-badges": {
+    label: "Open Badges 3.0",
+    description: "OpenBadgeCredential, JSON",
+    extension: "json",
+    mimeType: "application/json",
+  },
+  europass: {
+    label: "Europass",
+    description: "Europass Digital Credential, XML",
+    extension: "xml",
+    mimeType: "application/xml",
+  },
+}
+
+export function exportCredential(format: ExportFormat, details: CredentialDetails, anchor: CredentialAnchor = {}) {
+  const { extension, mimeType } = EXPORT_FORMATS[format]
+  const content =
+    format === "europass"
+      ? toEuropassXml(details, anchor)
+      : JSON.stringify(format === "vc" ? toVerifiableCredential(details, anchor) : toOpenBadge(details, anchor), null, 2)
+  const tokenId = anchorTokenId(anchor)
+  const base = tokenId ? `token-${tokenId}` : details.credentialId || "credential"
+  return {
+    fileName: `${base.replace(/[^\w.-]+/g, "_")}-${format}.${extension}`,
+    blob: new Blob([content], { type: mimeType }),
+  }
+}
@@ -0,0 +1,82 @@
+import type { CredentialDetails } from "@/lib/domain/metadata"
+import { type ChainProfile, activeChain } from "@/lib/chain/profiles"
+import { type CredentialAnchor, compact, dateTime, didPkh, issuerId, recordUrn } from "./anchor"
+import { tokenEvidence } from "./vc"
+
+// 1EdTech Open Badges 3.0 export: an OpenBadgeCredential whose achievement is the
+// degree or certificate, with GPA as a result and the NFT as evidence. Unsigned,
+// like the VC export it extends.
+
+const OB_CONTEXT = "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json"
+
+// Open Badges achievementType vocabulary; anything else goes out as an ext: term
+function achievementType(credentialType: string | null) {
+  const t = (credentialType || "").toLowerCase()
+  if (/bachelor|master|doctor|phd|degree/.test(t)) return "Degree"
+  if (/diploma/.test(t)) return "Diploma"
+  if (/certificat/.test(t)) return "Certificate"
+  if (/course/.test(t)) return "Course"
+  if (!t) return undefined
+  return `ext:${credentialType!.replace(/[^A-Za-z0-9]+/g, "")}`
+}
+
+function criteria(details: CredentialDetails) {
+  const parts = [
+    details.major ? `Completed the ${details.major} program` : "Completed the program",
+    details.issuer.name ? `at ${details.issuer.name}` : "",
+  ]
+  const accreditation = details.accreditationBody ? ` Accredited by ${details.accreditationBody}.` : ""
+  return `${parts.filter(Boolean).join(" ")}.${accreditation}`
+}
+
+export function toOpenBadge(
+  details: CredentialDetails,
+  anchor: CredentialAnchor = {},
+  chain: ChainProfile = activeChain(),
+) {
+  const achievementId = `urn:vericred:achievement:${encodeURIComponent(details.credentialId || details.name || "credential")}`
+  const gpaResult = `${achievementId}:gpa`
+  const evidence = tokenEvidence(anchor, chain)
+  return compact({
+    "@context": ["https://www.w3.org/ns/credentials/v2", OB_CONTEXT],
+    id: recordUrn(anchor),
+    type: ["VerifiableCredential", "OpenBadgeCredential"],
+    name: details.name || details.credentialType || "Credential",
+    issuer: compact({
+      id: issuerId(details.issuer, chain),
+      type: ["Profile"],
+      name: details.issuer.name,
+    }),
+    validFrom: dateTime(details.issueDate),
+    credentialSubject: compact({
+      id: details.recipient.wallet ? didPkh(details.recipient.wallet, chain) : undefined,
+      type: ["AchievementSubject"],
+      name: details.recipient.name,
+      identifier: details.credentialId
+        ? [
+            {
+              type: "IdentityObject",
+              identityType: "identifier",
+              hashed: false,
+              identityHash: details.credentialId,
+            },
+          ]
+        : undefined,
+      achievement: compact({
+        id: achievementId,
+        type: ["Achievement"],
+        achievementType: achievementType(details.credentialType),
+        name: details.name || details.credentialType || "Credential",
+        description: details.description || criteria(details),
+        criteria: { narrative: criteria(details) },
+        fieldOfStudy: details.major,
+        resultDescription: details.gpa
+          ? [{ id: gpaResult, type: ["ResultDescription"], name: "GPA", resultType: "GradePointAverage" }]
+          : undefined,
+      }),
+      result: details.gpa ? [{ type: ["Result"], resultDescription: gpaResult, value: details.gpa }] : undefined,
+      activityEndDate: dateTime(details.graduationDate),
+    }),
+    evidence: evidence ? [evidence] : undefined,
+  })
+}
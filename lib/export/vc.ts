@@ -0,0 +1,72 @@
+import type { CredentialDetails } from "@/lib/domain/metadata"
+import { type ChainProfile, activeChain } from "@/lib/chain/profiles"
+import {
+  type CredentialAnchor,
+  anchorTokenId,
+  compact,
+  dateTime,
+  didPkh,
+  issuerId,
+  recordUrn,
+  tokenAssetId,
+  tokenEvidenceId,
+} from "./anchor"
+
+// W3C Verifiable Credentials Data Model 2.0 export of a minted credential.
+// Parties are did:pkh identifiers for their wallets on the credential's chain, and
+// the NFT itself is listed as evidence so a verifier can check the token on-chain.
+// The document carries no proof; it is the credential's data in a portable shape.
+
+// The NFT as a VC evidence entry; Open Badges uses the same shape
+export function tokenEvidence(anchor: CredentialAnchor, chain: ChainProfile = activeChain()) {
+  const tokenId = anchorTokenId(anchor)
+  if (!tokenId) return undefined
+  return compact({
+    id: tokenEvidenceId(tokenId, chain),
+    type: ["Evidence", "NonFungibleToken"],
+    name: `Credential token #${tokenId} on ${chain.name}`,
+    assetId: tokenAssetId(tokenId, chain),
+    chainId: chain.chainId,
+    contract: chain.contractAddress,
+    tokenId,
+    transactionHash: anchor.txHash,
+    tokenURI: anchor.tokenURI,
+  })
+}
+
+export function toVerifiableCredential(
+  details: CredentialDetails,
+  anchor: CredentialAnchor = {},
+  chain: ChainProfile = activeChain(),
+) {
+  const evidence = tokenEvidence(anchor, chain)
+  return compact({
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    id: recordUrn(anchor),
+    type: ["VerifiableCredential", "EducationalCredential"],
+    name: details.name || undefined,
+    description: details.description || undefined,
+    issuer: compact({
+      id: issuerId(details.issuer, chain),
+      name: details.issuer.name,
+    }),
+    validFrom: dateTime(details.issueDate),
+    credentialSubject: compact({
+      id: details.recipient.wallet ? didPkh(details.recipient.wallet, chain) : undefined,
+      name: details.recipient.name,
+      achievement: compact({
+        type: "EducationalOccupationalCredential",
+        name: details.name || undefined,
+        description: details.description || undefined,
+        credentialCategory: details.credentialType,
+        major: details.major,
+        gpa: details.gpa,
+        graduationDate: details.graduationDate,
+        batchYear: details.batchYear,
+        accreditationBody: details.accreditationBody,
+        identifier: details.credentialId,
+      }),
+    }),
+    evidence: evidence ? [evidence] : undefined,
+  })
+}
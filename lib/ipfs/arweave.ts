@@ -0,0 +1,102 @@
+import { decodeBase64, encodeBase64, getBytes, sha256 } from "ethers"
+
+// Arweave transactions (format 2) commit to their data through `data_root`, the root of
+// a Merkle tree over the data's chunks, built the way arweave-js does it
+// (common/lib/merkle.ts). Data checked against it only needs the transaction header to
+// be trusted, not the gateway's copy of the data. Bundled data items have no header of
+// their own and can't be checked this way.
+//
+// Gateways come from ARWEAVE_GATEWAYS (server only) or NEXT_PUBLIC_ARWEAVE_GATEWAYS,
+// comma-separated origins.
+
+export const DEFAULT_ARWEAVE_GATEWAYS = ["https://arweave.net", "https://ar-io.net"]
+
+const MAX_CHUNK_SIZE = 256 * 1024
+const MIN_CHUNK_SIZE = 32 * 1024
+
+export const isArweaveId = (id: string) => /^[A-Za-z0-9_-]{43}$/.test(id)
+
+export function configuredArweaveGateways(): string[] {
+  // NEXT_PUBLIC_* must be read literally so Next can inline it in the client bundle
+  const raw = process.env.ARWEAVE_GATEWAYS || process.env.NEXT_PUBLIC_ARWEAVE_GATEWAYS || ""
+  const list = raw
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((g) => g.replace(/\/+$/, ""))
+  return list.length ? list : DEFAULT_ARWEAVE_GATEWAYS
+}
+
+export const toBase64Url = (bytes: Uint8Array) =>
+  encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+export const fromBase64Url = (text: string) =>
+  getBytes(decodeBase64(text.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(text.length / 4) * 4, "=")))
+
+function hash(...parts: Uint8Array[]) {
+  const joined = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    joined.set(p, offset)
+    offset += p.length
+  }
+  return getBytes(sha256(joined))
+}
+
+// A byte offset as the 32-byte big-endian "note" the tree hashes in
+function note(n: number) {
+  const out = new Uint8Array(32)
+  for (let i = out.length - 1; i >= 0 && n > 0; i--) {
+    out[i] = n % 256
+    n = Math.floor(n / 256)
+  }
+  return out
+}
+
+type MerkleNode = { id: Uint8Array; maxByteRange: number }
+
+// Chunks are 256 KiB, except that the last two are evened out when the last would be
+// under 32 KiB
+function chunks(data: Uint8Array): MerkleNode[] {
+  const leaves: MerkleNode[] = []
+  let cursor = 0
+  while (data.length - cursor >= MAX_CHUNK_SIZE) {
+    const left = data.length - cursor
+    const after = left - MAX_CHUNK_SIZE
+    const size = after > 0 && after < MIN_CHUNK_SIZE ? Math.ceil(left / 2) : MAX_CHUNK_SIZE
+    leaves.push(leaf(data.subarray(cursor, cursor + size), cursor + size))
+    cursor += size
+  }
+  leaves.push(leaf(data.subarray(cursor), data.length))
+  return leaves
+}
+
+function leaf(chunk: Uint8Array, maxByteRange: number): MerkleNode {
+  return { id: hash(hash(hash(chunk)), hash(note(maxByteRange))), maxByteRange }
+}
+
+// The transaction `data_root` (base64url) for `data`
+export function arweaveDataRoot(data: Uint8Array): string {
+  let level = chunks(data)
+  while (level.length > 1) {
+    const next: MerkleNode[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      const [left, right] = [level[i], level[i + 1]]
+      next.push(
+        right
+          ? { id: hash(hash(left.id), hash(right.id), hash(note(left.maxByteRange))), maxByteRange: right.maxByteRange }
+          : left,
+      )
+    }
+    level = next
+  }
+  return toBase64Url(level[0].id)
+}
+
+export type ArweaveHeader = { dataRoot: string; dataSize: number }
+
+// The fields of a /tx/<id> response that the data is checked against; null for
+// transactions without a data root (format 1, or no data)
+export function readArweaveHeader(id: string, value: any): ArweaveHeader | null {
+  if (value?.id !== id || typeof value.data_root !== "string" || !value.data_root) return null
+  return { dataRoot: value.data_root, dataSize: Number(value.data_size) }
+}
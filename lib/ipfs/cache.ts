@@ -0,0 +1,114 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "fs"
+import os from "os"
+import path from "path"
+
+// Content-addressed cache for /api/ipfs. Only content that has been checked against
+// its CID goes in, and content behind a CID never changes, so entries never go stale;
+// they are only dropped to stay within the size budgets.
+//   memory - LRU, IPFS_CACHE_MEMORY_BYTES (default 32 MB)
+//   disk   - IPFS_CACHE_DIR (default <tmp>/vericred-ipfs-cache), IPFS_CACHE_DISK_BYTES
+//            (default 256 MB), least recently read files removed first; set
+//            IPFS_CACHE_DIR=off to keep the cache in memory only
+
+export type CachedContent = { bytes: Uint8Array; contentType: string }
+
+const MB = 1024 * 1024
+
+const budget = (name: string, fallback: number) => Number(process.env[name]) || fallback
+
+const globalCache = globalThis as typeof globalThis & {
+  __vericredIpfsCache?: Map<string, CachedContent>
+}
+
+function memory() {
+  return (globalCache.__vericredIpfsCache ??= new Map())
+}
+
+function diskDir() {
+  const dir = process.env.IPFS_CACHE_DIR
+  if (dir === "off") return null
+  return dir || path.join(os.tmpdir(), "vericred-ipfs-cache")
+}
+
+function remember(key: string, entry: CachedContent) {
+  const cache = memory()
+  const limit = budget("IPFS_CACHE_MEMORY_BYTES", 32 * MB)
+  if (entry.bytes.length > limit) return
+  cache.delete(key)
+  cache.set(key, entry)
+  let total = 0
+  for (const e of cache.values()) total += e.bytes.length
+  // Maps iterate in insertion order, so the first key is the least recently used
+  for (const oldest of cache.keys()) {
+    if (total <= limit) break
+    total -= cache.get(oldest)!.bytes.length
+    cache.delete(oldest)
+  }
+}
+
+function pruneDisk(dir: string) {
+  const limit = budget("IPFS_CACHE_DISK_BYTES", 256 * MB)
+  const files = readdirSync(dir)
+    .filter((f) => !f.endsWith(".type") && !f.endsWith(".tmp"))
+    .map((f) => ({ f, ...statSync(path.join(dir, f)) }))
+    .sort((a, b) => a.mtimeMs - b.mtimeMs)
+  let total = files.reduce((sum, f) => sum + f.size, 0)
+  for (const { f, size } of files) {
+    if (total <= limit) break
+    for (const name of [f, `${f}.type`]) {
+      if (existsSync(path.join(dir, name))) unlinkSync(path.join(dir, name))
+    }
+    total -= size
+  }
+}
+
+// `key` is a canonical CID (see canonicalCid)
+export function getCached(key: string): CachedContent | null {
+  const hit = memory().get(key)
+  if (hit) {
+    remember(key, hit)
+    return hit
+  }
+  const dir = diskDir()
+  const file = dir && path.join(dir, key)
+  if (!file || !existsSync(file)) return null
+  try {
+    const entry: CachedContent = {
+      bytes: new Uint8Array(readFileSync(file)),
+      contentType: existsSync(`${file}.type`) ? readFileSync(`${file}.type`, "utf8") : "application/octet-stream",
+    }
+    const now = new Date()
+    utimesSync(file, now, now)
+    remember(key, entry)
+    return entry
+  } catch {
+    return null
+  }
+}
+
+// Callers must have verified the content against the CID first
+export function putCached(key: string, entry: CachedContent) {
+  remember(key, entry)
+  const dir = diskDir()
+  if (!dir) return
+  try {
+    mkdirSync(dir, { recursive: true })
+    const file = path.join(dir, key)
+    writeFileSync(`${file}.tmp`, entry.bytes)
+    renameSync(`${file}.tmp`, file)
+    writeFileSync(`${file}.type`, entry.contentType)
+    pruneDisk(dir)
+  } catch (e) {
+    console.warn("[ipfs] could not write the disk cache", e)
+  }
+}
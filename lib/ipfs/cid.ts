@@ -0,0 +1,232 @@
+import { decodeBase58, encodeBase58, getBytes, sha256, toBeArray } from "ethers"
+
+// Local CID computation, so content can be checked against the CID a pinning service
+// (or a gateway) reports without trusting it. Content is laid out the way `ipfs add`
+// does it: 256 KiB chunks joined by a balanced tree of UnixFS dag-pb nodes with at
+// most 174 links each. With `--cid-version=1` (what we pin with) chunks are raw
+// blocks, and content that fits in one chunk is a single raw block, which is what
+// metadata JSON always is. Older CIDv0 content wraps each chunk in a dag-pb node.
+
+export const CHUNK_SIZE = 262_144
+const MAX_LINKS = 174
+
+const RAW = 0x55
+const DAG_PB = 0x70
+const SHA2_256 = 0x12
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567"
+
+function varint(n: number) {
+  const out: number[] = []
+  while (n >= 0x80) {
+    out.push((n % 0x80) | 0x80)
+    n = Math.floor(n / 0x80)
+  }
+  out.push(n)
+  return out
+}
+
+function concat(parts: (Uint8Array | number[])[]) {
+  const total = parts.reduce((sum, p) => sum + p.length, 0)
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+// Protobuf field helpers: varint (wire type 0) and length-delimited (wire type 2)
+const varintField = (field: number, value: number) => [...varint(field << 3), ...varint(value)]
+const bytesField = (field: number, value: Uint8Array) => concat([varint((field << 3) | 2), varint(value.length), value])
+
+export function base32(bytes: Uint8Array) {
+  let bits = 0
+  let value = 0
+  let out = ""
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31]
+  return out
+}
+
+function cidBytes(codec: number, block: Uint8Array) {
+  const digest = getBytes(sha256(block))
+  return concat([[0x01, ...varint(codec), SHA2_256, digest.length], digest])
+}
+
+const cidString = (bytes: Uint8Array) => `b${base32(bytes)}`
+
+// How `ipfs add` turned a file into blocks
+export type Layout = { cidVersion: 0 | 1; rawLeaves: boolean; leafType: "file" | "raw" }
+
+export const DEFAULT_LAYOUT: Layout = { cidVersion: 1, rawLeaves: true, leafType: "raw" }
+
+// Layouts tried when checking content against a dag-pb CID
+const DAG_PB_LAYOUTS: Layout[] = [
+  DEFAULT_LAYOUT,
+  // Kubo's default (`ipfs add`), and the same with a CIDv1
+  { cidVersion: 0, rawLeaves: false, leafType: "file" },
+  { cidVersion: 1, rawLeaves: false, leafType: "file" },
+  // go-ipfs before 0.5 marked non-root leaves as UnixFS raw
+  { cidVersion: 0, rawLeaves: false, leafType: "raw" },
+]
+
+type Node = { cid: Uint8Array; fileSize: number; treeSize: number }
+
+function dagPbCid(layout: Layout, block: Uint8Array) {
+  if (layout.cidVersion === 1) return cidBytes(DAG_PB, block)
+  const digest = getBytes(sha256(block))
+  return concat([[SHA2_256, digest.length], digest])
+}
+
+// A chunk wrapped in a dag-pb node, for layouts without raw leaves
+function leafNode(layout: Layout, chunk: Uint8Array, root: boolean): Node {
+  const unixfs = concat([
+    varintField(1, root || layout.leafType === "file" ? 2 : 0), // Type: File or Raw
+    chunk.length ? bytesField(2, chunk) : new Uint8Array(),
+    varintField(3, chunk.length),
+  ])
+  const block = bytesField(1, unixfs)
+  return { cid: dagPbCid(layout, block), fileSize: chunk.length, treeSize: block.length }
+}
+
+// A UnixFS file node linking to `children`, encoded as dag-pb (links before data)
+function fileNode(layout: Layout, children: Node[]): Node {
+  const fileSize = children.reduce((sum, c) => sum + c.fileSize, 0)
+  const unixfs = concat([
+    varintField(1, 2), // Type: File
+    varintField(3, fileSize),
+    ...children.map((c) => varintField(4, c.fileSize)), // blocksizes
+  ])
+  const links = children.map((c) =>
+    bytesField(2, concat([bytesField(1, c.cid), bytesField(2, new Uint8Array()), varintField(3, c.treeSize)])),
+  )
+  const block = concat([...links, bytesField(1, unixfs)])
+  return {
+    cid: dagPbCid(layout, block),
+    fileSize,
+    treeSize: block.length + children.reduce((sum, c) => sum + c.treeSize, 0),
+  }
+}
+
+function rootCid(bytes: Uint8Array, layout: Layout): Uint8Array {
+  if (bytes.length <= CHUNK_SIZE) {
+    return layout.rawLeaves ? cidBytes(RAW, bytes) : leafNode(layout, bytes, true).cid
+  }
+  let level: Node[] = []
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, offset + CHUNK_SIZE)
+    level.push(
+      layout.rawLeaves
+        ? { cid: cidBytes(RAW, chunk), fileSize: chunk.length, treeSize: chunk.length }
+        : leafNode(layout, chunk, false),
+    )
+  }
+  while (level.length > 1) {
+    const parents: Node[] = []
+    for (let i = 0; i < level.length; i += MAX_LINKS) parents.push(fileNode(layout, level.slice(i, i + MAX_LINKS)))
+    level = parents
+  }
+  return level[0].cid
+}
+
+// The CIDv1 (base32) that IPFS assigns to `bytes` added as a file
+export function cidOf(bytes: Uint8Array): string {
+  return cidString(rootCid(bytes, DEFAULT_LAYOUT))
+}
+
+// --- Parsing and verification ------------------------------------------------
+
+export type ParsedCid = { version: 0 | 1; codec: number; hash: number; bytes: Uint8Array }
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0
+  let shift = 1
+  for (let i = offset; i < bytes.length && i < offset + 8; i++) {
+    value += (bytes[i] & 0x7f) * shift
+    if (bytes[i] < 0x80) return [value, i + 1]
+    shift *= 0x80
+  }
+  throw new Error("Bad varint")
+}
+
+function unbase32(text: string) {
+  const out: number[] = []
+  let bits = 0
+  let value = 0
+  for (const ch of text.toLowerCase()) {
+    const digit = BASE32.indexOf(ch)
+    if (digit < 0) throw new Error("Bad base32")
+    value = ((value << 5) | digit) & 0xffff
+    bits += 5
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(out)
+}
+
+function decodeMultibase(text: string) {
+  const [prefix, body] = [text[0], text.slice(1)]
+  if (prefix === "b" || prefix === "B") return unbase32(body)
+  if (prefix === "z") return toBeArray(decodeBase58(body))
+  if (prefix === "f" && /^([0-9a-f]{2})+$/i.test(body)) return getBytes(`0x${body}`)
+  throw new Error(`Unsupported multibase prefix "${prefix}"`)
+}
+
+// A CIDv0 (Qm…) or CIDv1 in base32, base58btc or base16; null when it isn't one
+export function parseCid(text: string): ParsedCid | null {
+  try {
+    if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(text)) {
+      const bytes = toBeArray(decodeBase58(text))
+      if (bytes.length !== 34 || bytes[0] !== SHA2_256 || bytes[1] !== 32) return null
+      return { version: 0, codec: DAG_PB, hash: SHA2_256, bytes }
+    }
+    const bytes = decodeMultibase(text)
+    const [version, afterVersion] = readVarint(bytes, 0)
+    if (version !== 1) return null
+    const [codec, afterCodec] = readVarint(bytes, afterVersion)
+    const [hash, afterHash] = readVarint(bytes, afterCodec)
+    const [length, digestAt] = readVarint(bytes, afterHash)
+    if (digestAt + length !== bytes.length) return null
+    return { version: 1, codec, hash, bytes }
+  } catch {
+    return null
+  }
+}
+
+// One spelling per CID (CIDv0 stays base58, CIDv1 becomes base32), for cache keys
+export function canonicalCid(cid: ParsedCid) {
+  return cid.version === 0 ? encodeBase58(cid.bytes) : cidString(cid.bytes)
+}
+
+// The same CID as a base32 CIDv1, which is what subdomain gateways need
+export function cidV1(cid: ParsedCid) {
+  return cidString(cid.version === 0 ? concat([[0x01, DAG_PB], cid.bytes]) : cid.bytes)
+}
+
+const equal = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i])
+
+// Whether `bytes` is the content `cid` names: true or false when it can be checked,
+// null for CIDs this can't check (hashes other than sha2-256, codecs other than raw
+// and dag-pb). A dag-pb file added with an unusual chunker or layout won't match.
+export function contentMatchesCid(cid: ParsedCid, bytes: Uint8Array): boolean | null {
+  if (cid.hash !== SHA2_256) return null
+  if (cid.codec === RAW) return equal(cidBytes(RAW, bytes), cid.bytes)
+  if (cid.codec !== DAG_PB) return null
+  return DAG_PB_LAYOUTS.filter((l) => l.cidVersion === cid.version).some((l) => equal(rootCid(bytes, l), cid.bytes))
+}
+
+// The exact bytes a JSON document is pinned as; hash these, not a re-serialisation
+export function jsonBytes(value: unknown) {
+  return new TextEncoder().encode(JSON.stringify(value))
+}
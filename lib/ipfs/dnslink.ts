@@ -0,0 +1,33 @@
+// DNSLink: a domain publishes the IPFS path it points at in a TXT record,
+// `dnslink=/ipfs/<cid>` (or `/ipns/<name>`), at _dnslink.<domain>. The browser looks
+// records up over DNS-over-HTTPS (NEXT_PUBLIC_DOH_URL, default Cloudflare's JSON API);
+// the server passes its own resolver.
+
+export type TxtLookup = (name: string) => Promise<string[]>
+
+const DOH_URL = process.env.NEXT_PUBLIC_DOH_URL || "https://cloudflare-dns.com/dns-query"
+
+// Names with a dot are domains; IPNS keys never have one
+export const isDnsName = (name: string) => name.includes(".") && /^[a-z0-9.-]+$/i.test(name)
+
+export const dohLookupTxt: TxtLookup = async (name) => {
+  const res = await fetch(`${DOH_URL}?name=${encodeURIComponent(name)}&type=TXT`, {
+    headers: { Accept: "application/dns-json" },
+  })
+  if (!res.ok) throw new Error(`DNS lookup for ${name} failed (${res.status})`)
+  const data = await res.json()
+  // TXT data comes quoted, long records as several quoted strings
+  return (data?.Answer ?? [])
+    .filter((a: any) => a?.type === 16)
+    .map((a: any) => String(a.data).replace(/^"|"$/g, "").replace(/"\s*"/g, ""))
+}
+
+// The path a domain's DNSLink record points at, e.g. "/ipfs/bafy…"; null when it has none
+export async function resolveDnsLink(domain: string, lookupTxt: TxtLookup = dohLookupTxt): Promise<string | null> {
+  for (const name of [`_dnslink.${domain}`, domain]) {
+    const records = await lookupTxt(name).catch(() => [])
+    const link = records.map((r) => r.trim()).find((r) => /^dnslink=\/ip[fn]s\/[^/\s]+/.test(r))
+    if (link) return link.slice("dnslink=".length)
+  }
+  return null
+}
@@ -0,0 +1,402 @@
+import { arweaveDataRoot, configuredArweaveGateways, isArweaveId, readArweaveHeader } from "./arweave"
+import { canonicalCid, cidV1, contentMatchesCid, parseCid } from "./cid"
+import { type TxtLookup, isDnsName, resolveDnsLink } from "./dnslink"
+
+// Fetches IPFS content from public gateways, on the server (/api/ipfs) and in the browser.
+// Gateways are raced rather than tried in turn: the best-ranked one starts first, another
+// joins every HEDGE_MS (or as soon as one fails), the first good response wins and the
+// rest are aborted. Each gateway keeps a health score (share of recent requests that
+// succeeded, decayed towards healthy again over time) and an average latency, so a dead
+// or slow gateway drops to the back of the queue for later requests.
+//
+// The list comes from IPFS_GATEWAYS (server only) or NEXT_PUBLIC_IPFS_GATEWAYS: comma
+// separated templates such as "https://ipfs.io/ipfs/{cid}{path}" or
+// "https://{cid}.ipfs.dweb.link{path}". A bare origin means "<origin>/ipfs/{cid}{path}".
+// The same templates serve IPNS names, with /ipns/ (or .ipns.) in place of /ipfs/.
+//
+// How content is checked depends on how it was named (Resolved.method):
+//   ipfs    - a bare CID is checked against the content; paths inside a directory aren't
+//   dnslink - the domain's TXT record is looked up and the IPFS path it names is resolved
+//             as above; DNS itself is trusted
+//   ipns    - fetched by name from the gateways, which are trusted to resolve it
+//   arweave - ar://<tx> is checked against the transaction's data root (see arweave.ts)
+//   url     - plain http(s) URLs are fetched as is
+
+export const DEFAULT_GATEWAYS = [
+  "https://cloudflare-ipfs.com/ipfs/{cid}{path}",
+  "https://ipfs.io/ipfs/{cid}{path}",
+  "https://nftstorage.link/ipfs/{cid}{path}",
+  "https://dweb.link/ipfs/{cid}{path}",
+  "https://gateway.pinata.cloud/ipfs/{cid}{path}",
+  "https://{cid}.ipfs.nftstorage.link{path}",
+  "https://{cid}.ipfs.dweb.link{path}",
+]
+
+const TIMEOUT_MS = 8000
+const HEDGE_MS = 750
+// Latency assumed for a gateway that hasn't answered yet
+const UNKNOWN_LATENCY_MS = 1000
+// How quickly a failing gateway is given another chance
+const RECOVERY_MS = 5 * 60 * 1000
+
+export type IpfsTarget =
+  | { kind: "ipfs"; cid: string; path: string }
+  // An IPNS key, or a domain with a DNSLink record
+  | { kind: "ipns"; name: string; path: string }
+  | { kind: "arweave"; id: string; path: string }
+  | { kind: "url"; url: string }
+
+export type ResolutionMethod = "ipfs" | "ipns" | "dnslink" | "arweave" | "url"
+
+export type Resolved = {
+  url: string
+  gateway: string | null
+  bytes: Uint8Array
+  contentType: string
+  method: ResolutionMethod
+  // The immutable path the content was found at, e.g. /ipfs/<cid> for a DNSLink domain
+  resolvedPath: string | null
+  // Whether the bytes matched the CID or data root they were named by
+  verified: boolean
+  // The canonical CID of verified IPFS content, to cache it under
+  cid: string | null
+}
+
+export class GatewayError extends Error {
+  constructor(
+    message: string,
+    public candidates: string[],
+    public rejected: string[],
+    // Why the other candidates failed
+    public failures: unknown[] = [],
+  ) {
+    super(message)
+    this.name = "GatewayError"
+  }
+}
+
+function splitPath(rest: string) {
+  const [name, ...path] = rest.split("/").filter(Boolean)
+  return { name: name ?? "", path: path.length ? `/${path.join("/")}` : "" }
+}
+
+// Accepts ipfs://<cid>/path, /ipfs/<cid>/path, <cid>/path, ipns://<name>/path,
+// /ipns/<name>/path, ar://<tx>/path and http(s) URLs
+export function parseIpfsSource(value: unknown): IpfsTarget | null {
+  const link = typeof value === "string" ? value.trim() : value == null ? "" : String(value).trim()
+  if (!link) return null
+  if (/^https?:\/\//i.test(link)) return { kind: "url", url: link }
+  if (/^ar:\/\//i.test(link)) {
+    const { name, path } = splitPath(link.replace(/^ar:\/\//i, ""))
+    if (isArweaveId(name)) return { kind: "arweave", id: name, path }
+    return name ? { kind: "url", url: link.replace(/^ar:\/\//i, "https://arweave.net/") } : null
+  }
+  if (/^(ipns:\/\/|\/?ipns\/)/i.test(link)) {
+    const { name, path } = splitPath(link.replace(/^(ipns:\/\/|\/?ipns\/)/i, ""))
+    return name ? { kind: "ipns", name, path } : null
+  }
+  // Any other scheme (file:, data:, …) isn't something to resolve
+  if (/^[a-z][a-z0-9+.-]*:/i.test(link) && !/^ipfs:\/\//i.test(link)) return null
+  const { name, path } = splitPath(link.replace(/^ipfs:\/\//i, "").replace(/^\/?ipfs\//i, ""))
+  return name ? { kind: "ipfs", cid: name, path } : null
+}
+
+export function configuredGateways(): string[] {
+  // NEXT_PUBLIC_* must be read literally so Next can inline it in the client bundle
+  const raw = process.env.IPFS_GATEWAYS || process.env.NEXT_PUBLIC_IPFS_GATEWAYS || ""
+  const list = raw
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((g) => (g.includes("{cid}") ? g : `${g.replace(/\/+$/, "")}/ipfs/{cid}{path}`))
+  return list.length ? list : DEFAULT_GATEWAYS
+}
+
+// null when the gateway can't serve the name (e.g. a subdomain gateway and a name that
+// isn't a valid DNS label)
+export function gatewayUrl(gateway: string, name: string, path = "", namespace: "ipfs" | "ipns" = "ipfs") {
+  let label = name
+  if (/\{cid\}\./.test(gateway)) {
+    // Subdomains are case-insensitive, so CIDs need to be base32 CIDv1, and DNSLink
+    // domains are inlined into one label ("-" becomes "--", then "." becomes "-")
+    const parsed = parseCid(name)
+    if (parsed) label = cidV1(parsed)
+    else if (namespace === "ipns" && isDnsName(name)) label = name.replace(/-/g, "--").replace(/\./g, "-")
+    if (!/^[a-z0-9-]{1,63}$/.test(label)) return null
+  }
+  const template =
+    namespace === "ipns" ? gateway.replace("/ipfs/", "/ipns/").replace("{cid}.ipfs.", "{cid}.ipns.") : gateway
+  return template.replace("{cid}", label).replace("{path}", path)
+}
+
+// --- Scores ------------------------------------------------------------------
+
+type Score = { health: number; latency: number | null; updated: number }
+
+const globalScores = globalThis as typeof globalThis & { __vericredGatewayScores?: Map<string, Score> }
+
+function scores() {
+  return (globalScores.__vericredGatewayScores ??= new Map())
+}
+
+function health(score: Score | undefined, now: number) {
+  if (!score) return 1
+  const recovered = 1 - Math.exp(-(now - score.updated) / RECOVERY_MS)
+  return score.health + (1 - score.health) * recovered
+}
+
+// "lost" is a request cut off because another gateway answered first: it says nothing
+// about health, but it took at least `latency` without answering
+function record(gateway: string | null, outcome: "ok" | "failed" | "rejected" | "lost", latency?: number) {
+  if (!gateway) return
+  const now = Date.now()
+  const score = scores().get(gateway)
+  if (outcome === "lost") {
+    if (latency! > (score?.latency ?? UNKNOWN_LATENCY_MS)) {
+      scores().set(gateway, { health: score?.health ?? 1, latency: latency!, updated: score?.updated ?? now })
+    }
+    return
+  }
+  const current = health(score, now)
+  const next: Score = {
+    // Serving the wrong content counts for more than being down
+    health: outcome === "ok" ? current * 0.7 + 0.3 : current * (outcome === "rejected" ? 0.3 : 0.6),
+    latency: score?.latency ?? null,
+    updated: now,
+  }
+  if (outcome === "ok" && latency != null) {
+    next.latency = next.latency == null ? latency : next.latency * 0.7 + latency * 0.3
+  }
+  scores().set(gateway, next)
+}
+
+// Healthiest and fastest first; gateways that score the same keep their configured order
+export function rankGateways(gateways: string[]) {
+  const now = Date.now()
+  const cost = (g: string) => {
+    const score = scores().get(g)
+    return (score?.latency ?? UNKNOWN_LATENCY_MS) / Math.max(health(score, now), 0.05)
+  }
+  return gateways
+    .map((g, i) => ({ g, i, cost: cost(g) }))
+    .sort((a, b) => a.cost - b.cost || a.i - b.i)
+    .map(({ g }) => g)
+}
+
+// A link to open in the browser or use as an <img> src: an ipfs:// (or bare CID) link on
+// the best-ranked gateway that can serve it. Other links are returned as they are.
+export function ipfsLinkUrl(link: string) {
+  const target = parseIpfsSource(link)
+  if (target?.kind !== "ipfs") return link
+  for (const gateway of rankGateways(configuredGateways())) {
+    const url = gatewayUrl(gateway, target.cid, target.path)
+    if (url) return url
+  }
+  return link
+}
+
+// --- Resolving ---------------------------------------------------------------
+
+export type ResolveOptions = {
+  gateways?: string[]
+  arweaveGateways?: string[]
+  // Extra fetch options, e.g. { mode: "cors" } in the browser
+  init?: RequestInit
+  timeoutMs?: number
+  hedgeMs?: number
+  // TXT lookups for DNSLink; DNS-over-HTTPS by default
+  lookupTxt?: TxtLookup
+  // Replaces the global fetch, e.g. with one that vets the hosts it connects to
+  fetch?: (url: string, init: RequestInit) => Promise<Response>
+}
+
+type Candidate = { gateway: string | null; url: string }
+
+// What a gateway returned, and whether it matched what was asked for (null: not checked)
+type Fetched = Candidate & { bytes: Uint8Array; contentType: string; headers: Headers; matched: boolean | null }
+
+type Check = (bytes: Uint8Array, headers: Headers) => boolean | null
+
+// Nested DNSLink records followed before giving up
+const MAX_DNSLINK_DEPTH = 8
+
+async function fetchBytes(url: string, options: ResolveOptions, controller: AbortController) {
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? TIMEOUT_MS)
+  try {
+    const res = await (options.fetch ?? fetch)(url, { ...options.init, signal: controller.signal })
+    if (!res.ok) throw new Error(`${url} returned ${res.status}`)
+    return {
+      bytes: new Uint8Array(await res.arrayBuffer()),
+      contentType: res.headers.get("content-type") || "",
+      headers: res.headers,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Races `candidates` (best first) until one returns content that `check` doesn't reject
+function race(candidates: Candidate[], check: Check, options: ResolveOptions): Promise<Fetched> {
+  const rejected: string[] = []
+  const failures: unknown[] = []
+  const controllers = new Set<AbortController>()
+
+  return new Promise((resolve, reject) => {
+    if (!candidates.length) return reject(new GatewayError("No gateways are configured.", [], []))
+    let next = 0
+    let pending = 0
+    let settled = false
+    const finish = () => {
+      settled = true
+      clearInterval(hedge)
+      for (const c of controllers) c.abort()
+    }
+
+    const launch = () => {
+      if (settled || next >= candidates.length) return
+      const { gateway, url } = candidates[next++]
+      const controller = new AbortController()
+      controllers.add(controller)
+      pending++
+      const started = Date.now()
+      fetchBytes(url, options, controller)
+        .then(
+          ({ bytes, contentType, headers }) => {
+            if (settled) return
+            const matched = check(bytes, headers)
+            if (matched === false) {
+              rejected.push(url)
+              record(gateway, "rejected")
+              return launch()
+            }
+            record(gateway, "ok", Date.now() - started)
+            finish()
+            resolve({ gateway, url, bytes, contentType, headers, matched })
+          },
+          (e) => {
+            if (settled) return record(gateway, "lost", Date.now() - started)
+            failures.push(e)
+            record(gateway, "failed")
+            launch()
+          },
+        )
+        .finally(() => {
+          controllers.delete(controller)
+          pending--
+          if (settled || pending > 0 || next < candidates.length) return
+          finish()
+          const urls = candidates.map((c) => c.url)
+          const message = rejected.length
+            ? "Gateways returned content that does not match the requested content."
+            : "All gateways failed (timeout/CORS/content missing)."
+          reject(new GatewayError(message, urls, rejected, failures))
+        })
+    }
+
+    const hedge = setInterval(launch, options.hedgeMs ?? HEDGE_MS)
+    launch()
+  })
+}
+
+function ipfsCandidates(name: string, path: string, namespace: "ipfs" | "ipns", options: ResolveOptions) {
+  return rankGateways(options.gateways ?? configuredGateways()).flatMap((gateway) => {
+    const url = gatewayUrl(gateway, name, path, namespace)
+    return url ? [{ gateway, url }] : []
+  })
+}
+
+const result = (fetched: Fetched, method: ResolutionMethod, resolvedPath: string | null): Resolved => ({
+  url: fetched.url,
+  gateway: fetched.gateway,
+  bytes: fetched.bytes,
+  contentType: fetched.contentType,
+  method,
+  resolvedPath,
+  verified: false,
+  cid: null,
+})
+
+async function resolveIpfsPath(cid: string, path: string, options: ResolveOptions) {
+  const parsed = path ? null : parseCid(cid)
+  const fetched = await race(
+    ipfsCandidates(cid, path, "ipfs", options),
+    parsed ? (bytes) => contentMatchesCid(parsed, bytes) : () => null,
+    options,
+  )
+  const verified = fetched.matched === true && parsed != null
+  return { ...result(fetched, "ipfs", `/ipfs/${cid}${path}`), verified, cid: verified ? canonicalCid(parsed) : null }
+}
+
+async function resolveIpnsName(name: string, path: string, options: ResolveOptions, depth: number): Promise<Resolved> {
+  if (isDnsName(name)) {
+    if (depth >= MAX_DNSLINK_DEPTH) throw new GatewayError(`Too many nested DNSLink records at ${name}.`, [], [])
+    const link = await resolveDnsLink(name, options.lookupTxt)
+    const target = link && parseIpfsSource(`${link}${path}`)
+    if (!target || (target.kind !== "ipfs" && target.kind !== "ipns")) {
+      throw new GatewayError(`${name} has no DNSLink record.`, [], [])
+    }
+    const resolved =
+      target.kind === "ipfs"
+        ? await resolveIpfsPath(target.cid, target.path, options)
+        : await resolveIpnsName(target.name, target.path, options, depth + 1)
+    return { ...resolved, method: "dnslink" }
+  }
+  // The gateway resolves the name; X-Ipfs-Roots names the CIDs it went through, so at
+  // least the content can be checked against the last of them
+  const rootOf = (headers: Headers) => headers.get("x-ipfs-roots")?.split(",").pop()?.trim() || null
+  const fetched = await race(
+    ipfsCandidates(name, path, "ipns", options),
+    (bytes, headers) => {
+      const root = path ? null : parseCid(rootOf(headers) ?? "")
+      return root ? contentMatchesCid(root, bytes) : null
+    },
+    options,
+  )
+  const root = rootOf(fetched.headers)
+  return result(fetched, "ipns", root ? `/ipfs/${root}` : null)
+}
+
+async function resolveArweave(id: string, path: string, options: ResolveOptions): Promise<Resolved> {
+  const gateways = rankGateways(options.arweaveGateways ?? configuredArweaveGateways())
+  // The data of a bare transaction is checked against its header's data root. Bundled
+  // data items have no header, and a path goes through a manifest, so neither can be.
+  const header = path
+    ? null
+    : await race(
+        gateways.map((gateway) => ({ gateway, url: `${gateway}/tx/${id}` })),
+        () => null,
+        options,
+      )
+        .then((tx) => readArweaveHeader(id, JSON.parse(new TextDecoder().decode(tx.bytes))))
+        .catch(() => null)
+  const fetched = await race(
+    gateways.map((gateway) => ({ gateway, url: `${gateway}/${id}${path}` })),
+    header ? (bytes) => bytes.length === header.dataSize && arweaveDataRoot(bytes) === header.dataRoot : () => null,
+    options,
+  )
+  return { ...result(fetched, "arweave", `ar://${id}${path}`), verified: fetched.matched === true }
+}
+
+// Content is checked where its name allows it (see the top of this file), and a gateway
+// that serves other bytes counts as failed. Throws GatewayError when nothing serves it.
+export async function resolveIpfs(target: IpfsTarget, options: ResolveOptions = {}): Promise<Resolved> {
+  switch (target.kind) {
+    case "ipfs":
+      return resolveIpfsPath(target.cid, target.path, options)
+    case "ipns":
+      return resolveIpnsName(target.name, target.path, options, 0)
+    case "arweave":
+      return resolveArweave(target.id, target.path, options)
+    case "url":
+      return result(await race([{ gateway: null, url: target.url }], () => null, options), "url", null)
+  }
+}
+
+// JSON when it parses, otherwise the text
+export function parseContent(bytes: Uint8Array): any {
+  const text = new TextDecoder().decode(bytes)
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
@@ -0,0 +1,254 @@
+import { type LookupAddress, promises as dns } from "dns"
+import { request as httpRequest } from "http"
+import { request as httpsRequest } from "https"
+import { type LookupFunction, isIP } from "net"
+import { Readable } from "stream"
+import { configuredArweaveGateways } from "./arweave"
+import { configuredGateways } from "./gateways"
+
+// /api/ipfs fetches on behalf of anyone who calls it, so every upstream request is vetted
+// before it is made, and again on each redirect:
+//   - the host must be a configured IPFS or Arweave gateway, a subdomain of one
+//     (subdomain gateways, and the redirects path gateways send), or listed in
+//     IPFS_PROXY_ALLOWED_HOSTS
+//   - the host must resolve to public addresses only, unless it is listed in
+//     IPFS_PROXY_PRIVATE_HOSTS (e.g. a local gateway at 127.0.0.1:8080)
+//   - the response must be JSON or text, at most IPFS_PROXY_MAX_BYTES (default 5 MB)
+// Callers are limited to IPFS_PROXY_RATE_LIMIT requests a minute per IP (default 60).
+// The connection goes to the addresses that were checked rather than being resolved
+// again, so a host can't pass the check with one DNS answer and be reached at another.
+
+export type ProxyErrorCode =
+  | "INVALID_SOURCE"
+  | "RATE_LIMITED"
+  | "HOST_NOT_ALLOWED"
+  | "PRIVATE_ADDRESS"
+  | "TOO_MANY_REDIRECTS"
+  | "RESPONSE_TOO_LARGE"
+  | "UNSUPPORTED_CONTENT_TYPE"
+  | "CONTENT_MISMATCH"
+  | "NOT_RESOLVED"
+  | "UPSTREAM_FAILED"
+
+export class ProxyError extends Error {
+  constructor(
+    public code: ProxyErrorCode,
+    message: string,
+    public status = 502,
+  ) {
+    super(message)
+    this.name = "ProxyError"
+  }
+}
+
+const MB = 1024 * 1024
+const MAX_REDIRECTS = 5
+const RATE_WINDOW_MS = 60_000
+
+// Metadata is JSON; gateways often label it as text or octet-stream
+const ALLOWED_TYPES = [/^application\/([\w.-]+\+)?json\b/, /^text\/plain\b/, /^application\/octet-stream\b/]
+
+const listEnv = (name: string) =>
+  (process.env[name] || "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((h) => h.toLowerCase())
+
+function hostsOf(urls: string[]) {
+  return urls.flatMap((u) => {
+    try {
+      return [new URL(u.replace("{cid}.", "").replace("{path}", "")).host.toLowerCase()]
+    } catch {
+      return []
+    }
+  })
+}
+
+export function isAllowedHost(host: string) {
+  const allowed = [
+    ...hostsOf(configuredGateways()),
+    ...hostsOf(configuredArweaveGateways()),
+    ...listEnv("IPFS_PROXY_ALLOWED_HOSTS"),
+  ]
+  const h = host.toLowerCase()
+  return allowed.some((a) => h === a || h.endsWith(`.${a}`))
+}
+
+function privateIpv4(ip: string) {
+  const [a, b, c] = ip.split(".").map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 || // multicast and reserved
+    (a === 100 && b >= 64 && b < 128) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) || // documentation ranges, with 192.0.2.0/24
+    (a === 203 && b === 0 && c === 113)
+  )
+}
+
+// Loopback, private, link-local and other addresses that aren't on the public internet
+export function isPrivateAddress(ip: string) {
+  if (isIP(ip) === 4) return privateIpv4(ip)
+  const v6 = ip.toLowerCase()
+  // IPv4-mapped, either dotted (::ffff:10.0.0.1) or in hex (::ffff:a00:1)
+  const dotted = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) return privateIpv4(dotted[1])
+  const hex = v6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (hex) {
+    const [hi, lo] = [parseInt(hex[1], 16), parseInt(hex[2], 16)]
+    return privateIpv4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`)
+  }
+  // IPv4-compatible (::a.b.c.d, deprecated) and NAT64 (64:ff9b::/96, 64:ff9b:1::/48) reach
+  // IPv4 hosts through a translator, so they are refused outright
+  if (/^::((\d+\.){3}\d+|([0-9a-f]{1,4}:)?[0-9a-f]{1,4})?$/.test(v6) || v6.startsWith("64:ff9b:")) return true
+  return /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith("ff")
+}
+
+// Throws ProxyError unless the proxy may fetch `url`. Returns the addresses it checked, or
+// null for IPFS_PROXY_PRIVATE_HOSTS, which are connected to as usual.
+export async function checkUrl(url: URL): Promise<LookupAddress[] | null> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new ProxyError("HOST_NOT_ALLOWED", `${url.protocol} URLs are not fetched`, 403)
+  }
+  if (!isAllowedHost(url.host)) throw new ProxyError("HOST_NOT_ALLOWED", `${url.host} is not an allowed gateway`, 403)
+  if (listEnv("IPFS_PROXY_PRIVATE_HOSTS").includes(url.host.toLowerCase())) return null
+  const hostname = url.hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await dns.lookup(hostname, { all: true, verbatim: true })
+  if (!addresses.length || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new ProxyError("PRIVATE_ADDRESS", `${url.host} resolves to a private address`, 403)
+  }
+  return addresses
+}
+
+// A GET made with node's http(s) so the connection can be held to `addresses`. TLS still
+// checks the certificate against the URL's hostname, and the Host header is unchanged.
+function requestPinned(url: URL, addresses: LookupAddress[] | null, init: RequestInit): Promise<Response> {
+  const lookup: LookupFunction = (_host, options, callback) =>
+    options.all ? callback(null, addresses!) : callback(null, addresses![0].address, addresses![0].family)
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest
+    const req = send(
+      url,
+      {
+        method: init.method || "GET",
+        headers: Object.fromEntries(new Headers(init.headers)),
+        signal: init.signal ?? undefined,
+        ...(addresses ? { lookup } : {}),
+      },
+      (res) => {
+        const headers = new Headers()
+        for (const [name, value] of Object.entries(res.headers)) {
+          for (const v of [value ?? []].flat()) headers.append(name, v)
+        }
+        const status = res.statusCode || 502
+        const empty = status === 204 || status === 304 || req.method === "HEAD"
+        const body = empty ? null : (Readable.toWeb(res) as unknown as ReadableStream<Uint8Array>)
+        resolve(new Response(body, { status, headers }))
+      },
+    )
+    req.on("error", reject)
+    req.end()
+  })
+}
+
+async function readCapped(res: Response, limit: number, host: string) {
+  const tooLarge = () => new ProxyError("RESPONSE_TOO_LARGE", `${host} sent more than ${limit} bytes`)
+  if (Number(res.headers.get("content-length") || 0) > limit) {
+    await res.body?.cancel()
+    throw tooLarge()
+  }
+  if (!res.body) return new Uint8Array()
+  const reader = res.body.getReader()
+  const parts: Uint8Array[] = []
+  let total = 0
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    total += chunk.value.length
+    if (total > limit) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    parts.push(chunk.value)
+  }
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  for (const p of parts) {
+    bytes.set(p, offset)
+    offset += p.length
+  }
+  return bytes
+}
+
+// fetch for the resolver (ResolveOptions.fetch): redirects are followed here so each
+// hop is checked and connected to at its checked address, and the body is read up to
+// the size cap
+export async function guardedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  let url = new URL(input)
+  for (let hop = 0; ; hop++) {
+    const res = await requestPinned(url, await checkUrl(url), init)
+    const location = res.headers.get("location")
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel()
+      if (hop >= MAX_REDIRECTS) throw new ProxyError("TOO_MANY_REDIRECTS", `${input} redirected too many times`)
+      url = new URL(location, url)
+      continue
+    }
+    if (!res.ok) return res
+    const type = (res.headers.get("content-type") || "").toLowerCase()
+    if (type && !ALLOWED_TYPES.some((t) => t.test(type))) {
+      await res.body?.cancel()
+      throw new ProxyError("UNSUPPORTED_CONTENT_TYPE", `${url.host} returned ${type}, not JSON or text`)
+    }
+    const bytes = await readCapped(res, Number(process.env.IPFS_PROXY_MAX_BYTES) || 5 * MB, url.host)
+    return new Response(bytes, { status: res.status, headers: res.headers })
+  }
+}
+
+// --- Rate limiting -----------------------------------------------------------
+
+type RateWindow = { start: number; count: number }
+
+const globalLimits = globalThis as typeof globalThis & { __vericredIpfsRateLimits?: Map<string, RateWindow> }
+
+// The caller's address as seen by the proxies in front of the app, or null when it can't
+// be known. Each proxy appends the address it was reached from to X-Forwarded-For, so only
+// the last IPFS_PROXY_TRUSTED_HOPS entries were written by proxies; anything before them
+// came from the client. Without that setting there may be no proxy, and the headers
+// aren't read at all.
+export function clientIp(headers: Headers): string | null {
+  const hops = Number(process.env.IPFS_PROXY_TRUSTED_HOPS)
+  if (!Number.isInteger(hops) || hops < 1) return null
+  const forwarded = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean)
+  if (forwarded.length >= hops) return forwarded[forwarded.length - hops]
+  return headers.get("x-real-ip")?.trim() || null
+}
+
+// Counts a request from `ip`; returns the seconds to wait when it is over the limit.
+// Callers that can't be told apart aren't limited: a shared bucket would let one client
+// use up everyone's quota.
+export function rateLimited(ip: string | null): number | null {
+  if (!ip) return null
+  const limit = Number(process.env.IPFS_PROXY_RATE_LIMIT) || 60
+  const windows = (globalLimits.__vericredIpfsRateLimits ??= new Map())
+  const now = Date.now()
+  if (windows.size > 10_000) {
+    for (const [key, w] of windows) if (now - w.start >= RATE_WINDOW_MS) windows.delete(key)
+  }
+  let current = windows.get(ip)
+  if (!current || now - current.start >= RATE_WINDOW_MS) {
+    current = { start: now, count: 0 }
+    windows.set(ip, current)
+  }
+  current.count++
+  return current.count > limit ? Math.ceil((current.start + RATE_WINDOW_MS - now) / 1000) : null
+}
@@ -0,0 +1,36 @@
+import { GatewayError, type ResolutionMethod, parseContent, parseIpfsSource, resolveIpfs } from "./gateways"
+
+// Browser side of /api/ipfs. The proxy checks content against its CID and caches it;
+// when the proxy can't be reached or finds nothing, the browser races the gateways
+// itself. A proxy that saw gateways serve the wrong content is trusted: the content
+// isn't fetched again unchecked.
+
+export type LoadedContent = { data: any; resolvedUrl: string; verified: boolean; method: ResolutionMethod }
+
+export async function loadIpfsContent(link: unknown): Promise<LoadedContent> {
+  const target = parseIpfsSource(link)
+  if (!target) throw new GatewayError("No IPFS link available", [], [])
+
+  const payload = await fetch(`/api/ipfs?src=${encodeURIComponent(String(link))}`, { cache: "no-store" })
+    .then((r) => r.json())
+    .catch(() => null)
+  if (payload?.ok) {
+    const { data, resolvedUrl, method } = payload
+    return { data, resolvedUrl, verified: payload.verified === true, method }
+  }
+  if (payload?.rejected?.length) {
+    throw new GatewayError(
+      "Gateways returned content that does not match the link.",
+      payload.candidates ?? [],
+      payload.rejected,
+    )
+  }
+
+  const resolved = await resolveIpfs(target, { init: { mode: "cors" } })
+  return {
+    data: parseContent(resolved.bytes),
+    resolvedUrl: resolved.url,
+    verified: resolved.verified,
+    method: resolved.method,
+  }
+}
@@ -0,0 +1,160 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs"
+import path from "path"
+import { cidOf } from "./cid"
+
+// Server-side pinning for /api/ipfs/pin. Every backend is asked for CIDv1 with raw
+// leaves, the CID is computed here from the bytes being sent, and a pin whose CID
+// doesn't match is an error: the CID that gets minted is always the CID of the content.
+//
+// IPFS_PINNING_BACKEND picks the backend:
+//   kubo   - a Kubo node's RPC API (IPFS_KUBO_API_URL, default http://127.0.0.1:5001)
+//   pinata - a Pinata-compatible pinning API (PINATA_JWT, PINATA_API_URL)
+//   local  - a content-addressed directory (IPFS_LOCAL_STORE, default .ipfs-store/);
+//            the default outside production, served back by /api/ipfs
+//   none   - pinning disabled; the default in production
+
+export type PinningBackend = "kubo" | "pinata" | "local"
+
+export type PinInput = { bytes: Uint8Array; name: string; contentType: string }
+
+export type PinResult = { cid: string; size: number; backend: PinningBackend }
+
+export interface PinningAdapter {
+  backend: PinningBackend
+  // Pins the bytes and returns the CID the backend assigned
+  pin(input: PinInput): Promise<string>
+}
+
+export class PinningError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+  ) {
+    super(message)
+    this.name = "PinningError"
+  }
+}
+
+export class CidMismatchError extends PinningError {
+  constructor(
+    public expected: string,
+    public actual: string,
+  ) {
+    super(`Pinning service returned CID ${actual}, but the content hashes to ${expected}`)
+    this.name = "CidMismatchError"
+  }
+}
+
+function fileForm(input: PinInput) {
+  const form = new FormData()
+  form.append("file", new Blob([input.bytes], { type: input.contentType }), input.name)
+  return form
+}
+
+async function failure(res: Response, service: string) {
+  const text = await res.text().catch(() => "")
+  return new PinningError(`${service} responded ${res.status}${text ? `: ${text.slice(0, 200)}` : ""}`)
+}
+
+export function kuboAdapter(apiUrl: string): PinningAdapter {
+  const base = apiUrl.replace(/\/+$/, "")
+  return {
+    backend: "kubo",
+    async pin(input) {
+      const res = await fetch(`${base}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`, {
+        method: "POST",
+        body: fileForm(input),
+      })
+      if (!res.ok) throw await failure(res, "Kubo")
+      const { Hash } = (await res.json()) as { Hash?: string }
+      if (!Hash) throw new PinningError("Kubo returned no CID")
+      return Hash
+    },
+  }
+}
+
+export function pinataAdapter(jwt: string, apiUrl = "https://api.pinata.cloud"): PinningAdapter {
+  const base = apiUrl.replace(/\/+$/, "")
+  return {
+    backend: "pinata",
+    async pin(input) {
+      const form = fileForm(input)
+      form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }))
+      form.append("pinataMetadata", JSON.stringify({ name: input.name }))
+      const res = await fetch(`${base}/pinning/pinFileToIPFS`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${jwt}` },
+        body: form,
+      })
+      if (!res.ok) throw await failure(res, "Pinata")
+      const { IpfsHash } = (await res.json()) as { IpfsHash?: string }
+      if (!IpfsHash) throw new PinningError("Pinata returned no CID")
+      return IpfsHash
+    },
+  }
+}
+
+// Files are named by their CID, so the store never needs an index
+export function localAdapter(dir: string): PinningAdapter {
+  return {
+    backend: "local",
+    async pin(input) {
+      const cid = cidOf(input.bytes)
+      const file = path.join(dir, cid)
+      if (!existsSync(file)) {
+        mkdirSync(dir, { recursive: true })
+        writeFileSync(`${file}.tmp`, input.bytes)
+        renameSync(`${file}.tmp`, file)
+        writeFileSync(`${file}.type`, input.contentType)
+      }
+      return cid
+    },
+  }
+}
+
+function localStoreDir() {
+  return process.env.IPFS_LOCAL_STORE || path.join(process.cwd(), ".ipfs-store")
+}
+
+export function configuredBackend(): PinningBackend | null {
+  const backend = process.env.IPFS_PINNING_BACKEND || (process.env.NODE_ENV === "production" ? "none" : "local")
+  if (backend === "kubo" || backend === "pinata" || backend === "local") return backend
+  if (backend !== "none") console.warn(`[ipfs] unknown IPFS_PINNING_BACKEND "${backend}", pinning disabled`)
+  return null
+}
+
+// The adapter for the configured backend, or null when pinning is disabled
+export function pinningAdapter(): PinningAdapter | null {
+  switch (configuredBackend()) {
+    case "kubo":
+      return kuboAdapter(process.env.IPFS_KUBO_API_URL || "http://127.0.0.1:5001")
+    case "pinata": {
+      const jwt = process.env.PINATA_JWT
+      if (!jwt) throw new PinningError("PINATA_JWT must be set to pin with Pinata", 503)
+      return pinataAdapter(jwt, process.env.PINATA_API_URL || undefined)
+    }
+    case "local":
+      return localAdapter(localStoreDir())
+    default:
+      return null
+  }
+}
+
+export async function pinBytes(adapter: PinningAdapter, input: PinInput): Promise<PinResult> {
+  const expected = cidOf(input.bytes)
+  const cid = await adapter.pin(input)
+  if (cid !== expected) throw new CidMismatchError(expected, cid)
+  return { cid, size: input.bytes.length, backend: adapter.backend }
+}
+
+// Content pinned to the local store, for /api/ipfs to serve before trying public gateways
+export function readLocalPin(cid: string): { bytes: Buffer; contentType: string } | null {
+  if (configuredBackend() !== "local" || !/^b[a-z2-7]+$/.test(cid)) return null
+  const file = path.join(localStoreDir(), cid)
+  if (!existsSync(file)) return null
+  const type = `${file}.type`
+  return {
+    bytes: readFileSync(file),
+    contentType: existsSync(type) ? readFileSync(type, "utf8") : "application/octet-stream",
+  }
+}
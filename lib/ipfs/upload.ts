@@ -0,0 +1,55 @@
+import { getStoredToken } from "@/components/auth/jwt"
+import { ApiError, uploadToIpfs } from "@/lib/api/client"
+import { cidOf, jsonBytes } from "./cid"
+
+// Browser side of /api/ipfs/pin. The CID is computed here as well, from the exact
+// bytes sent, and a pin that comes back with a different CID is rejected.
+
+export type Pinned = { cid: string; uri: string; size: number; backend: string }
+
+async function pin(body: BodyInit, headers: Record<string, string>, expected: string): Promise<Pinned> {
+  const token = getStoredToken()
+  const res = await fetch("/api/ipfs/pin", {
+    method: "POST",
+    headers: { ...headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body,
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok || !data?.ok) throw new ApiError(res.status, data?.error || `Pinning failed (${res.status})`, data)
+  if (data.cid !== expected) throw new Error(`Pinned CID ${data.cid} does not match the uploaded content (${expected})`)
+  return { cid: data.cid, uri: `ipfs://${data.cid}`, size: data.size, backend: data.backend }
+}
+
+export function pinJson(value: unknown) {
+  const bytes = jsonBytes(value)
+  return pin(bytes, { "Content-Type": "application/json" }, cidOf(bytes))
+}
+
+export async function pinFile(file: File) {
+  const form = new FormData()
+  form.append("file", file, file.name)
+  return pin(form, {}, cidOf(new Uint8Array(await file.arrayBuffer())))
+}
+
+// Pins a university logo or banner and returns its CID, the value the backend keeps as
+// logo_ip_fs_hash / banner_ip_fs_hash. Unlike metadata there's no backend upload to fall
+// back on, so pinning has to be configured.
+export async function pinImage(file: File) {
+  if (!file.type.startsWith("image/")) throw new Error(`${file.name} is not an image`)
+  return (await pinFile(file)).cid
+}
+
+// Uploads credential metadata and returns its token URI. Uses the app's own pinning
+// route, falling back to the backend's /api/uploadtoipfs when pinning isn't configured
+// or the session was issued by the backend, which this app's route can't verify.
+export async function uploadCredentialMetadata(metadata: unknown): Promise<string> {
+  try {
+    return (await pinJson(metadata)).uri
+  } catch (e) {
+    if (!(e instanceof ApiError && (e.status === 503 || e.status === 401))) throw e
+  }
+  const result = await uploadToIpfs(metadata)
+  const link = result?.ipfsurl || result?.ipfslink || result?.ipfsLink
+  if (!link) throw new Error("IPFS upload returned no link")
+  return link
+}
@@ -0,0 +1,910 @@
+import { createHash, randomBytes, randomUUID } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { ethers } from "ethers"
+import { POST as getNoncePost } from "@/app/api/get-nonce/route"
+import { POST as loginPost } from "@/app/api/login-metamask/route"
+import { verifySessionToken } from "@/lib/auth/session-token"
+import type {
+  ApprovalDecision,
+  BackendCredential,
+  CredentialDraft,
+  CredentialTemplate,
+  CredentialTypeEntry,
+  DraftAuditEvent,
+  MintedRecordPayload,
+  TransactionRow,
+} from "@/lib/api/types"
+import { normalizeRevocation } from "@/lib/api/schemas"
+import { approvalState, isValidApproval, policyIssues, requiresApproval, signerFor } from "@/lib/chain/approval"
+import { metadataHash } from "@/lib/chain/issuer-signature"
+import { revocationMessage } from "@/lib/chain/revocation"
+import { countIssued, credentialTypeIssues } from "@/lib/domain/credential-catalog"
+import { templateIssues } from "@/lib/domain/credential-form"
+import { metadataIssues } from "@/lib/domain/metadata"
+import { cidOf } from "@/lib/ipfs/cid"
+import type { MockDb, MockStudent } from "./seed"
+import { getDb, nextId, resetDb, updateDb } from "./store"
+
+// Route table for the mock backend. Paths and response shapes follow what
+// lib/api/client.ts expects from the real backend, so pointing
+// NEXT_PUBLIC_API_BASE_URL at /mock-api needs no other changes.
+
+type Context = {
+  request: NextRequest
+  params: Record<string, string>
+  // Lowercased wallet from a valid session token, or null
+  caller: string | null
+}
+
+type Route = {
+  method: "GET" | "POST" | "PATCH" | "DELETE"
+  path: string
+  auth?: boolean
+  handler: (ctx: Context & { caller: string }) => Response | Promise<Response>
+}
+
+export function mockBackendEnabled() {
+  return process.env.MOCK_BACKEND === "1" || process.env.NODE_ENV !== "production"
+}
+
+const BULK_UPLOAD_HEADER = [
+  "student_name",
+  "roll_number",
+  "program",
+  "major",
+  "batch_year",
+  "issued_date",
+  "graduation_date",
+]
+
+function json(data: unknown, status = 200) {
+  return NextResponse.json(data, { status })
+}
+
+function fail(status: number, message: string) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+async function readJson(request: NextRequest): Promise<Record<string, any>> {
+  try {
+    const body = await request.json()
+    return body && typeof body === "object" ? body : {}
+  } catch {
+    return {}
+  }
+}
+
+function same(a: string | undefined | null, b: string | undefined | null) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase()
+}
+
+function now() {
+  return new Date().toISOString()
+}
+
+function findUniversity(db: MockDb, wallet: string) {
+  return db.universities.find((u) => same(u.metamask_address, wallet))
+}
+
+function findStudent(db: MockDb, wallet: string) {
+  return db.students.find((s) => same(s.metamask_address, wallet))
+}
+
+// Credentials go out with their signed status changes attached, oldest first
+function withRevocations(db: MockDb, credential: BackendCredential): BackendCredential {
+  const revocations = db.revocations
+    .filter((r) => r.credential_id === credential.id)
+    .sort((a, b) => Date.parse(a.issued_at) - Date.parse(b.issued_at))
+  return { ...credential, revocations }
+}
+
+function catalogFields(body: Record<string, any>) {
+  const text = (v: unknown) => (typeof v === "string" ? v.trim() : "")
+  return { name: text(body.name), category: text(body.category), description: text(body.description) }
+}
+
+// Drafts are visible to their university and to the wallets designated to approve them
+function canSeeDraft(draft: CredentialDraft, caller: string) {
+  return same(draft.university_wallet, caller) || !!signerFor(draft, caller)
+}
+
+function audit(draft: CredentialDraft, event: Omit<DraftAuditEvent, "at">) {
+  draft.audit.push({ ...event, at: now() })
+  draft.updated_at = now()
+}
+
+function parseCsvLine(line: string) {
+  const cells: string[] = []
+  let cur = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"'
+        i++
+      } else if (ch === '"') quoted = false
+      else cur += ch
+    } else if (ch === '"') quoted = true
+    else if (ch === ",") {
+      cells.push(cur.trim())
+      cur = ""
+    } else cur += ch
+  }
+  cells.push(cur.trim())
+  return cells
+}
+
+const routes: Route[] = [
+  // --- Auth -----------------------------------------------------------------
+  // Login reuses the app's own SIWE handlers so the mock exercises the real flow
+  { method: "POST", path: "/getnonce", handler: ({ request }) => getNoncePost(request) },
+  { method: "POST", path: "/auth/metamasklogin", handler: ({ request }) => loginPost(request) },
+  {
+    method: "GET",
+    path: "/api/v1/auth/me",
+    auth: true,
+    handler: ({ caller }) => {
+      const db = getDb()
+      const university = findUniversity(db, caller)
+      const student = findStudent(db, caller)
+      return json({
+        address: caller,
+        account_type: university ? "university" : student ? "student" : "unknown",
+        has_user_profile: !!student,
+        has_university_profile: !!university,
+      })
+    },
+  },
+
+  // --- Accounts -------------------------------------------------------------
+  {
+    method: "POST",
+    path: "/api/create/org",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const body = await readJson(request)
+      if (!body.OrgName) return fail(400, "OrgName is required")
+      const org = updateDb((db) => {
+        const existing = findUniversity(db, caller)
+        const row = {
+          ...existing,
+          id: existing?.id ?? nextId(db),
+          metamask_address: existing?.metamask_address ?? ethers.getAddress(caller),
+          acad_email: body.AcadEmail || body.email || "",
+          org_name: String(body.OrgName),
+          org_type: body.OrgType || "",
+          org_url: body.OrgUrl || "",
+          org_desc: body.OrgDesc || "",
+          country: body.Country || "",
+          state: body.State || "",
+          city: body.City || "",
+          address: body.Address || "",
+          postal_code: body.PostalCode || "",
+          logo_ip_fs_hash: body.logo_ip_fs_hash || existing?.logo_ip_fs_hash,
+          banner_ip_fs_hash: body.banner_ip_fs_hash || existing?.banner_ip_fs_hash,
+          is_verified: existing?.is_verified ?? false,
+          total_students: Number(body.TotalStudents) || existing?.total_students || 0,
+          created_at: existing?.created_at ?? now(),
+          updated_at: now(),
+        }
+        db.universities = [...db.universities.filter((u) => u !== existing), row]
+        return row
+      })
+      return json(org, 201)
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/create/user",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const body = await readJson(request)
+      const user = updateDb((db) => {
+        const existing = findStudent(db, caller)
+        const row: MockStudent = {
+          ...existing,
+          id: existing?.id ?? nextId(db),
+          metamask_address: existing?.metamask_address ?? ethers.getAddress(caller),
+          email: body.studentEmail || body.email || existing?.email || "",
+          first_name: body.firstName || existing?.first_name || "",
+          last_name: body.lastName || existing?.last_name || "",
+          is_verified: existing?.is_verified ?? false,
+          created_at: existing?.created_at ?? now(),
+          last_activity: now(),
+        }
+        db.students = [...db.students.filter((s) => s !== existing), row]
+        return row
+      })
+      return json(user, 201)
+    },
+  },
+  {
+    method: "GET",
+    path: "/dashboard",
+    auth: true,
+    handler: ({ caller }) => {
+      const student = findStudent(getDb(), caller)
+      return student ? json(student) : fail(404, "Profile not found")
+    },
+  },
+  {
+    method: "GET",
+    path: "/students",
+    auth: true,
+    handler: ({ caller }) => {
+      const db = getDb()
+      // Universities see their own students; anyone else sees the full directory
+      const rows = findUniversity(db, caller)
+        ? db.students.filter((s) => same(s.university_wallet, caller))
+        : db.students
+      return json(rows)
+    },
+  },
+  {
+    method: "GET",
+    path: "/university",
+    auth: true,
+    handler: ({ caller }) => {
+      const db = getDb()
+      const university = findUniversity(db, caller)
+      if (!university) return fail(404, "University not found")
+      return json({
+        ...university,
+        total_students: db.students.filter((s) => same(s.university_wallet, caller)).length,
+        total_credentials: db.credentials.filter((c) => same(c.university_wallet, caller)).length,
+        pending_requests: db.pending.filter((p) => p.status === "pending" && same(p.university_wallet, caller))
+          .length,
+      })
+    },
+  },
+  { method: "GET", path: "/universities", handler: () => json(getDb().universities) },
+  {
+    method: "POST",
+    path: "/api/specific-university",
+    handler: async ({ request }) => {
+      const { metamask_address } = await readJson(request)
+      const university = metamask_address ? findUniversity(getDb(), metamask_address) : undefined
+      return university ? json({ university }) : fail(404, "University not found")
+    },
+  },
+  {
+    method: "POST",
+    path: "/showuser",
+    handler: async ({ request }) => {
+      const { metamask_address } = await readJson(request)
+      const student = metamask_address ? findStudent(getDb(), metamask_address) : undefined
+      return student ? json(student) : fail(404, "User not found")
+    },
+  },
+  {
+    method: "POST",
+    path: "/usercreds",
+    handler: async ({ request }) => {
+      const { metamask_address } = await readJson(request)
+      const db = getDb()
+      return json(
+        db.credentials.filter((c) => same(c.student_wallet, metamask_address)).map((c) => withRevocations(db, c)),
+      )
+    },
+  },
+
+  // --- Pending mint requests --------------------------------------------------
+  {
+    method: "POST",
+    path: "/api/pending/request",
+    auth: true,
+    handler: async ({ request }) => {
+      const { student_wallet, university_wallet } = await readJson(request)
+      if (!ethers.isAddress(student_wallet) || !ethers.isAddress(university_wallet)) {
+        return fail(400, "student_wallet and university_wallet must be addresses")
+      }
+      if (!findUniversity(getDb(), university_wallet)) return fail(404, "University not found")
+      const row = updateDb((db) => {
+        const existing = db.pending.find(
+          (p) =>
+            p.status === "pending" && same(p.student_wallet, student_wallet) && same(p.university_wallet, university_wallet),
+        )
+        if (existing) return existing
+        const created = {
+          id: nextId(db),
+          student_wallet,
+          university_wallet,
+          status: "pending" as const,
+          created_at: now(),
+        }
+        db.pending.push(created)
+        return created
+      })
+      return json(row, 201)
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/pending/for-org",
+    auth: true,
+    handler: ({ caller }) =>
+      json(getDb().pending.filter((p) => p.status === "pending" && same(p.university_wallet, caller))),
+  },
+  {
+    method: "PATCH",
+    path: "/api/pending/approve",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const { student_wallet } = await readJson(request)
+      const approved = updateDb((db) => {
+        const rows = db.pending.filter(
+          (p) => p.status === "pending" && same(p.university_wallet, caller) && same(p.student_wallet, student_wallet),
+        )
+        rows.forEach((p) => (p.status = "approved"))
+        return rows.length
+      })
+      return approved ? json({ approved }) : fail(404, "No pending request for this student")
+    },
+  },
+
+  // --- Credential type catalog ----------------------------------------------
+  {
+    method: "GET",
+    path: "/api/v1/credential-types",
+    auth: true,
+    handler: ({ caller }) => {
+      const db = getDb()
+      return json(
+        db.credentialTypes
+          .filter((t) => same(t.university_wallet, caller))
+          .map((t) => ({ ...t, total_issued: countIssued(t, db.credentials) })),
+      )
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/credential-types",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const db = getDb()
+      if (!findUniversity(db, caller)) return fail(403, "Only universities can define credential types")
+      const fields = catalogFields(await readJson(request))
+      const issues = credentialTypeIssues(
+        fields,
+        db.credentialTypes.filter((t) => same(t.university_wallet, caller)),
+      )
+      if (issues.length) return fail(400, issues.join("; "))
+      const entry: CredentialTypeEntry = {
+        ...fields,
+        id: randomUUID(),
+        university_wallet: ethers.getAddress(caller),
+        status: "active",
+        version: 1,
+        history: [],
+        created_at: now(),
+        updated_at: now(),
+      }
+      updateDb((db) => {
+        db.credentialTypes.push(entry)
+      })
+      return json({ ...entry, total_issued: countIssued(entry, db.credentials) }, 201)
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/api/v1/credential-types/:id",
+    auth: true,
+    handler: async ({ request, params, caller }) => {
+      const db = getDb()
+      const entry = db.credentialTypes.find((t) => t.id === params.id)
+      if (!entry || !same(entry.university_wallet, caller)) return fail(404, "Credential type not found")
+      const body = await readJson(request)
+      if (body.status !== undefined && body.status !== "active" && body.status !== "inactive") {
+        return fail(400, "status must be active or inactive")
+      }
+      const fields = catalogFields({ ...entry, ...body })
+      const issues = credentialTypeIssues(
+        fields,
+        db.credentialTypes.filter((t) => t.id !== entry.id && same(t.university_wallet, caller)),
+      )
+      if (issues.length) return fail(400, issues.join("; "))
+      const changed = (Object.keys(fields) as (keyof typeof fields)[]).some((k) => fields[k] !== entry[k])
+      const updated = updateDb((db) => {
+        const target = db.credentialTypes.find((t) => t.id === entry.id)!
+        if (changed) {
+          const { version, name, category, description, updated_at } = target
+          target.history = [...target.history, { version, name, category, description, updated_at }]
+          Object.assign(target, fields, { version: version + 1 })
+        }
+        if (body.status) target.status = body.status
+        target.updated_at = now()
+        return target
+      })
+      return json({ ...updated, total_issued: countIssued(updated, db.credentials) })
+    },
+  },
+
+  // --- Credential templates ---------------------------------------------------
+  {
+    method: "GET",
+    path: "/api/v1/credential-templates",
+    auth: true,
+    handler: ({ caller }) => json(getDb().templates.filter((t) => same(t.university_wallet, caller))),
+  },
+  {
+    method: "POST",
+    path: "/api/v1/credential-templates",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      if (!findUniversity(getDb(), caller)) return fail(403, "Only universities can save templates")
+      const body = await readJson(request)
+      const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined)
+      const fields = {
+        name: text(body.name) ?? "",
+        credential_type: text(body.credential_type) ?? "",
+        major: text(body.major),
+        description: text(body.description) ?? "",
+        accreditation_body: text(body.accreditation_body),
+      }
+      const issues = templateIssues(fields)
+      if (issues.length) return fail(400, issues.join("; "))
+      const existing = body.id ? getDb().templates.find((t) => t.id === String(body.id)) : undefined
+      if (existing && !same(existing.university_wallet, caller)) return fail(404, "Template not found")
+      const template: CredentialTemplate = {
+        ...fields,
+        id: existing?.id ?? randomUUID(),
+        university_wallet: ethers.getAddress(caller),
+        updated_at: now(),
+      }
+      updateDb((db) => {
+        db.templates = [...db.templates.filter((t) => t.id !== template.id), template]
+      })
+      return json(template, existing ? 200 : 201)
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/v1/credential-templates/:id",
+    auth: true,
+    handler: ({ params, caller }) => {
+      const template = getDb().templates.find((t) => t.id === params.id)
+      if (!template || !same(template.university_wallet, caller)) return fail(404, "Template not found")
+      updateDb((db) => {
+        db.templates = db.templates.filter((t) => t.id !== params.id)
+      })
+      return json({ deleted: params.id })
+    },
+  },
+
+  // --- Approvals ------------------------------------------------------------
+  {
+    method: "GET",
+    path: "/api/v1/approval-policy",
+    auth: true,
+    handler: ({ caller }) => {
+      const policy = getDb().approvalPolicies.find((p) => same(p.university_wallet, caller))
+      return policy ? json(policy) : fail(404, "No approval policy")
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/approval-policy",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      if (!findUniversity(getDb(), caller)) return fail(403, "Only universities can set an approval policy")
+      const body = await readJson(request)
+      const signers = Array.isArray(body.signers)
+        ? body.signers.map((s: any) => ({ wallet: String(s?.wallet ?? "").trim(), role: String(s?.role ?? "").trim() }))
+        : []
+      const policy = { signers, threshold: Number(body.threshold) || 0 }
+      const issues = policyIssues(policy)
+      if (issues.length) return fail(400, issues.join("; "))
+      const saved = updateDb((db) => {
+        db.approvalPolicies = db.approvalPolicies.filter((p) => !same(p.university_wallet, caller))
+        if (!requiresApproval(policy)) return null
+        const row = { university_wallet: ethers.getAddress(caller), ...policy, updated_at: now() }
+        db.approvalPolicies.push(row)
+        return row
+      })
+      return json(saved)
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/v1/drafts",
+    auth: true,
+    handler: ({ caller }) =>
+      json(
+        getDb()
+          .drafts.filter((d) => canSeeDraft(d, caller))
+          .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at)),
+      ),
+  },
+  {
+    method: "POST",
+    path: "/api/v1/drafts",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const db = getDb()
+      if (!findUniversity(db, caller)) return fail(403, "Only universities can create drafts")
+      const policy = db.approvalPolicies.find((p) => same(p.university_wallet, caller))
+      if (!policy) return fail(409, "This university has no approval policy; mint directly")
+      const { student_wallet, metadata } = await readJson(request)
+      if (!ethers.isAddress(student_wallet)) return fail(400, "student_wallet must be an address")
+      const problems = metadataIssues(metadata)
+      if (problems.length) return fail(400, problems.join("; "))
+      if (metadata.proof) return fail(400, "Drafts hold unsigned metadata; the issuer signs at mint time")
+      if (!same(metadata.issuer.wallet, caller)) return fail(400, "Metadata names a different issuer")
+      const draft: CredentialDraft = {
+        id: randomUUID(),
+        university_wallet: ethers.getAddress(caller),
+        student_wallet: ethers.getAddress(student_wallet),
+        metadata,
+        metadata_hash: metadataHash(metadata),
+        policy: { signers: policy.signers, threshold: policy.threshold },
+        status: "awaiting_approval",
+        approvals: [],
+        audit: [],
+        created_by: ethers.getAddress(caller),
+        created_at: now(),
+        updated_at: now(),
+      }
+      audit(draft, {
+        action: "created",
+        actor: draft.created_by,
+        detail: `Needs ${policy.threshold} of ${policy.signers.length} approvals`,
+      })
+      updateDb((d) => {
+        d.drafts.push(draft)
+      })
+      return json(draft, 201)
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/drafts/:id/approvals",
+    auth: true,
+    handler: async ({ request, params, caller }) => {
+      const draft = getDb().drafts.find((d) => d.id === params.id)
+      if (!draft || !canSeeDraft(draft, caller)) return fail(404, "Draft not found")
+      if (draft.status !== "awaiting_approval" && draft.status !== "approved") {
+        return fail(409, `Draft is ${draft.status.replace("_", " ")}`)
+      }
+      const entry = (await readJson(request)) as ApprovalDecision
+      // The signature authorises the decision, so an approver may submit through the university's session
+      if (!isValidApproval(entry, draft)) return fail(400, "Signature does not match a designated approver")
+      const updated = updateDb((db) => {
+        const row = db.drafts.find((d) => d.id === draft.id)!
+        row.approvals.push(entry)
+        audit(row, {
+          action: entry.decision,
+          actor: ethers.getAddress(entry.approver),
+          detail: [entry.role, entry.note].filter(Boolean).join(": "),
+        })
+        const state = approvalState(row)
+        row.status = state.blocked ? "rejected" : state.quorum ? "approved" : "awaiting_approval"
+        return row
+      })
+      return json(updated, 201)
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/drafts/:id/cancel",
+    auth: true,
+    handler: async ({ request, params, caller }) => {
+      const draft = getDb().drafts.find((d) => d.id === params.id)
+      if (!draft || !canSeeDraft(draft, caller)) return fail(404, "Draft not found")
+      if (!same(draft.university_wallet, caller)) return fail(403, "Only the issuing university can cancel a draft")
+      if (draft.status === "minted") return fail(409, "Draft is already minted")
+      const { reason } = await readJson(request)
+      const updated = updateDb((db) => {
+        const row = db.drafts.find((d) => d.id === draft.id)!
+        row.status = "cancelled"
+        audit(row, { action: "cancelled", actor: ethers.getAddress(caller), detail: String(reason ?? "") })
+        return row
+      })
+      return json(updated)
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/drafts/:id/minted",
+    auth: true,
+    handler: async ({ request, params, caller }) => {
+      const draft = getDb().drafts.find((d) => d.id === params.id)
+      if (!draft || !same(draft.university_wallet, caller)) return fail(404, "Draft not found")
+      if (draft.status !== "approved") return fail(409, "Draft has not reached its approval quorum")
+      const { token_uri, tx_hash, token_id } = await readJson(request)
+      if (!/^0x[0-9a-fA-F]{64}$/.test(String(tx_hash))) return fail(400, "Invalid transaction hash")
+      const updated = updateDb((db) => {
+        const row = db.drafts.find((d) => d.id === draft.id)!
+        Object.assign(row, { status: "minted", token_uri, tx_hash, token_id: token_id ?? undefined })
+        audit(row, { action: "minted", actor: ethers.getAddress(caller), detail: tx_hash })
+        return row
+      })
+      return json(updated)
+    },
+  },
+
+  // --- Credentials ------------------------------------------------------------
+  {
+    method: "GET",
+    path: "/api/creds",
+    auth: true,
+    handler: ({ caller }) => {
+      const db = getDb()
+      return json(
+        db.credentials
+          .filter((c) => same(c.student_wallet, caller) || same(c.university_wallet, caller))
+          .map((c) => withRevocations(db, c)),
+      )
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/v1/credentials/:id/revocations",
+    handler: ({ params }) => json(withRevocations(getDb(), { id: params.id }).revocations),
+  },
+  {
+    method: "POST",
+    path: "/api/v1/credentials/:id/revocations",
+    auth: true,
+    handler: async ({ request, params, caller }) => {
+      const db = getDb()
+      const credential = db.credentials.find((c) => c.id === params.id)
+      if (!credential) return fail(404, "Credential not found")
+      if (!same(credential.university_wallet, caller)) return fail(403, "Only the issuing university can change its status")
+      const parsed = normalizeRevocation(await readJson(request))
+      if (!parsed.ok) return fail(400, parsed.issues.join("; "))
+      const entry = parsed.value
+      if (entry.credential_id !== credential.id) return fail(400, "Entry is for a different credential")
+      const { signature, ...statement } = entry
+      let signer = ""
+      try {
+        signer = ethers.verifyMessage(revocationMessage(statement), signature)
+      } catch {}
+      if (!same(signer, entry.issuer) || !same(signer, caller)) return fail(400, "Signature does not match the issuer")
+      if (withRevocations(db, credential).revocations?.some((r) => r.action === "revoked")) {
+        return fail(409, "Credential is already revoked")
+      }
+      updateDb((d) => {
+        d.revocations.push(entry)
+      })
+      return json(entry, 201)
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/uploadtoipfs",
+    auth: true,
+    handler: async ({ request }) => {
+      const metadata = await readJson(request)
+      const cid = cidOf(Buffer.from(JSON.stringify(metadata)))
+      updateDb((db) => {
+        db.ipfs[cid] = metadata
+      })
+      return json({ ipfsurl: `ipfs://${cid}` })
+    },
+  },
+  {
+    method: "GET",
+    path: "/ipfs/:cid",
+    handler: ({ params }) => {
+      const doc = getDb().ipfs[params.cid]
+      return doc ? json(doc) : fail(404, "CID not found")
+    },
+  },
+  {
+    method: "POST",
+    path: "/transactionhash",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const { transaction_hash } = await readJson(request)
+      if (!/^0x[0-9a-fA-F]{64}$/.test(String(transaction_hash))) return fail(400, "Invalid transaction hash")
+      const row: TransactionRow = {
+        tx_hash: transaction_hash,
+        from: ethers.getAddress(caller),
+        to: "",
+        value_eth: "0",
+        timestamp: now(),
+        status: "pending",
+      }
+      updateDb((db) => {
+        if (!db.transactions.some((t) => same(t.tx_hash, transaction_hash))) db.transactions.push(row)
+      })
+      return json(row, 201)
+    },
+  },
+  {
+    method: "POST",
+    path: "/credmint",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      if (!findUniversity(getDb(), caller)) return fail(403, "Only universities can record credentials")
+      const body = (await readJson(request)) as Partial<MintedRecordPayload>
+      if (!body.id || !ethers.isAddress(body.student_wallet ?? "")) {
+        return fail(400, "id and student_wallet are required")
+      }
+      // Universities record their own mints; an existing record stays with the wallet that created it
+      if (body.university_wallet && !same(body.university_wallet, caller)) {
+        return fail(403, "university_wallet must be the signed-in wallet")
+      }
+      const existing = getDb().credentials.find((c) => c.id === String(body.id))
+      if (existing && !same(existing.university_wallet, caller)) return fail(403, "Not your credential")
+      const record: BackendCredential = {
+        ...body,
+        id: String(body.id),
+        university_wallet: body.university_wallet || caller,
+        created_at: body.created_at || now(),
+        updated_at: now(),
+      }
+      updateDb((db) => {
+        db.credentials = [...db.credentials.filter((c) => c.id !== record.id), record]
+      })
+      return json(record, 201)
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/credentials/generate-share-link",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      const { credential_id, duration } = await readJson(request)
+      const credential = getDb().credentials.find((c) => c.id === String(credential_id))
+      if (!credential) return fail(404, "Credential not found")
+      if (!same(credential.student_wallet, caller) && !same(credential.university_wallet, caller)) {
+        return fail(403, "Not your credential")
+      }
+      const hours = Math.max(1, Number(duration) || 24)
+      const link = {
+        uuid: randomUUID(),
+        token: randomBytes(16).toString("hex"),
+        credential_id: credential.id,
+        expires_at: new Date(Date.now() + hours * 3600_000).toISOString(),
+      }
+      updateDb((db) => {
+        db.shareLinks.push(link)
+      })
+      return json({
+        shareable_url: `${request.nextUrl.origin}/verify/${link.uuid}?token=${link.token}`,
+        expires_at: link.expires_at,
+      })
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/v1/credential-info/:uuid",
+    handler: ({ request, params }) => {
+      const db = getDb()
+      const link = db.shareLinks.find((l) => l.uuid === params.uuid)
+      if (!link) return json({ status: "NOT_FOUND", message: "Unknown share link" }, 404)
+      if (link.token !== request.nextUrl.searchParams.get("token")) return fail(403, "Invalid share token")
+      if (Date.parse(link.expires_at) <= Date.now()) return fail(410, "Share link has expired")
+      const credential = db.credentials.find((c) => c.id === link.credential_id)
+      if (!credential) return json({ status: "NOT_FOUND", message: "Credential no longer exists" }, 404)
+      const full = withRevocations(db, credential)
+      return json({ status: "VERIFIED", message: "Credential found", ...full, credential: full })
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/v1/verify-document",
+    handler: async ({ request }) => {
+      const form = await request.formData()
+      const file = form.get("file")
+      const claimed = String(form.get("hash") || "").toLowerCase()
+      if (!(file instanceof Blob)) return fail(400, "file is required")
+      const actual = createHash("sha256")
+        .update(Buffer.from(await file.arrayBuffer()))
+        .digest("hex")
+      const registered = getDb().documents.find((d) => d.sha256 === actual || d.sha256 === claimed)
+      if (!registered) return json({ status: "NOT_FOUND", message: "No credential matches this document" })
+      if (registered.sha256 !== actual) {
+        return json({ status: "TAMPERED", message: "Document differs from the registered original" })
+      }
+      const db = getDb()
+      const credential = db.credentials.find((c) => c.id === registered.credential_id)
+      return json({
+        status: "VERIFIED",
+        message: "Document matches a registered credential",
+        ...registered,
+        credential: credential ? withRevocations(db, credential) : undefined,
+      })
+    },
+  },
+  {
+    method: "GET",
+    path: "/transactions",
+    handler: () =>
+      json(
+        [...getDb().transactions].sort(
+          (a, b) => Date.parse(String(b.timestamp ?? 0)) - Date.parse(String(a.timestamp ?? 0)),
+        ),
+      ),
+  },
+  {
+    method: "POST",
+    path: "/api/v1/institution/bulk-upload",
+    auth: true,
+    handler: async ({ request, caller }) => {
+      if (!findUniversity(getDb(), caller)) return fail(403, "Only universities can upload students")
+      const file = (await request.formData()).get("file")
+      if (!(file instanceof Blob)) return fail(400, "file is required")
+      const lines = (await file.text()).split(/\r?\n/).filter((l) => l.trim())
+      const header = parseCsvLine(lines[0] ?? "").map((h) => h.toLowerCase())
+      if (header.join(",") !== BULK_UPLOAD_HEADER.join(",")) {
+        return json({ message: `Expected header: ${BULK_UPLOAD_HEADER.join(",")}` }, 422)
+      }
+      const errors: { row: number; field: string; message: string }[] = []
+      const imported = updateDb((db) => {
+        let count = 0
+        lines.slice(1).forEach((line, i) => {
+          const row = Object.fromEntries(header.map((h, j) => [h, parseCsvLine(line)[j] ?? ""]))
+          const missing = ["student_name", "roll_number"].find((f) => !row[f])
+          if (missing) {
+            errors.push({ row: i + 2, field: missing, message: `${missing} is required` })
+            return
+          }
+          const [first_name, ...rest] = row.student_name.split(/\s+/)
+          db.students.push({
+            id: nextId(db),
+            first_name,
+            last_name: rest.join(" "),
+            student_id: row.roll_number,
+            is_verified: false,
+            university_wallet: ethers.getAddress(caller),
+            created_at: now(),
+          })
+          count++
+        })
+        return count
+      })
+      return json({ importedCount: imported, errors })
+    },
+  },
+
+  // --- Mock controls ----------------------------------------------------------
+  {
+    method: "POST",
+    path: "/__mock/reset",
+    handler: () => {
+      const db = resetDb()
+      return json({ reset: true, universities: db.universities.length, students: db.students.length })
+    },
+  },
+]
+
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const want = pattern.split("/").filter(Boolean)
+  const got = path.split("/").filter(Boolean)
+  if (want.length !== got.length) return null
+  const params: Record<string, string> = {}
+  for (let i = 0; i < want.length; i++) {
+    if (want[i].startsWith(":")) params[want[i].slice(1)] = decodeURIComponent(got[i])
+    else if (want[i] !== got[i]) return null
+  }
+  return params
+}
+
+function callerFrom(request: NextRequest) {
+  const header = request.headers.get("authorization") || ""
+  const token = header.replace(/^Bearer\s+/i, "")
+  return verifySessionToken(token)?.sub ?? null
+}
+
+export async function handleMockRequest(request: NextRequest, path: string) {
+  let pathMatched = false
+  for (const route of routes) {
+    const params = matchPath(route.path, path)
+    if (!params) continue
+    pathMatched = true
+    if (route.method !== request.method) continue
+
+    const caller = callerFrom(request)
+    if (route.auth && !caller) return fail(401, "Missing or invalid session token")
+    try {
+      return await route.handler({ request, params, caller: caller ?? "" })
+    } catch (e) {
+      console.error(`[mock-backend] ${request.method} ${path} failed`, e)
+      return fail(500, "Mock backend error")
+    }
+  }
+  return pathMatched ? fail(405, "Method not allowed") : fail(404, `No mock for ${request.method} ${path}`)
+}
@@ -0,0 +1,282 @@
+import { createHash } from "crypto"
+import type {
+  ApprovalPolicy,
+  BackendCredential,
+  BackendStudent,
+  BackendUniversity,
+  CredentialDraft,
+  CredentialTemplate,
+  CredentialTypeEntry,
+  RevocationEntry,
+  TransactionRow,
+} from "@/lib/api/types"
+
+// Seed data for the mock backend. Mirrors the sample records the pages used to
+// hard-code (MIT, John Smith, ...) so the UI looks the same with or without a server.
+
+export type MockStudent = BackendStudent & {
+  // Which university enrolled the student; the real backend keeps this server-side
+  university_wallet?: string
+}
+
+export type MockPendingRequest = {
+  id: number
+  student_wallet: string
+  university_wallet: string
+  status: "pending" | "approved"
+  created_at: string
+}
+
+export type MockShareLink = {
+  uuid: string
+  token: string
+  credential_id: string
+  expires_at: string
+}
+
+export type MockDocument = {
+  sha256: string
+  credential_id: string
+}
+
+export type MockDb = {
+  version: 1
+  nextId: number
+  universities: BackendUniversity[]
+  students: MockStudent[]
+  credentials: BackendCredential[]
+  pending: MockPendingRequest[]
+  transactions: TransactionRow[]
+  shareLinks: MockShareLink[]
+  documents: MockDocument[]
+  // Issuer-signed status changes, stored as received
+  revocations: RevocationEntry[]
+  templates: CredentialTemplate[]
+  credentialTypes: CredentialTypeEntry[]
+  // At most one per university; none means credentials are minted directly
+  approvalPolicies: ApprovalPolicy[]
+  drafts: CredentialDraft[]
+  // CID -> uploaded metadata JSON
+  ipfs: Record<string, unknown>
+}
+
+export const MIT_WALLET = "0x1234567890123456789012345678901234567890"
+export const STANFORD_WALLET = "0x5f4e3d2c1b0a99887766554433221100ffeeddcc"
+// The address the home page search offers as a sample
+export const SAMPLE_STUDENT_WALLET = "0x1A5b0307F532cd664f93D71786aa84b67964e635"
+
+function seedHash(label: string) {
+  return `0x${createHash("sha256").update(`vericred-seed:${label}`).digest("hex")}`
+}
+
+function catalogEntry(id: string, wallet: string, name: string, category: string, description: string) {
+  const entry: CredentialTypeEntry = {
+    id,
+    university_wallet: wallet,
+    name,
+    category,
+    description,
+    status: "active",
+    version: 1,
+    history: [],
+    created_at: "2023-01-01T00:00:00Z",
+    updated_at: "2023-01-01T00:00:00Z",
+  }
+  return entry
+}
+
+export function seedDb(): MockDb {
+  const universities: BackendUniversity[] = [
+    {
+      id: 1,
+      metamask_address: MIT_WALLET,
+      acad_email: "registrar@mit.edu",
+      org_name: "Massachusetts Institute of Technology",
+      org_type: "University",
+      org_url: "https://web.mit.edu",
+      org_desc:
+        "MIT is a world-renowned institution of higher learning known for its cutting-edge research and innovation in science, technology, engineering, and mathematics.",
+      country: "United States",
+      state: "Massachusetts",
+      city: "Cambridge",
+      address: "77 Massachusetts Ave",
+      postal_code: "02139",
+      is_verified: true,
+      total_students: 4,
+      created_at: "2023-08-01T09:00:00Z",
+      updated_at: "2024-01-20T09:00:00Z",
+    },
+    {
+      id: 2,
+      metamask_address: STANFORD_WALLET,
+      acad_email: "registrar@stanford.edu",
+      org_name: "Stanford University",
+      org_type: "University",
+      org_url: "https://www.stanford.edu",
+      org_desc: "Private research university in Stanford, California.",
+      country: "United States",
+      state: "California",
+      city: "Stanford",
+      postal_code: "94305",
+      is_verified: false,
+      total_students: 1,
+      created_at: "2023-09-12T09:00:00Z",
+      updated_at: "2023-09-12T09:00:00Z",
+    },
+  ]
+
+  const students: MockStudent[] = [
+    {
+      id: 1,
+      metamask_address: "0x742d35Cc6634C0532925a3b8D4C0532925a3b8D4",
+      email: "john.smith@mit.edu",
+      first_name: "John",
+      last_name: "Smith",
+      student_id: "MIT2024001",
+      is_verified: true,
+      university_wallet: MIT_WALLET,
+      created_at: "2024-01-15T10:00:00Z",
+      last_activity: "2024-01-20T10:00:00Z",
+    },
+    {
+      id: 2,
+      metamask_address: "0x8f3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d",
+      email: "emily.chen@mit.edu",
+      first_name: "Emily",
+      last_name: "Chen",
+      student_id: "MIT2024002",
+      is_verified: true,
+      university_wallet: MIT_WALLET,
+      created_at: "2024-01-10T10:00:00Z",
+      last_activity: "2024-01-22T10:00:00Z",
+    },
+    {
+      id: 3,
+      metamask_address: "0x2e4f6a8b0c2d4e6f8a0b2c4d6e8f0a2b4c6d8e0f",
+      email: "michael.rodriguez@mit.edu",
+      first_name: "Michael",
+      last_name: "Rodriguez",
+      student_id: "MIT2024003",
+      is_verified: false,
+      university_wallet: MIT_WALLET,
+      created_at: "2024-01-12T10:00:00Z",
+      last_activity: "2024-01-21T10:00:00Z",
+    },
+    {
+      id: 4,
+      metamask_address: "0x9a1b3c5d7e9f1a3b5c7d9e1f3a5b7c9d1e3f5a7b",
+      email: "lisa.wang@mit.edu",
+      first_name: "Lisa",
+      last_name: "Wang",
+      student_id: "MIT2023045",
+      is_verified: true,
+      university_wallet: MIT_WALLET,
+      created_at: "2023-09-01T10:00:00Z",
+      last_activity: "2024-01-19T10:00:00Z",
+    },
+    {
+      id: 5,
+      metamask_address: SAMPLE_STUDENT_WALLET,
+      email: "alex.morgan@stanford.edu",
+      first_name: "Alex",
+      last_name: "Morgan",
+      student_id: "STF2022117",
+      is_verified: true,
+      university_wallet: STANFORD_WALLET,
+      created_at: "2022-09-20T10:00:00Z",
+      last_activity: "2024-02-02T10:00:00Z",
+    },
+  ]
+
+  const credentials: BackendCredential[] = [
+    {
+      id: "cred-mit-0001",
+      degree_id: 1,
+      student_wallet: "0x9a1b3c5d7e9f1a3b5c7d9e1f3a5b7c9d1e3f5a7b",
+      university_wallet: MIT_WALLET,
+      degree_name: "Bachelor of Science in Computer Science",
+      description: "4-year undergraduate degree program",
+      type: "Bachelor's Degree",
+      major: "Computer Science",
+      gpa: "3.91",
+      issued_date: "2023-06-02",
+      graduation_date: "2023-06-02",
+      created_at: "2023-06-05T12:00:00Z",
+      updated_at: "2023-06-05T12:00:00Z",
+      ipfs_link: "ipfs://bafkreidemo0000000000000000000000000000000000000000000000001",
+      dean_sig: seedHash("dean-sig-1"),
+    },
+    {
+      id: "cred-stf-0001",
+      degree_id: 2,
+      student_wallet: SAMPLE_STUDENT_WALLET,
+      university_wallet: STANFORD_WALLET,
+      degree_name: "Certificate in Web Development",
+      description: "Professional certificate program",
+      type: "Certificate",
+      major: "Web Development",
+      gpa: "4.0",
+      issued_date: "2022-03-20",
+      graduation_date: "2022-03-20",
+      created_at: "2022-03-21T12:00:00Z",
+      updated_at: "2022-03-21T12:00:00Z",
+      ipfs_link: "ipfs://bafkreidemo0000000000000000000000000000000000000000000000002",
+      dean_sig: seedHash("dean-sig-2"),
+    },
+  ]
+
+  const transactions: TransactionRow[] = credentials.map((c, i) => ({
+    tx_hash: seedHash(`tx-${i + 1}`),
+    block_number: 5_120_000 + i * 1_337,
+    from: c.university_wallet,
+    to: c.student_wallet,
+    value_eth: "0",
+    gas: 182_311,
+    gas_price: "1.5",
+    timestamp: c.created_at,
+    status: "success",
+  }))
+
+  return {
+    version: 1,
+    nextId: 100,
+    universities,
+    students,
+    credentials,
+    pending: [
+      {
+        id: 1,
+        student_wallet: "0x8f3d4e5f6a7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d",
+        university_wallet: MIT_WALLET,
+        status: "pending",
+        created_at: "2024-01-22T10:00:00Z",
+      },
+    ],
+    transactions,
+    shareLinks: [],
+    documents: [],
+    revocations: [],
+    templates: [
+      {
+        id: "tpl-mit-btech-cs",
+        university_wallet: MIT_WALLET,
+        name: "BTECH",
+        credential_type: "Bachelor's Degree",
+        major: "Computer Science",
+        description:
+          "Official academic credential awarded by {university} to {student} for the successful completion of the Bachelor of Technology program.",
+        accreditation_body: "Accreditation Council for Education (ACE)",
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+    ],
+    credentialTypes: [
+      catalogEntry("ct-mit-ba", MIT_WALLET, "Bachelor's Degree", "Undergraduate Degree", "4-year undergraduate degree"),
+      catalogEntry("ct-mit-ma", MIT_WALLET, "Master's Degree", "Graduate Degree", "2-year graduate program"),
+      catalogEntry("ct-mit-cert", MIT_WALLET, "Certificate", "Professional Certificate", "Short professional program"),
+      catalogEntry("ct-stf-cert", STANFORD_WALLET, "Certificate", "Professional Certificate", "Professional program"),
+    ],
+    approvalPolicies: [],
+    drafts: [],
+    ipfs: {},
+  }
+}
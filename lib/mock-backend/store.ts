@@ -0,0 +1,73 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs"
+import path from "path"
+import { type MockDb, seedDb } from "./seed"
+
+// JSON-file persistence for the mock backend.
+// The database lives in .mock-backend/db.json (override with MOCK_BACKEND_DB) and
+// is created from the seed on first use. Delete the file or POST /__mock/reset to start over.
+
+const globalStore = globalThis as typeof globalThis & {
+  __vericredMockDb?: MockDb
+}
+
+export function dbPath() {
+  return process.env.MOCK_BACKEND_DB || path.join(process.cwd(), ".mock-backend", "db.json")
+}
+
+function load(): MockDb {
+  const file = dbPath()
+  if (existsSync(file)) {
+    try {
+      const parsed = JSON.parse(readFileSync(file, "utf8"))
+      if (parsed?.version === 1) {
+        // Collections added after a file was created start out empty
+        parsed.revocations ??= []
+        parsed.templates ??= []
+        parsed.credentialTypes ??= []
+        parsed.approvalPolicies ??= []
+        parsed.drafts ??= []
+        return parsed as MockDb
+      }
+      console.warn(`[mock-backend] ${file} has an unknown format, reseeding`)
+    } catch (e) {
+      console.warn(`[mock-backend] could not read ${file}, reseeding`, e)
+    }
+  }
+  const db = seedDb()
+  persist(db)
+  return db
+}
+
+function persist(db: MockDb) {
+  const file = dbPath()
+  mkdirSync(path.dirname(file), { recursive: true })
+  // Write-then-rename so a crash mid-write never leaves a truncated file
+  const tmp = `${file}.tmp`
+  writeFileSync(tmp, JSON.stringify(db, null, 2))
+  renameSync(tmp, file)
+}
+
+export function getDb(): MockDb {
+  if (!globalStore.__vericredMockDb) globalStore.__vericredMockDb = load()
+  return globalStore.__vericredMockDb
+}
+
+// Applies a mutation and writes the result to disk
+export function updateDb<T>(mutate: (db: MockDb) => T): T {
+  const db = getDb()
+  const result = mutate(db)
+  persist(db)
+  return result
+}
+
+export function nextId(db: MockDb) {
+  db.nextId += 1
+  return db.nextId
+}
+
+export function resetDb() {
+  const db = seedDb()
+  persist(db)
+  globalStore.__vericredMockDb = db
+  return db
+}
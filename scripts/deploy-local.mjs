@@ -0,0 +1,104 @@
+// Deploys the credential contract (types/mint.bin) to a local Hardhat/Anvil node,
+// registers verified orgs through newOrg, and points .env.local at the deployment.
+//
+//   anvil                      # or: npx hardhat node
+//   pnpm chain:deploy-local [extra org addresses...]
+//
+// Env: LOCAL_RPC_URL (default http://127.0.0.1:8545), DEPLOYER_PRIVATE_KEY
+// (default: the node's well-known dev account #0), LOCAL_ORGS (comma-separated),
+// CONTRACT_BIN (bytecode file to deploy instead of types/mint.bin, e.g. a build of
+// contracts/SoulboundCredential.sol).
+
+import { readFileSync, writeFileSync, existsSync } from "fs"
+import path from "path"
+import { fileURLToPath } from "url"
+import { ContractFactory, JsonRpcProvider, NonceManager, Wallet, getAddress, isAddress } from "ethers"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+
+const RPC_URL = process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545"
+// Dev account #0 of the standard "test test ... junk" mnemonic used by Hardhat and Anvil
+const DEV_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"
+
+// Dev accounts #1 and #2 (import their keys into MetaMask to act as a university),
+// plus the MIT wallet the mock backend seeds
+const DEFAULT_ORGS = [
+  "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+  "0x1234567890123456789012345678901234567890",
+]
+
+function orgList() {
+  const extra = [...(process.env.LOCAL_ORGS || "").split(","), ...process.argv.slice(2)]
+    .map((a) => a.trim())
+    .filter(Boolean)
+  for (const a of extra) {
+    if (!isAddress(a)) throw new Error(`Not a valid address (check the checksum casing): ${a}`)
+  }
+  return [...new Set([...DEFAULT_ORGS, ...extra].map((a) => getAddress(a)))]
+}
+
+// Sets keys in .env.local, keeping every other line as it was
+function writeEnvLocal(values) {
+  const file = path.join(root, ".env.local")
+  const lines = existsSync(file) ? readFileSync(file, "utf8").split(/\r?\n/) : []
+  const pending = new Map(Object.entries(values))
+  const out = lines.map((line) => {
+    const key = line.split("=")[0].trim()
+    if (!pending.has(key)) return line
+    const value = pending.get(key)
+    pending.delete(key)
+    return `${key}=${value}`
+  })
+  while (out.length && out[out.length - 1] === "") out.pop()
+  for (const [key, value] of pending) out.push(`${key}=${value}`)
+  writeFileSync(file, `${out.join("\n")}\n`)
+  return file
+}
+
+async function main() {
+  const provider = new JsonRpcProvider(RPC_URL)
+  const network = await provider.getNetwork().catch(() => {
+    throw new Error(`No node reachable at ${RPC_URL}. Start one with \`anvil\` or \`npx hardhat node\`.`)
+  })
+  if (network.chainId !== 31337n) {
+    console.warn(`Warning: chain id is ${network.chainId}, the app's local profile expects 31337`)
+  }
+
+  const orgs = orgList()
+  // NonceManager keeps back-to-back transactions from reusing a stale pending nonce
+  const deployer = new NonceManager(new Wallet(process.env.DEPLOYER_PRIVATE_KEY || DEV_KEY, provider))
+  const abi = JSON.parse(readFileSync(path.join(root, "types/mint.abi.json"), "utf8"))
+  const binFile = path.resolve(root, process.env.CONTRACT_BIN || "types/mint.bin")
+  if (!existsSync(binFile)) throw new Error(`Bytecode file not found: ${binFile}`)
+  const bytecode = readFileSync(binFile, "utf8").trim()
+
+  console.log(`Deploying ${path.relative(root, binFile)} from ${await deployer.getAddress()} to ${RPC_URL}...`)
+  const factory = new ContractFactory(abi, bytecode.startsWith("0x") ? bytecode : `0x${bytecode}`, deployer)
+  const contract = await factory.deploy()
+  await contract.waitForDeployment()
+  const address = await contract.getAddress()
+  console.log(`Contract deployed at ${address}`)
+
+  for (const org of orgs) {
+    if (await contract.verifiedOrgs(org)) {
+      console.log(`  ${org} already verified`)
+      continue
+    }
+    const tx = await contract.newOrg(org)
+    await tx.wait()
+    console.log(`  verified org ${org}`)
+  }
+
+  const envFile = writeEnvLocal({
+    NEXT_PUBLIC_CHAIN_PROFILE: "local",
+    NEXT_PUBLIC_LOCAL_CONTRACT_ADDRESS: address,
+    NEXT_PUBLIC_LOCAL_RPC_URL: RPC_URL,
+  })
+  console.log(`Updated ${path.relative(root, envFile)}; restart \`pnpm dev\` to pick it up.`)
+}
+
+main().catch((e) => {
+  console.error(e.message || e)
+  process.exit(1)
+})